@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { ACHIEVEMENT_METRICS, AchievementDefinition, getAchievementDefinitions } from '@/lib/achievements';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/achievements
+ * 設定されている実績の一覧を取得する
+ */
+export async function GET() {
+  try {
+    const client = await clientPromise;
+    const db = client.db('coworking');
+    const achievements = await getAchievementDefinitions(db);
+
+    return NextResponse.json({ success: true, achievements });
+  } catch (error) {
+    console.error('[Achievements API] 実績一覧の取得エラー:', error);
+    return NextResponse.json(
+      { error: '実績一覧の取得に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/achievements
+ * 実績を作成または更新する（achievementId が同じ実績があれば上書き）
+ * 次に滞在を終えたユーザーから判定に使われる
+ */
+export async function POST(request: Request) {
+  try {
+    const body: Partial<AchievementDefinition> = await request.json();
+    const { achievementId, name, badge, description = '', metric, threshold, order = 0, enabled = true } = body;
+
+    if (!achievementId || !/^[a-z0-9-]+$/.test(achievementId) || !name || !badge) {
+      return NextResponse.json(
+        { error: 'achievementId（英小文字・数字・ハイフン）と name・badge が必要です' },
+        { status: 400 }
+      );
+    }
+    if (!metric || !ACHIEVEMENT_METRICS.includes(metric)) {
+      return NextResponse.json(
+        { error: `metric は ${ACHIEVEMENT_METRICS.join(', ')} のいずれかを指定してください` },
+        { status: 400 }
+      );
+    }
+    if (typeof threshold !== 'number' || !(threshold > 0)) {
+      return NextResponse.json({ error: 'threshold は正の数を指定してください' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    // デフォルトの実績が未作成の場合に備えて先に初期化しておく
+    await getAchievementDefinitions(db);
+
+    const achievement: AchievementDefinition = { achievementId, name, badge, description, metric, threshold, order, enabled: enabled !== false };
+    await db.collection<AchievementDefinition>('achievements').updateOne({ achievementId }, { $set: achievement }, { upsert: true });
+
+    console.log(`[Achievements API] 実績を保存しました: ${achievementId} (${name})`);
+
+    return NextResponse.json({ success: true, achievement });
+  } catch (error) {
+    console.error('[Achievements API] 実績の保存エラー:', error);
+    return NextResponse.json(
+      { error: '実績の保存に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ interface Announcement {
   authorChannelId: string;
   authorName?: string;
   profileImageUrl?: string;
+  pinned?: boolean; // /pin で固定表示されたお知らせ
   publishedAt: Date;
   createdAt: Date;
 }
@@ -18,10 +19,10 @@ export async function GET() {
     const db = client.db('coworking');
     const announcementsCollection = db.collection<Announcement>('announcements');
 
-    // createdAtで降順ソートし、最新20件を取得
+    // 固定表示のお知らせを先頭に、残りはcreatedAtで降順ソートし、最新10件を取得
     const announcements = await announcementsCollection
       .find()
-      .sort({ createdAt: -1 }) // 最新のものを上に
+      .sort({ pinned: -1, createdAt: -1 }) // 固定表示 → 最新のものの順
       .limit(10)
       .toArray();
 
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { youtubeApiClient } from '@/lib/youtubeApiClient';
+import { getChatSource } from '@/lib/chatSource';
 
 export async function POST(request: Request) {
   console.log('[API ClearCache] YouTube Negative Cacheクリアリクエストを受信');
@@ -13,8 +13,8 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'videoIdが必要です' }, { status: 400 });
     }
 
-    // YouTubeApiClient のメソッドを呼び出してキャッシュをクリア
-    youtubeApiClient.clearNegativeCache(videoId.trim());
+    // チャット取得元のメソッドを呼び出してキャッシュをクリア
+    getChatSource().clearNegativeCache(videoId.trim());
 
     console.log(`[API ClearCache] videoId: ${videoId.trim()} のNegative Cacheを正常にクリアしました`);
     return NextResponse.json({ 
@@ -6,9 +6,11 @@ interface CommandRequest {
   command: string;
   username: string;
   taskName?: string;
+  args?: Record<string, string>;
   authorId?: string;
   videoId?: string;
   profileImageUrl?: string;
+  commentId?: string;
 }
 
 export const dynamic = 'force-dynamic'; 
@@ -22,7 +24,7 @@ export async function POST(request: Request) {
   
   try {
     const body: CommandRequest = await request.json();
-    const { command, username, taskName, authorId, videoId, profileImageUrl } = body;
+    const { command, username, taskName, args, authorId, videoId, profileImageUrl, commentId } = body;
     
     if (!command || !username) {
       console.error('[Command API] Invalid request: missing required fields');
@@ -39,8 +41,10 @@ export async function POST(request: Request) {
       command,
       username,
       taskName,
+      args,
       authorId,
       videoId,
+      commentId,
       hasProfileImage: !!profileImageUrl
     }, null, 2));
     
@@ -51,7 +55,9 @@ export async function POST(request: Request) {
     const client = await clientPromise;
     const db = client.db('coworking');
     
-    const result = await processCommand(command, username, db, videoId, undefined, authorId, taskName, profileImageUrl);
+    // リクエストの内容（commentId・authorId はチャット上で公開されている）からは実行者を確認できないため、
+    // 常に viewer として実行する（モデレーター・管理者のコマンドはコメント取得ワーカーがサーバー側で実行する）
+    const result = await processCommand(command, username, db, videoId, undefined, authorId, taskName, profileImageUrl, args, 'viewer');
     
     return NextResponse.json({
       success: true,
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import clientPromise from '@/lib/mongodb';
+import { extendAutoExit } from '@/lib/autoExit';
+import { roomSeatQuery } from '@/lib/rooms';
 
 interface ExtendRequest {
   roomId: string;
@@ -9,6 +11,7 @@ interface ExtendRequest {
 
 /**
  * 指定された部屋・位置のユーザーの自動退室時間を延長する
+ * 延長の上限は /extend コマンドと同じく MAX_STAY_HOURS に従う
  */
 export async function POST(request: Request) {
   try {
@@ -30,9 +33,9 @@ export async function POST(request: Request) {
     const db = client.db('coworking');
     const seatsCollection = db.collection('seats');
     
-    // 座席情報を取得
+    // 座席情報を取得（seats には着席中の座席だけが入る）
     const seat = await seatsCollection.findOne({
-      room_id: roomId,
+      ...roomSeatQuery(roomId),
       position: position
     });
     
@@ -43,25 +46,22 @@ export async function POST(request: Request) {
       );
     }
     
-    // 入室時間から自動退室時間を計算
-    const now = new Date();
-    const autoExitTime = new Date(now);
-    autoExitTime.setHours(autoExitTime.getHours() + hours);
+    const result = await extendAutoExit(db, seat, hours * 60);
     
-    // 自動退室時間を更新
-    await seatsCollection.updateOne(
-      { _id: seat._id },
-      { $set: { autoExitScheduled: autoExitTime } }
-    );
-    
-    console.log(`[API] ${seat.username}の自動退室を${autoExitTime.toISOString()}に延長しました`);
+    if (!result.success || !result.autoExitScheduled) {
+      return NextResponse.json(
+        { success: false, error: result.error || '自動退室時間の延長に失敗しました' },
+        { status: result.limitReached ? 409 : 500 }
+      );
+    }
     
     return NextResponse.json({
       success: true,
       message: '自動退室時間を延長しました',
       username: seat.username,
-      newTime: autoExitTime.toISOString(),
-      formattedTime: autoExitTime.toLocaleString()
+      extendedMinutes: result.extendedMinutes,
+      newTime: result.autoExitScheduled.toISOString(),
+      formattedTime: result.autoExitScheduled.toLocaleString()
     });
     
   } catch (error) {
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { getLease } from '@/lib/leases';
+import { getIngestionTarget, setIngestionAdditionalVideoIds, setIngestionVideoId } from '@/lib/ingestion/settings';
+import { getChatIngestionWorker, INGESTION_LEASE_NAME } from '@/lib/ingestion/worker';
+import { getChatSource, getChatSourceName } from '@/lib/chatSource';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * コメント取得ワーカーの状態を取得するAPI
+ * videoId・broadcast は全インスタンスで共有される設定値、worker はこのインスタンスの状態
+ */
+export async function GET() {
+  try {
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    const [target, lease] = await Promise.all([
+      getIngestionTarget(db),
+      getLease(db, INGESTION_LEASE_NAME)
+    ]);
+
+    return NextResponse.json({
+      videoId: target.videoId,
+      videoIdSource: target.videoIdSource,
+      channelId: target.channelId,
+      broadcast: target.broadcast,
+      additionalVideoIds: target.additionalVideoIds,
+      source: getChatSourceName(),
+      leader: lease && lease.expiresAt > new Date()
+        ? { owner: lease.owner, acquiredAt: lease.acquiredAt, expiresAt: lease.expiresAt }
+        : null,
+      worker: getChatIngestionWorker().getStatus()
+    });
+  } catch (error) {
+    console.error('[Ingestion API] 状態取得エラー:', error);
+    return NextResponse.json({ error: 'コメント取得の状態を取得できませんでした' }, { status: 500 });
+  }
+}
+
+/**
+ * コメント取得対象の動画IDを設定するAPI
+ * body: { videoId?: string | null, additionalVideoIds?: string[] }
+ * - videoId: メインの配信。空文字または null を指定すると設定を解除し、YOUTUBE_CHANNEL_ID のチャンネルから検出した放送（なければ環境変数 YOUTUBE_VIDEO_ID）を使う
+ * - additionalVideoIds: メインの配信と同時にコメントを取得する配信（縦型配信など）。空の配列で解除する
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const rawVideoId = body?.videoId;
+    const rawAdditionalVideoIds = body?.additionalVideoIds;
+
+    if (rawVideoId !== undefined && rawVideoId !== null && typeof rawVideoId !== 'string') {
+      return NextResponse.json({ error: 'videoIdは文字列で指定してください' }, { status: 400 });
+    }
+    if (rawAdditionalVideoIds !== undefined
+      && (!Array.isArray(rawAdditionalVideoIds) || rawAdditionalVideoIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'additionalVideoIdsは文字列の配列で指定してください' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+    const chatSource = getChatSource();
+
+    if (rawVideoId !== undefined) {
+      const videoId = rawVideoId?.trim() || null;
+      await setIngestionVideoId(db, videoId);
+      if (videoId) {
+        // 配信開始前に設定された動画IDでも、すぐに再確認できるようにする
+        chatSource.clearNegativeCache(videoId);
+      }
+      console.log(`[Ingestion API] コメント取得対象の動画IDを${videoId || '未設定'}にしました`);
+    }
+
+    if (rawAdditionalVideoIds !== undefined) {
+      const additionalVideoIds: string[] = Array.from(new Set<string>(
+        rawAdditionalVideoIds.map((id: string) => id.trim()).filter(Boolean)
+      ));
+      await setIngestionAdditionalVideoIds(db, additionalVideoIds);
+      additionalVideoIds.forEach(id => chatSource.clearNegativeCache(id));
+    }
+
+    const target = await getIngestionTarget(db);
+    return NextResponse.json({ success: true, videoId: target.videoId, additionalVideoIds: target.additionalVideoIds });
+  } catch (error) {
+    console.error('[Ingestion API] 動画ID設定エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: '無効なリクエストボディです' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: '動画IDの設定中にエラーが発生しました' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { getChatSourceName, getMockChatLog, getMockLiveChatId, postMockChatMessage, MockViewer } from '@/lib/chatSource';
+import { getIngestionVideoId } from '@/lib/ingestion/settings';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_MESSAGE_LENGTH = 200; // YouTube のチャットの最大文字数
+
+interface MockChatRequest {
+  authorName?: string;
+  message?: string;
+  role?: MockViewer['role'];
+}
+
+/**
+ * ダミーのライブチャットの対象（現在のコメント取得対象の動画）を求める
+ * CHAT_SOURCE が mock でない場合や動画IDが未設定の場合はエラーレスポンスを返す
+ */
+async function resolveMockChat() {
+  if (getChatSourceName() !== 'mock') {
+    return { error: NextResponse.json({ error: 'CHAT_SOURCE=mock の場合のみ利用できます' }, { status: 404 }) };
+  }
+  const client = await clientPromise;
+  const db = client.db('coworking');
+  const videoId = await getIngestionVideoId(db);
+  if (!videoId) {
+    return { error: NextResponse.json({ error: '先にヘッダーから動画ID（任意の文字列）を設定してください' }, { status: 400 }) };
+  }
+  return { db, videoId, liveChatId: getMockLiveChatId(videoId) };
+}
+
+/**
+ * ダミーのライブチャットのコメントとBOTの返信を取得するAPI
+ */
+export async function GET() {
+  try {
+    const target = await resolveMockChat();
+    if (target.error) return target.error;
+
+    const log = await getMockChatLog(target.db, target.liveChatId);
+    return NextResponse.json({ videoId: target.videoId, liveChatId: target.liveChatId, ...log });
+  } catch (error) {
+    console.error('[MockChat API] ログ取得エラー:', error);
+    return NextResponse.json({ error: 'ダミーのチャットの取得に失敗しました' }, { status: 500 });
+  }
+}
+
+/**
+ * ダミーの視聴者としてコメントを投稿するAPI
+ * 投稿したコメントは次回のコメント取得でワーカーに読み込まれる
+ */
+export async function POST(request: Request) {
+  try {
+    const target = await resolveMockChat();
+    if (target.error) return target.error;
+
+    const body: MockChatRequest = await request.json();
+    const authorName = body.authorName?.trim();
+    const message = body.message?.trim();
+    if (!authorName || !message) {
+      return NextResponse.json({ error: 'authorName と message が必要です' }, { status: 400 });
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json({ error: `メッセージは${MAX_MESSAGE_LENGTH}文字以内で入力してください` }, { status: 400 });
+    }
+    const role = body.role === 'moderator' || body.role === 'owner' ? body.role : 'viewer';
+
+    const chatMessage = await postMockChatMessage(target.db, target.liveChatId, { authorName, role }, message);
+    console.log(`[MockChat API] ${authorName} (${role}) がコメントしました: ${message}`);
+    return NextResponse.json({ success: true, message: chatMessage });
+  } catch (error) {
+    console.error('[MockChat API] コメント投稿エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: '無効なリクエストボディです' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'ダミーのコメントの投稿に失敗しました' }, { status: 500 });
+  }
+}
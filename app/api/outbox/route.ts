@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { discardDeadLetter, getChatOutboxSummary, getDeadLetters, retryDeadLetter } from '@/lib/chatOutbox';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * チャットへの送信待ちの状況とデッドレターを取得する管理用API
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 200);
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    const [summary, deadLetters] = await Promise.all([
+      getChatOutboxSummary(db),
+      getDeadLetters(db, limit)
+    ]);
+
+    return NextResponse.json({
+      ...summary,
+      deadLetters: deadLetters.map(message => ({
+        id: message._id?.toString(),
+        liveChatId: message.liveChatId,
+        message: message.message,
+        attempts: message.attempts,
+        lastError: message.lastError || null,
+        createdAt: message.createdAt,
+        deadAt: message.deadAt || null
+      }))
+    });
+  } catch (error) {
+    console.error('[Outbox API] 送信待ちの状況の取得エラー:', error);
+    return NextResponse.json({ error: '送信待ちの状況の取得に失敗しました' }, { status: 500 });
+  }
+}
+
+/**
+ * デッドレターのメッセージを再送または破棄する管理用API
+ * body: { id: string, action: 'retry' | 'discard' }
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { id, action } = body || {};
+
+    if (typeof id !== 'string' || !ObjectId.isValid(id)) {
+      return NextResponse.json({ error: '有効なidを指定してください' }, { status: 400 });
+    }
+    if (action !== 'retry' && action !== 'discard') {
+      return NextResponse.json({ error: 'actionには retry または discard を指定してください' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+    const messageId = new ObjectId(id);
+
+    const updated = action === 'retry'
+      ? await retryDeadLetter(db, messageId)
+      : await discardDeadLetter(db, messageId);
+    if (!updated) {
+      return NextResponse.json({ error: 'デッドレターが見つかりませんでした' }, { status: 404 });
+    }
+
+    console.log(`[Outbox API] デッドレター ${id} を${action === 'retry' ? '送信待ちに戻しました' : '破棄しました'}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Outbox API] デッドレターの操作エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: '無効なリクエストボディです' }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: 'デッドレターの操作に失敗しました' }, { status: 500 });
+  }
+}
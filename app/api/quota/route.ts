@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { getQuotaHistory, getQuotaStatus } from '@/lib/youtubeQuota';
+import { getChatIngestionWorker } from '@/lib/ingestion/worker';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * YouTube API のクォータ消費状況を取得する管理用API
+ * 本日の消費量・予算・見込み消費量と、直近の日ごとの記録を返す
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 7, 1), 90);
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+    const { pollingIntervalMs, streams } = getChatIngestionWorker().getStatus();
+
+    const [today, history] = await Promise.all([
+      // 複数の配信から同時に取得している場合は、その数だけ短い間隔で取得しているものとして見込む
+      getQuotaStatus(db, pollingIntervalMs ? pollingIntervalMs / Math.max(streams.length, 1) : undefined),
+      getQuotaHistory(db, days)
+    ]);
+
+    return NextResponse.json({
+      today,
+      pollingIntervalMs,
+      history: history.map(entry => ({
+        date: entry._id,
+        used: entry.used,
+        calls: entry.calls,
+        exhaustedAt: entry.exhaustedAt || null
+      }))
+    });
+  } catch (error) {
+    console.error('[Quota API] クォータ状況の取得エラー:', error);
+    return NextResponse.json({ error: 'クォータ状況の取得に失敗しました' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { getRooms, RoomConfig } from '@/lib/rooms';
+import type { RoomType } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const ROOM_TYPES: RoomType[] = ['silent', 'chatty', 'english-only'];
+
+/**
+ * GET /api/rooms
+ * 設定されている部屋の一覧を取得する
+ */
+export async function GET() {
+  try {
+    const client = await clientPromise;
+    const db = client.db('coworking');
+    const rooms = await getRooms(db);
+
+    return NextResponse.json({ success: true, rooms });
+  } catch (error) {
+    console.error('[Rooms API] 部屋一覧の取得エラー:', error);
+    return NextResponse.json(
+      { error: '部屋一覧の取得に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/rooms
+ * 部屋を作成または更新する（roomId が同じ部屋があれば上書き）
+ */
+export async function POST(request: Request) {
+  try {
+    const body: Partial<RoomConfig> = await request.json();
+    const { roomId, name, type = 'silent', capacity = null, autoExitHours = 2, order = 0 } = body;
+
+    if (!roomId || !/^[a-z0-9-]+$/.test(roomId) || !name) {
+      return NextResponse.json(
+        { error: 'roomId（英小文字・数字・ハイフン）と name が必要です' },
+        { status: 400 }
+      );
+    }
+    if (!ROOM_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type は ${ROOM_TYPES.join(', ')} のいずれかを指定してください` },
+        { status: 400 }
+      );
+    }
+    if ((capacity !== null && (!Number.isInteger(capacity) || capacity <= 0)) || !(autoExitHours > 0)) {
+      return NextResponse.json(
+        { error: 'capacity は正の整数または null、autoExitHours は正の数を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    // デフォルトの部屋が未作成の場合に備えて先に初期化しておく
+    await getRooms(db);
+
+    const room: RoomConfig = { roomId, name, type, capacity, autoExitHours, order };
+    await db.collection<RoomConfig>('rooms').updateOne({ roomId }, { $set: room }, { upsert: true });
+
+    console.log(`[Rooms API] 部屋を保存しました: ${roomId} (${name})`);
+
+    return NextResponse.json({ success: true, room });
+  } catch (error) {
+    console.error('[Rooms API] 部屋の保存エラー:', error);
+    return NextResponse.json(
+      { error: '部屋の保存に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
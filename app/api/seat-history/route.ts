@@ -1,12 +1,17 @@
+import { Document, Filter } from 'mongodb';
 import { NextResponse } from 'next/server';
 import clientPromise from '@/lib/mongodb';
-import { formatCurrentDateTime } from '@/lib/autoExit';
+import { formatRemainingTime } from '@/lib/autoExit';
+import { getTotalBreakMs } from '@/lib/seatBreaks';
+import { countCompletedTasks, getSeatTasks } from '@/lib/seatTasks';
+import { resolveAuthorId } from '@/lib/users';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * 座席利用履歴を取得するAPIエンドポイント
  * ?username=名前 または ?authorId=ID のクエリパラメーターで指定されたユーザーの履歴を取得する
+ * 表示名を変更したユーザーも、チャンネルIDが同じなら1人のユーザーとして履歴をまとめる
  * 
  * @param request リクエストオブジェクト
  * @returns 座席利用履歴のJSON
@@ -31,37 +36,55 @@ export async function GET(request: Request) {
     const db = client.db('coworking');
     
     // 検索条件を構築
-    const query: Record<string, any> = {};
-    if (username) {
-      query.username = username;
-    }
-    if (authorId) {
-      query.authorId = authorId;
-    }
+    // ユーザー名だけが指定された場合も、users からチャンネルIDがわかれば表示名を変更する前の履歴も含める
+    const resolvedAuthorId = authorId || (username ? await resolveAuthorId(db, username) : null);
+    const query: Filter<Document> = resolvedAuthorId ? { authorId: resolvedAuthorId } : { username };
     
     console.log(`[SeatHistory] 検索条件: ${JSON.stringify(query)}`);
     
-    // 履歴を取得（最新順）
-    const history = await db.collection('seats')
-      .find(query)
-      .sort({ timestamp: -1 })
-      .limit(limit)
-      .toArray();
+    // 着席中の座席と、退室した滞在の記録を取得（最新順）
+    const [currentSeat, sessions] = await Promise.all([
+      db.collection('seats').findOne(query),
+      db.collection('sessions')
+        .find(query)
+        .sort({ exitTime: -1 })
+        .limit(limit)
+        .toArray()
+    ]);
+    const history = (currentSeat ? [currentSeat, ...sessions] : sessions).slice(0, limit);
     
     console.log(`[SeatHistory] ${history.length}件の履歴を取得しました`);
     
     // 変換後のデータ形式
-    const formattedHistory = history.map(seat => ({
-      id: seat._id.toString(),
-      position: seat.position,
-      username: seat.username,
-      task: seat.task,
-      isActive: seat.is_active,
-      enterTime: seat.enterTime ? new Date(seat.enterTime).toISOString() : null,
-      exitTime: seat.exitTime ? new Date(seat.exitTime).toISOString() : null,
-      duration: calculateDuration(seat.enterTime, seat.exitTime),
-      timestamp: seat.timestamp ? new Date(seat.timestamp).toISOString() : null
-    }));
+    const formattedHistory = history.map(seat => {
+      const isActive = seat === currentSeat;
+      // 休憩時間は利用時間から除外する（休憩中の場合は現在までの休憩も含める）
+      const breakMs = getTotalBreakMs(seat, seat.exitTime ? new Date(seat.exitTime) : new Date());
+      return {
+        id: seat._id.toString(),
+        position: seat.position,
+        username: seat.username,
+        task: seat.task,
+        isActive,
+        isOnBreak: Boolean(isActive && seat.breakStartedAt),
+        exitReason: seat.exitReason || null,
+        enterTime: seat.enterTime ? new Date(seat.enterTime).toISOString() : null,
+        exitTime: seat.exitTime ? new Date(seat.exitTime).toISOString() : null,
+        duration: calculateDuration(seat.enterTime, seat.exitTime, breakMs),
+        breakDuration: breakMs > 0 ? formatRemainingTime(breakMs) : null,
+        // この滞在で取り組んだタスク（開始順）
+        tasks: getSeatTasks(seat).map(task => ({
+          name: task.name,
+          startedAt: new Date(task.startedAt).toISOString(),
+          endedAt: task.endedAt ? new Date(task.endedAt).toISOString() : null,
+          completed: task.completed,
+          duration: calculateDuration(task.startedAt, task.endedAt)
+        })),
+        completedTaskCount: countCompletedTasks(seat),
+        // 退室した滞在は退室時刻、着席中の座席は最終更新時刻
+        timestamp: (seat.exitTime || seat.timestamp) ? new Date(seat.exitTime || seat.timestamp).toISOString() : null
+      };
+    });
     
     return NextResponse.json({ 
       success: true,
@@ -81,9 +104,10 @@ export async function GET(request: Request) {
  * 入室時間と退室時間から利用時間を計算する
  * @param enterTime 入室時間
  * @param exitTime 退室時間
+ * @param breakMs 除外する休憩時間（ミリ秒）
  * @returns フォーマットされた利用時間の文字列、または null
  */
-function calculateDuration(enterTime: Date | null, exitTime: Date | null): string | null {
+function calculateDuration(enterTime: Date | null, exitTime: Date | null, breakMs: number = 0): string | null {
   if (!enterTime) return null;
   
   // 退室時間が未設定の場合は現在時刻を使用
@@ -91,7 +115,7 @@ function calculateDuration(enterTime: Date | null, exitTime: Date | null): strin
   const start = new Date(enterTime);
   
   // ミリ秒単位での差分を計算
-  const diffMs = end.getTime() - start.getTime();
+  const diffMs = end.getTime() - start.getTime() - breakMs;
   
   // 負の値の場合はnullを返す（データ不整合）
   if (diffMs < 0) return null;
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import clientPromise from '@/lib/mongodb';
-import { checkAndProcessAutoExit } from '@/lib/autoExit';
-import { fetchRoomData, calculateBackoff, createSystemMessage, ChangeStreamManager } from '@/lib/sseUtils';
+import { fetchRoomData, calculateBackoff, createSystemMessage, createCelebrationMessage, createLeaderboardMessage, ChangeStreamManager } from '@/lib/sseUtils';
+import { getLeaderboard } from '@/lib/leaderboard';
 import { ChangeStream, ChangeStreamDocument, Db, MongoClient } from 'mongodb';
 
 export const dynamic = 'force-dynamic';
@@ -13,12 +13,9 @@ async function setupSeatsChangeStream(
     db: Db,
     manager: ChangeStreamManager,
     controller: ReadableStreamDefaultController<any>,
-    checkAutoExit: () => Promise<void>,
     // Variables from GET handler scope passed by reference or as callbacks
     getSeatsChangeStream: () => ChangeStream | null,
     setSeatsChangeStream: (stream: ChangeStream | null) => void,
-    getAutoExitIntervalId: () => NodeJS.Timeout | null,
-    setAutoExitIntervalId: (id: NodeJS.Timeout | null) => void,
     getChangeStreamRetryCount: () => number,
     setChangeStreamRetryCount: (count: number) => void,
     incrementChangeStreamRetryCount: () => number,
@@ -34,26 +31,13 @@ async function setupSeatsChangeStream(
         }
 
         console.log('[SSE Helper] Setting up MongoDB seats change stream');
-        const newStream = db.collection('seats').watch([
-          // Optionally add pipeline stages here if needed
-          // e.g., { $match: { 'operationType': { $in: ['insert', 'update', 'replace', 'delete'] } } }
+        // 座席（seats）と待機列（seatQueue）のどちらが変わっても部屋データを送り直す
+        const newStream = db.watch([
+          { $match: { 'ns.coll': { $in: ['seats', 'seatQueue'] } } }
         ]);
         setSeatsChangeStream(newStream); // Store the new stream reference
         console.log('[SSE Helper] Seats change stream initialized');
 
-        // --- 自動退室チェックの開始ロジック ---
-        // このインスタンスで、かつ最初の接続の場合のみインターバルを開始する
-        if (manager.shouldStartAutoExitCheckOnRegister() && !getAutoExitIntervalId()) {
-          console.log('[SSE Helper] Starting auto-exit check interval for this instance.');
-          const newIntervalId = setInterval(checkAutoExit, 60000); // 1分ごと
-          setAutoExitIntervalId(newIntervalId);
-        } else if (getAutoExitIntervalId()) {
-           console.log('[SSE Helper] Auto-exit check interval is already running for this connection.');
-        } else {
-          console.log('[SSE Helper] Auto-exit check interval not started (not the first connection for this instance or already running).');
-        }
-        // --- ここまで ---
-
         newStream.on('change', async (changeEvent: ChangeStreamDocument) => {
           if (isControllerClosed()) {
             console.log('[SSE Helper] Controller is already closed, ignoring change event');
@@ -97,12 +81,6 @@ async function setupSeatsChangeStream(
             await currentStreamOnError.close().catch((err: Error) => console.error('[SSE Helper] Error closing seats change stream on error:', err));
             setSeatsChangeStream(null); // Clear reference after closing
           }
-          const currentIntervalOnError = getAutoExitIntervalId();
-          if (currentIntervalOnError) {
-              clearInterval(currentIntervalOnError);
-              setAutoExitIntervalId(null);
-              console.log('[SSE Helper] Cleared auto-exit interval due to seats stream error.');
-          }
 
           // 深刻なエラーのみストリームを終了する（例：MongoDB接続の完全切断など）
           if (error.message.includes('no longer connected to server') ||
@@ -166,9 +144,16 @@ async function setupNotificationsChangeStream(
         }
 
         console.log('[SSE Helper] Setting up MongoDB notifications change stream');
-        const newStream = db.collection('announcements').watch([{ $match: { operationType: 'insert' } }]);
+        // お知らせ（announcements）・コマンド処理のシステムメッセージ（notifications）・応援イベント（supportEvents）・ランキング（leaderboards）を1つのストリームで監視
+        // ランキングはドキュメントを置き換えて更新するため、置き換え（replace）も監視する
+        const newStream = db.watch([
+          { $match: { $or: [
+            { operationType: 'insert', 'ns.coll': { $in: ['announcements', 'notifications', 'supportEvents'] } },
+            { operationType: { $in: ['insert', 'replace'] }, 'ns.coll': 'leaderboards' }
+          ] } }
+        ]);
         setNotificationsChangeStream(newStream);
-        console.log('[SSE Helper] Announcements change stream initialized');
+        console.log('[SSE Helper] Announcements/notifications change stream initialized');
 
         newStream.on('change', async (changeEvent: ChangeStreamDocument<any>) => {
           if (isControllerClosed()) {
@@ -176,6 +161,39 @@ async function setupNotificationsChangeStream(
             return;
           }
 
+          if (changeEvent.operationType === 'insert' && changeEvent.ns?.coll === 'notifications') {
+            const notification = changeEvent.fullDocument;
+            if (notification && !isControllerClosed()) {
+              controller.enqueue(new TextEncoder().encode(
+                createSystemMessage(
+                  notification.message,
+                  notification.type || 'info',
+                  notification.id || notification._id?.toString()
+                )
+              ));
+              console.log('[SSE Helper] Sent notification system message.');
+            }
+            return;
+          }
+
+          if ((changeEvent.operationType === 'insert' || changeEvent.operationType === 'replace') && changeEvent.ns?.coll === 'leaderboards') {
+            const leaderboard = changeEvent.fullDocument;
+            if (leaderboard && !isControllerClosed()) {
+              controller.enqueue(new TextEncoder().encode(createLeaderboardMessage(leaderboard)));
+              console.log('[SSE Helper] Sent leaderboard message.');
+            }
+            return;
+          }
+
+          if (changeEvent.operationType === 'insert' && changeEvent.ns?.coll === 'supportEvents') {
+            const supportEvent = changeEvent.fullDocument;
+            if (supportEvent && !isControllerClosed()) {
+              controller.enqueue(new TextEncoder().encode(createCelebrationMessage(supportEvent)));
+              console.log('[SSE Helper] Sent celebration message.');
+            }
+            return;
+          }
+
           if (changeEvent.operationType === 'insert') {
             try {
               const announcement = changeEvent.fullDocument;
@@ -233,7 +251,6 @@ export async function GET() {
   let db: Db | null = null;
   let seatsChangeStream: ChangeStream | null = null;
   let notificationsChangeStream: ChangeStream | null = null;
-  let autoExitIntervalId: NodeJS.Timeout | null = null;
   let keepAliveIntervalId: NodeJS.Timeout | null = null; // Added for keep-alive
   let connectionStatusIntervalId: NodeJS.Timeout | null = null; // 追加: 接続状態の定期チェック用
   let inactivityTimeoutId: NodeJS.Timeout | null = null; // 追加: 非アクティブ検出用
@@ -255,8 +272,6 @@ export async function GET() {
   const setSeatsChangeStream = (stream: ChangeStream | null) => { seatsChangeStream = stream; };
   const getNotificationsChangeStream = () => notificationsChangeStream;
   const setNotificationsChangeStream = (stream: ChangeStream | null) => { notificationsChangeStream = stream; };
-  const getAutoExitIntervalId = () => autoExitIntervalId;
-  const setAutoExitIntervalId = (id: NodeJS.Timeout | null) => { autoExitIntervalId = id; };
   const getChangeStreamRetryCount = () => changeStreamRetryCount;
   const setChangeStreamRetryCount = (count: number) => { changeStreamRetryCount = count; };
   const incrementChangeStreamRetryCount = () => { return ++changeStreamRetryCount; };
@@ -281,12 +296,6 @@ export async function GET() {
       console.log('[SSE Cleanup] Cleared keep-alive interval.');
     }
     
-    if (autoExitIntervalId) {
-      clearInterval(autoExitIntervalId);
-      setAutoExitIntervalId(null); // Use the setter
-      console.log('[SSE Cleanup] Cleared auto-exit interval.');
-    }
-    
     if (connectionStatusIntervalId) {
       clearInterval(connectionStatusIntervalId);
       connectionStatusIntervalId = null;
@@ -444,7 +453,7 @@ export async function GET() {
 
           // Setup both streams concurrently (or sequentially if needed)
           await Promise.all([
-            setupSeatsChangeStream(db, manager, controller, checkAutoExit, getSeatsChangeStream, setSeatsChangeStream, getAutoExitIntervalId, setAutoExitIntervalId, getChangeStreamRetryCount, setChangeStreamRetryCount, incrementChangeStreamRetryCount, isControllerClosedFn, setupStreams, updateActivityTime),
+            setupSeatsChangeStream(db, manager, controller, getSeatsChangeStream, setSeatsChangeStream, getChangeStreamRetryCount, setChangeStreamRetryCount, incrementChangeStreamRetryCount, isControllerClosedFn, setupStreams, updateActivityTime),
             setupNotificationsChangeStream(db, controller, getNotificationsChangeStream, setNotificationsChangeStream, isControllerClosedFn, setupStreams)
           ]);
           console.log('[SSE Setup] Both change streams setup successfully');
@@ -461,6 +470,16 @@ export async function GET() {
             } else {
                 console.warn('[SSE Setup] Controller closed before initial data could be sent.'); // ★ Log if closed
             }
+
+            // 表示中のランキングも送る（以降は leaderboards の変更時に送る）
+            try {
+              const leaderboard = await getLeaderboard(db);
+              if (leaderboard && !isControllerClosed) {
+                controller.enqueue(encoder.encode(createLeaderboardMessage(leaderboard)));
+              }
+            } catch (leaderboardError) {
+              console.error('[SSE Setup] Error fetching initial leaderboard:', leaderboardError);
+            }
           } catch (fetchError) {
               console.error('[SSE Setup] Error fetching or sending initial data:', fetchError);
               if (!isControllerClosed) {
@@ -491,40 +510,6 @@ export async function GET() {
         }
       };
 
-      const checkAutoExit = async () => {
-         if (isControllerClosed) return; // Don't run if closed
-         console.log('[SSE AutoExit] Starting auto-exit check...');
-         try {
-           if (!db) {
-             console.warn('[SSE AutoExit] DB not available, attempting to connect');
-             try {
-               client = await clientPromise;
-               db = client.db('coworking');
-             } catch (connectError) {
-               console.error('[SSE AutoExit] Failed to reconnect DB for auto-exit check:', connectError);
-               return; // Skip check if DB connection fails
-             }
-           }
-           const result = await checkAndProcessAutoExit(db);
-           if (result && result.processedCount > 0) {
-             console.log(`[SSE AutoExit] Processed ${result.processedCount} auto-exits. Fetching updated data...`);
-             // Auto-exitが発生したらデータを再取得して送信
-             const updatedData = await fetchRoomData(db);
-             if (!isControllerClosed) { // Check flag
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify(updatedData)}\n\n`));
-                console.log('[SSE AutoExit] Sent updated data after auto-exit.');
-             }
-           } else {
-               // console.log('[SSE AutoExit] No users processed for auto-exit.');
-           }
-         } catch (error) {
-           console.error('[SSE AutoExit] Error during auto-exit check:', error);
-           if (!isControllerClosed) { // Check flag
-               controller.enqueue(encoder.encode(createSystemMessage('自動退室処理中にエラーが発生しました。', 'warning')));
-           }
-         }
-       };
-
       // Initial setup
       await setupStreams();
 
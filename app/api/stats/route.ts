@@ -0,0 +1,88 @@
+import { Document, Filter } from 'mongodb';
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { addDays, aggregateStudyStats, isValidTimeZone, STATS_PERIODS, StatsPeriod } from '@/lib/studyStats';
+import { resolveAuthorId } from '@/lib/users';
+import { getDateKey, STATS_TIMEZONE } from '@/lib/userStats';
+
+export const dynamic = 'force-dynamic';
+
+// 期間を指定しない場合に集計する日数（今日を含む）
+const DEFAULT_RANGE_DAYS = 30;
+// 一度に集計できる最大日数
+const MAX_RANGE_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/stats
+ * 作業時間を全体とユーザーごとに、日・週・月ごとに集計する
+ * 時間はすべてミリ秒の数値で返す
+ *
+ * クエリパラメータ:
+ * - from, to: 集計する期間（YYYY-MM-DD、timezone での日付。to を含む。省略時は今日までの30日間）
+ * - timezone: 日付の区切りに使うタイムゾーン（省略時は STATS_TIMEZONE）
+ * - period: day | week | month（省略時は day）
+ * - roomId: 指定した部屋の滞在だけを集計する
+ * - authorId または username: 指定したユーザーの滞在だけを集計する
+ * - limit: 返すユーザーの最大数（作業時間の多い順、省略時は50）
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeZone = searchParams.get('timezone') || STATS_TIMEZONE;
+    const period = (searchParams.get('period') || 'day') as StatsPeriod;
+    const roomId = searchParams.get('roomId') || undefined;
+    const authorId = searchParams.get('authorId');
+    const username = searchParams.get('username');
+    const userLimit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 500);
+
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json({ error: `timezone「${timeZone}」は使用できません` }, { status: 400 });
+    }
+    if (!STATS_PERIODS.includes(period)) {
+      return NextResponse.json({ error: `period には ${STATS_PERIODS.join(', ')} のいずれかを指定してください` }, { status: 400 });
+    }
+
+    const to = searchParams.get('to') || getDateKey(new Date(), timeZone);
+    const from = searchParams.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+    if (!isValidDateKey(from) || !isValidDateKey(to)) {
+      return NextResponse.json({ error: 'from・to は YYYY-MM-DD 形式で指定してください' }, { status: 400 });
+    }
+    if (from > to) {
+      return NextResponse.json({ error: 'from には to 以前の日付を指定してください' }, { status: 400 });
+    }
+    if (addDays(from, MAX_RANGE_DAYS) <= to) {
+      return NextResponse.json({ error: `集計できる期間は最大${MAX_RANGE_DAYS}日です` }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    // ユーザー名だけが指定された場合も、チャンネルIDがわかれば表示名を変更する前の滞在も含める
+    let userQuery: Filter<Document> | undefined;
+    if (authorId || username) {
+      const resolvedAuthorId = authorId || await resolveAuthorId(db, username!);
+      userQuery = resolvedAuthorId ? { authorId: resolvedAuthorId } : { username };
+    }
+
+    const stats = await aggregateStudyStats(db, { from, to, timeZone, period, roomId, userQuery, userLimit });
+
+    return NextResponse.json({ success: true, ...stats });
+  } catch (error) {
+    console.error('[Stats API] 集計エラー:', error);
+    return NextResponse.json(
+      { error: '作業時間の集計に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 存在する日付の YYYY-MM-DD 形式か確認する
+ * @param dateKey 確認する文字列
+ * @returns 正しい日付の場合はtrue
+ */
+function isValidDateKey(dateKey: string): boolean {
+  return DATE_PATTERN.test(dateKey) && addDays(dateKey, 0) === dateKey;
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import { findRoom } from '@/lib/rooms';
+import { getUserProfile, resolveAuthorId, updateUserPreferences, UserProfile } from '@/lib/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * ユーザーをクライアント用にフォーマットする
+ * @param user users コレクションのユーザー
+ * @returns フォーマットしたユーザー
+ */
+function formatUser(user: UserProfile) {
+  return {
+    authorId: user._id,
+    displayName: user.displayName,
+    profileImageUrl: user.profileImageUrl,
+    nameHistory: user.nameHistory,
+    firstSeenAt: user.firstSeenAt,
+    lastSeenAt: user.lastSeenAt,
+    preferences: user.preferences,
+    totals: user.totals
+  };
+}
+
+/**
+ * GET /api/users
+ * ?authorId=ID または ?username=名前 で指定したユーザーを取得する
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const authorId = searchParams.get('authorId');
+    const username = searchParams.get('username');
+
+    if (!authorId && !username) {
+      return NextResponse.json(
+        { error: 'username または authorId パラメータが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    const resolvedAuthorId = authorId || await resolveAuthorId(db, username!);
+    const user = resolvedAuthorId ? await getUserProfile(db, resolvedAuthorId) : null;
+    if (!user) {
+      return NextResponse.json({ error: 'ユーザーが見つかりませんでした' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, user: formatUser(user) });
+  } catch (error) {
+    console.error('[Users API] ユーザーの取得エラー:', error);
+    return NextResponse.json(
+      { error: 'ユーザーの取得に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users
+ * ユーザーの設定を更新する
+ * body: { authorId: string, preferences: { defaultRoom?: string | null } }（null で設定を削除）
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { authorId, preferences } = body || {};
+
+    if (typeof authorId !== 'string' || !authorId) {
+      return NextResponse.json({ error: 'authorId を指定してください' }, { status: 400 });
+    }
+    if (!preferences || typeof preferences !== 'object' || !('defaultRoom' in preferences)) {
+      return NextResponse.json({ error: 'preferences に更新する設定を指定してください' }, { status: 400 });
+    }
+
+    const { defaultRoom } = preferences;
+    if (defaultRoom !== null && typeof defaultRoom !== 'string') {
+      return NextResponse.json({ error: 'defaultRoom には部屋IDまたは null を指定してください' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db('coworking');
+
+    const room = defaultRoom ? await findRoom(db, defaultRoom) : null;
+    if (defaultRoom && !room) {
+      return NextResponse.json({ error: `部屋「${defaultRoom}」が見つかりません` }, { status: 400 });
+    }
+
+    const user = await updateUserPreferences(db, authorId, { defaultRoom: room?.roomId || null });
+    if (!user) {
+      return NextResponse.json({ error: 'ユーザーが見つかりませんでした' }, { status: 404 });
+    }
+
+    console.log(`[Users API] ユーザー ${user.displayName} (${authorId}) の設定を更新しました`);
+    return NextResponse.json({ success: true, user: formatUser(user) });
+  } catch (error) {
+    console.error('[Users API] ユーザーの設定の更新エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: '無効なリクエストボディです' }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'ユーザーの設定の更新に失敗しました', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
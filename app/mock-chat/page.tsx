@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { Bot, MessageSquare, Send } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+
+// APIから返されるダミーのコメント・返信の型
+interface MockChatLog {
+  videoId: string;
+  liveChatId: string;
+  messages: { _id: string; authorName: string; message: string; isChatOwner: boolean; isChatModerator: boolean; publishedAt: string }[];
+  replies: { _id: string; message: string; sentAt: string }[];
+  error?: string;
+}
+
+type ViewerRole = "viewer" | "moderator" | "owner";
+
+const ROLE_LABELS: Record<ViewerRole, string> = {
+  viewer: "視聴者",
+  moderator: "モデレーター",
+  owner: "配信者",
+};
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+/**
+ * ローカル開発用のダミーのライブチャット（CHAT_SOURCE=mock の場合のみ利用できる）
+ * 視聴者としてコメントを投稿し、BOTが送るはずだった返信を確認する
+ */
+export default function MockChatPage() {
+  const { data, mutate } = useSWR<MockChatLog>("/api/mock-chat", fetcher, {
+    refreshInterval: 3000,
+  });
+  const [authorName, setAuthorName] = useState("テストユーザー");
+  const [role, setRole] = useState<ViewerRole>("viewer");
+  const [message, setMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!authorName.trim() || !message.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/mock-chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ authorName, message, role }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast({ title: "投稿に失敗しました", description: result.error, variant: "destructive" });
+        return;
+      }
+      setMessage("");
+      mutate();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6">
+      <div className="container mx-auto max-w-4xl space-y-4">
+        <h1 className="text-2xl font-bold">ダミーのライブチャット</h1>
+
+        {data?.error ? (
+          <Card className="p-4 text-sm text-red-600">{data.error}</Card>
+        ) : (
+          <p className="text-sm text-gray-600">
+            動画ID: {data?.videoId || "-"}（投稿したコメントは次回のコメント取得でコマンドとして処理されます）
+          </p>
+        )}
+
+        <Card className="p-4">
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3 md:flex-row md:items-end">
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="authorName">名前</Label>
+              <Input id="authorName" value={authorName} onChange={e => setAuthorName(e.target.value)} className="md:w-40" />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="role">権限</Label>
+              <select
+                id="role"
+                value={role}
+                onChange={e => setRole(e.target.value as ViewerRole)}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              >
+                {(Object.keys(ROLE_LABELS) as ViewerRole[]).map(key => (
+                  <option key={key} value={key}>{ROLE_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-1 flex-col gap-1">
+              <Label htmlFor="message">コメント</Label>
+              <Input id="message" value={message} onChange={e => setMessage(e.target.value)} placeholder="/work 数学" maxLength={200} />
+            </div>
+            <Button type="submit" disabled={!authorName.trim() || !message.trim() || isSubmitting}>
+              <Send className="mr-1 h-4 w-4" />
+              投稿
+            </Button>
+          </form>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card className="p-4">
+            <h2 className="mb-2 flex items-center gap-1 font-medium">
+              <MessageSquare className="h-4 w-4" />
+              コメント
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {(data?.messages || []).map(item => (
+                <li key={item._id}>
+                  <span className="text-gray-400">{format(new Date(item.publishedAt), "HH:mm:ss")}</span>{" "}
+                  <span className="font-semibold">{item.authorName}</span>
+                  {(item.isChatOwner || item.isChatModerator) && (
+                    <span className="ml-1 text-xs text-blue-500">{item.isChatOwner ? ROLE_LABELS.owner : ROLE_LABELS.moderator}</span>
+                  )}
+                  : {item.message}
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          <Card className="p-4">
+            <h2 className="mb-2 flex items-center gap-1 font-medium">
+              <Bot className="h-4 w-4" />
+              BOTの返信
+            </h2>
+            <ul className="space-y-1 text-sm">
+              {(data?.replies || []).map(reply => (
+                <li key={reply._id}>
+                  <span className="text-gray-400">{format(new Date(reply.sentAt), "HH:mm:ss")}</span> {reply.message}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,22 +1,21 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
-import Room from "@/components/Room";
+import { useEffect, useState, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import FocusRoom from "@/components/FocusRoom";
 import Header from "@/components/Header";
 import NotificationTicker, { Notification } from "@/components/NotificationTicker";
 import AnnouncementsTicker from "@/components/AnnouncementsTicker";
+import SupportCelebration from "@/components/SupportCelebration";
+import Leaderboard from "@/components/Leaderboard";
 import { toast } from "@/hooks/use-toast";
 import { RoomData } from "@/hooks/use-seat-data";
 import { useSSE, SystemMessage } from "@/hooks/use-sse";
-import { useYouTubeComments } from "@/hooks/use-youtube-comments";
-import { youtubeService } from "@/lib/api/services/youtubeService";
-import { SSEData } from "@/lib/api/sse/sseTypes";
-import { AlertCircle, WifiOff, Loader2, Youtube, Video } from "lucide-react";
+import { youtubeService, DetectedBroadcastResponse, IngestionStatusResponse } from "@/lib/api/services/youtubeService";
+import { CelebrationEvent, LeaderboardData, SSEData } from "@/lib/api/sse/sseTypes";
+import { AlertCircle, WifiOff, Loader2, Video } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { Command } from "@/lib/types";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Tooltip,
@@ -28,19 +27,28 @@ import VideoBackground from "@/components/VideoBackground";
 import LargeLogo from "@/components/LargeLogo";
 
 const MAX_NOTIFICATIONS = 20;
+// コメント取得状態（エラー表示用）を再取得する間隔
+const INGESTION_STATUS_INTERVAL_MS = 60 * 1000;
 
 
 export default function Home() {
-  // YouTubeの動画ID
+  // YouTubeの動画ID（コメント取得はサーバー側のワーカーが行い、画面は表示のみを担当する）
   const [videoId, setVideoId] = useState<string>("");
+  const [isVideoIdLoaded, setIsVideoIdLoaded] = useState(false);
+  const [ingestionError, setIngestionError] = useState<string | null>(null);
+  // YOUTUBE_CHANNEL_ID のチャンネルから自動で検出した放送
+  const [broadcast, setBroadcast] = useState<DetectedBroadcastResponse | null>(null);
+  const [channelId, setChannelId] = useState<string | null>(null);
+  const [videoIdSource, setVideoIdSource] = useState<IngestionStatusResponse['videoIdSource']>(null);
   
   // 独自のSSE接続を使用
   const [rooms, setRooms] = useState<RoomData[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isMounted, setIsMounted] = useState(false);
-
-  // コマンド処理の状態管理を提供するuseYouTubeCommentsフックを使用
-  const processingCommandsRef = useRef<Set<string>>(new Set());
+  // 表示待ちの応援イベント（先頭から順に表示する）
+  const [celebrations, setCelebrations] = useState<CelebrationEvent[]>([]);
+  // 作業時間のランキング（SSEで順位が変わるたびに送られる）
+  const [leaderboard, setLeaderboard] = useState<LeaderboardData | null>(null);
 
   // お知らせメッセージ処理
   const handleSystemMessage = useCallback((messagePayload: SystemMessage) => {
@@ -67,6 +75,17 @@ export default function Home() {
     });
   }, []);
 
+  // 応援イベント（Super Chat・メンバー加入など）を表示待ちに追加
+  const handleCelebration = useCallback((celebration: CelebrationEvent) => {
+    console.log('[Page] Celebration Received:', celebration);
+    setCelebrations(prev => [...prev, celebration]);
+  }, []);
+
+  // 表示し終えた応援イベントを取り除く
+  const handleCelebrationDone = useCallback(() => {
+    setCelebrations(prev => prev.slice(1));
+  }, []);
+
   // 座席データメッセージ処理
   const handleSeatDataMessage = useCallback((data: SSEData) => {
     console.log('[Page] handleSeatDataMessage called. Received data:', JSON.stringify(data, null, 2));
@@ -97,6 +116,8 @@ export default function Home() {
     endpoint: '/api/sse',
     onMessage: handleSeatDataMessage, // 座席データ用ハンドラ
     onSystemMessage: handleSystemMessage, // お知らせ用ハンドラ
+    onCelebration: handleCelebration, // 応援イベント用ハンドラ
+    onLeaderboard: setLeaderboard, // ランキング用ハンドラ
     onConnect: () => {
       console.log('[Page] SSE connection established');
     },
@@ -110,128 +131,39 @@ export default function Home() {
   });
   console.log('[Page] Current connection state:', connectionState); // 常に最新の接続状態をログ出力
 
-  // コマンド処理ハンドラ
-  const handleCommands = useCallback(async (commands: Command[]) => {
-    console.log(`${commands.length}件のコマンドを処理します:`, commands);
-    
-    // 各コマンドを処理
-    for (const cmd of commands) {
-      await processCommand(cmd);
+  // サーバー側のコメント取得状態を取得する
+  const loadIngestionStatus = useCallback(async () => {
+    const status = await youtubeService.getIngestionStatus();
+    if (!status.error) {
+      setVideoId(status.videoId || "");
+      setVideoIdSource(status.videoIdSource || null);
+      setChannelId(status.channelId || null);
+      setBroadcast(status.broadcast || null);
+      setIngestionError(status.worker?.lastError || null);
     }
+    setIsVideoIdLoaded(true);
   }, []);
 
-  // YouTubeコメント取得とコマンド処理フック
-  const { 
-    isProcessingCommand, 
-    error: ytError, 
-    startPolling, 
-    stopPolling, 
-    isInitialized 
-  } = useYouTubeComments({
-    enabled: isMounted && !!videoId,
-    onCommandsDetected: handleCommands,
-    videoId,
-    onError: (error) => {
-      console.error('[Page] YouTube error:', error);
-      
-      // 重要なエラーはトーストで通知
-      if (error.includes('ライブチャットID') || error.includes('動画ID')) {
-        toast({
-          title: 'YouTubeエラー',
-          description: error,
-          variant: 'destructive',
-        });
-      }
-    }
-  });
-
-  // 個々のコマンドを処理する関数
-  const processCommand = async (command: Command) => {
-    // 既に処理中のコマンドかチェック（二重実行防止）
-    if (processingCommandsRef.current.has(command.commentId)) {
-      console.log(`コマンドID ${command.commentId} は既に処理中のためスキップします`);
-      return;
-    }
-    
-    // 処理中としてマーク
-    processingCommandsRef.current.add(command.commentId);
-    
-    try {
-      console.log(`コマンド処理: ${command.command} by ${command.authorName}`);
-      
-      // プロフィール画像URLがあるかログ出力
-      if (command.profileImageUrl) {
-        console.log(`[Page] Command has profile image URL: ${command.profileImageUrl}`);
-      } else {
-        console.log(`[Page] Command has no profile image URL`);
-      }
-      
-      // コマンド実行APIをコール（サービスクラス経由）
-      const result = await youtubeService.executeCommand({
-        command: command.command,
-        username: command.authorName,
-        authorId: command.authorId,
-        videoId: command.commentId.split('_')[0], // コメントIDからビデオID部分を抽出
-        taskName: command.taskName,
-        profileImageUrl: command.profileImageUrl // プロフィール画像URLを追加
-      });
-      
-      if (result.success) {
-        console.log(`コマンド ${command.command} の処理成功:`, result);
-        
-        // デバッグ: データベース更新の確認
-        try {
-          console.log(`[Page] Checking database for updates after command ${command.command}...`);
-          const dbCheckResponse = await fetch('/api/debug/check-db?command=' + command.command + 
-            '&username=' + encodeURIComponent(command.authorName) + 
-            (command.profileImageUrl ? '&profileImageUrl=' + encodeURIComponent(command.profileImageUrl) : ''));
-          
-          if (dbCheckResponse.ok) {
-            const dbCheckResult = await dbCheckResponse.json();
-            console.log(`[Page] Database check result:`, dbCheckResult);
-          }
-        } catch (checkError) {
-          console.warn(`[Page] Error checking database:`, checkError);
-        }
-        
-        // 成功時に通知表示
-        if (command.command === 'work') {
-          handleSystemMessage({
-            id: `work-${command.commentId}`,
-            message: `${command.authorName} が入室しました (タスク: ${command.taskName || '未設定'})`,
-            type: 'info',
-            timestamp: new Date().toISOString(),
-          });
-        } else if (command.command === 'finish') {
-          handleSystemMessage({
-            id: `finish-${command.commentId}`,
-            message: `${command.authorName} が退室しました`,
-            type: 'info',
-            timestamp: new Date().toISOString(),
-          });
-        }
-      } else {
-        console.error(`コマンド ${command.command} の処理に失敗:`, result.error);
-        toast({
-          title: 'コマンド処理エラー',
-          description: result.error || '不明なエラーが発生しました',
-          variant: 'destructive',
-        });
-      }
-    } catch (error) {
-      console.error('コマンド処理中にエラーが発生:', error);
+  // 動画IDの変更をサーバーに保存する（すべてのインスタンスのワーカーが参照する）
+  // null の場合は設定を解除し、チャンネルから検出した放送に戻す
+  const handleVideoIdChange = useCallback(async (newVideoId: string | null) => {
+    const result = await youtubeService.setVideoId(newVideoId);
+    if (!result.success) {
       toast({
-        title: 'コマンド処理エラー',
-        description: (error as Error).message || 'サーバーとの通信中にエラーが発生しました',
+        title: '動画IDの設定に失敗しました',
+        description: result.error || '不明なエラーが発生しました',
         variant: 'destructive',
       });
-    } finally {
-      // 処理が完了したらセットから削除（一定時間後）
-      setTimeout(() => {
-        processingCommandsRef.current.delete(command.commentId);
-      }, 10000); // 10秒後に削除
+      return;
     }
-  };
+    setIngestionError(null);
+    if (newVideoId) {
+      setVideoId(newVideoId);
+      setVideoIdSource('manual');
+    } else {
+      await loadIngestionStatus();
+    }
+  }, [loadIngestionStatus]);
 
   // isLoading状態の計算 - 修正：部屋データが存在する場合はロード中とみなさない
   const isLoading = (connectionState === 'connecting' || connectionState === 'reconnecting') && rooms.length === 0;
@@ -252,6 +184,14 @@ export default function Home() {
     setIsMounted(true);
   }, []);
 
+  // コメント取得状態を定期的に確認する
+  useEffect(() => {
+    if (!isMounted) return;
+    loadIngestionStatus();
+    const intervalId = setInterval(loadIngestionStatus, INGESTION_STATUS_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isMounted, loadIngestionStatus]);
+
   // ★ SSE接続用の useEffect (isMounted で制御)
   useEffect(() => {
     if (isMounted) {
@@ -277,9 +217,6 @@ export default function Home() {
     }
   }, [isMounted]); // isMounted のみに依存
 
-  // フォーカスルームとチャットルームを分離
-  const chatRooms = rooms.filter(room => room.type === 'chat' || !room.type);
-
   // 接続状態に応じたメッセージを表示
   const renderConnectionStatus = () => {
     // YouTube動画IDが設定されていない場合は表示しない
@@ -379,33 +316,25 @@ export default function Home() {
         <div className="flex items-center gap-2 p-4 bg-gray-100 rounded-lg text-sm text-gray-700">
           <AlertCircle className="w-4 h-4 text-blue-500" />
           <p>
-            ヘッダーの入力欄にYouTube動画IDを入力し「設定」ボタンをクリックしてください。
+            {channelId
+              ? "チャンネルの配信が始まると自動的に接続します。別の配信に接続する場合は、ヘッダーの入力欄に動画IDを入力してください。"
+              : "ヘッダーの入力欄にYouTube動画IDを入力し「設定」ボタンをクリックしてください。"}
           </p>
         </div>
       </div>
     );
   };
 
-  // YouTubeエラー表示
+  // YouTubeコメント取得エラー表示（サーバー側のワーカーが自動的に再試行する）
   const renderYouTubeError = () => {
-    if (!ytError || !videoId) return null;
+    if (!ingestionError || !videoId) return null;
     
     return (
       <Alert variant="destructive" className="mb-4 bg-red-50/70 backdrop-blur-sm border-red-200/50">
         <AlertCircle className="h-4 w-4" />
         <AlertTitle>YouTubeコメント取得エラー</AlertTitle>
         <AlertDescription>
-          {ytError}
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="ml-2 mt-2" 
-            onClick={() => {
-              startPolling();
-            }}
-          >
-            再接続する
-          </Button>
+          {ingestionError}
         </AlertDescription>
       </Alert>
     );
@@ -422,7 +351,16 @@ export default function Home() {
       </div>
       
       {/* ヘッダー */}
-      <Header videoId={videoId} onVideoIdChange={setVideoId} />
+      <Header
+        videoId={videoId}
+        onVideoIdChange={handleVideoIdChange}
+        broadcast={broadcast}
+        channelId={channelId}
+        videoIdSource={videoIdSource}
+      />
+
+      {/* 応援イベントの演出 */}
+      <SupportCelebration celebration={celebrations[0] || null} onDone={handleCelebrationDone} />
 
       {/* メインコンテンツ - z-indexを追加して動画の上に表示 */}
       <div className="container mx-auto px-4 py-4 relative z-10 pt-16 pt-20">
@@ -453,12 +391,6 @@ export default function Home() {
                 <h2 className="font-medium text-lg mb-2">現在の参加者</h2>
                 <div className="flex items-center gap-2 text-muted-foreground">
                   <span>オンライン: {rooms.flatMap(room => room.seats?.filter(seat => seat.username) || []).length} 人</span>
-                  {isProcessingCommand && (
-                    <span className="flex items-center text-sm text-blue-500">
-                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                      コマンド処理中...
-                    </span>
-                  )}
                 </div>
 
                 {/* プロフィール画像を表示するエリア */}
@@ -492,44 +424,48 @@ export default function Home() {
               </div>
             </Card>
             
-            <div className="mb-4">
-              {(() => {
-                // ローディング中または初期化されていない場合
-                if (isLoading || !isInitialized) {
-                  return (
-                    <div className="bg-[#f2f2f2]/95 rounded-lg p-8 text-center text-gray-600">
-                      <Loader2 className="h-8 w-8 mx-auto mb-4 animate-spin text-gray-400" />
-                      座席情報を読み込み中...
-                    </div>
-                  );
-                }
+            <div className="mb-4 flex flex-col lg:flex-row gap-4 items-start">
+              <div className="flex-1 min-w-0 w-full">
+                {(() => {
+                  // ローディング中または動画IDの読み込み前の場合
+                  if (isLoading || !isVideoIdLoaded) {
+                    return (
+                      <div className="bg-[#f2f2f2]/95 rounded-lg p-8 text-center text-gray-600">
+                        <Loader2 className="h-8 w-8 mx-auto mb-4 animate-spin text-gray-400" />
+                        座席情報を読み込み中...
+                      </div>
+                    );
+                  }
                 
-                // フォーカスルーム情報があれば表示
-                if (rooms.length > 0) {
-                  const focusSeatsData = rooms.flatMap(room => room.seats || []);
-                  return (
-                    <FocusRoom
-                      seats={focusSeatsData}
-                      roomId="focus-room"
-                    />
-                  );
-                } else {
-                  // ルーム情報がない場合
-                  return (
-                    <div className="bg-[#f2f2f2]/95 rounded-lg p-8 text-center text-gray-600">
-                      座席情報が見つかりません。しばらく待つか、YouTube動画IDを確認してください。
-                    </div>
-                  );
-                }
-              })()}
-            </div>
+                  // 設定されているすべての部屋を表示
+                  if (rooms.length > 0) {
+                    return rooms.map(room => (
+                      <FocusRoom
+                        key={room.id}
+                        seats={room.seats || []}
+                        queue={room.queue || []}
+                        roomId={room.id}
+                        name={room.name}
+                        type={room.type}
+                        capacity={room.capacity}
+                        closed={room.closed}
+                      />
+                    ));
+                  } else {
+                    // ルーム情報がない場合
+                    return (
+                      <div className="bg-[#f2f2f2]/95 rounded-lg p-8 text-center text-gray-600">
+                        座席情報が見つかりません。しばらく待つか、YouTube動画IDを確認してください。
+                      </div>
+                    );
+                  }
+                })()}
+              </div>
 
-            {/* チャットルーム（非表示） */}
-            <div className="hidden">
-              {chatRooms.map(room => (
-                <Room key={room.id} room={room} />
-              ))}
+              {/* 作業時間のランキング */}
+              <Leaderboard leaderboard={leaderboard} className="w-full lg:w-80 shrink-0" />
             </div>
+
           </>
         )}
       </div>
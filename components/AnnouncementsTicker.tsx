@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from 'react';
-import { AlertTriangle, Info } from 'lucide-react';
+import { AlertTriangle, Info, Pin } from 'lucide-react';
 import useSWR from 'swr'; // データ取得にSWRを使用 (なければインストール必要: npm install swr)
 import { formatDistanceToNow } from 'date-fns'; // 日付表示用 (なければインストール: npm install date-fns)
 import { ja } from 'date-fns/locale'; // 日本語ロケール
@@ -12,6 +12,7 @@ interface Announcement {
   message: string;
   authorName?: string;
   profileImageUrl?: string;
+  pinned?: boolean; // /pin で固定表示されたお知らせ
   createdAt: string; // APIからは文字列で来る想定
   publishedAt: string; // APIからは文字列で来る想定
 }
@@ -24,10 +25,12 @@ export default function AnnouncementsTicker() {
     refreshInterval: 10000 // 60秒ごとに再取得 (適宜調整)
   });
   const [currentIndex, setCurrentIndex] = useState(0);
+  // 固定表示のお知らせがある場合は切り替えずにそれを表示し続ける
+  const pinnedAnnouncement = Array.isArray(announcements) ? announcements.find(a => a.pinned) : undefined;
 
   // 5秒ごとにお知らせを切り替え
   useEffect(() => {
-    if (!announcements || announcements.length === 0) return;
+    if (!announcements || announcements.length === 0 || pinnedAnnouncement) return;
 
     const intervalId = setInterval(() => {
       setCurrentIndex((prevIndex) => {
@@ -42,7 +45,7 @@ export default function AnnouncementsTicker() {
     }, 5000); // 切り替え間隔（ミリ秒）
 
     return () => clearInterval(intervalId);
-  }, [announcements]);
+  }, [announcements, pinnedAnnouncement]);
   console.log("currentIndex",currentIndex);
   if (error) {
     console.error("Error fetching announcements:", error);
@@ -75,7 +78,7 @@ export default function AnnouncementsTicker() {
     );
   }
 
-  const currentAnnouncement = announcements[currentIndex];
+  const currentAnnouncement = pinnedAnnouncement || announcements[currentIndex];
 
   // フォールバック表示を半透明に変更
   if (!currentAnnouncement) {
@@ -102,7 +105,9 @@ export default function AnnouncementsTicker() {
   return (
     // メインのお知らせ表示を半透明に変更
     <div className="bg-yellow-50/70 backdrop-blur-sm border-l-4 border-yellow-400/70 text-yellow-800 p-3 text-sm flex items-center space-x-2 h-10 overflow-hidden rounded-md shadow-sm">
-      <Info className="h-5 w-5 flex-shrink-0 text-yellow-500" />
+      {currentAnnouncement.pinned
+        ? <Pin className="h-5 w-5 flex-shrink-0 text-yellow-600" />
+        : <Info className="h-5 w-5 flex-shrink-0 text-yellow-500" />}
       {currentAnnouncement.profileImageUrl && (
           <img src={currentAnnouncement.profileImageUrl} alt={currentAnnouncement.authorName || '運営者'} className="h-6 w-6 rounded-full flex-shrink-0" />
       )}
@@ -1,7 +1,15 @@
 import { useEffect, useState, useRef } from "react";
 import { Badge } from "@/components/ui/badge";
-import { VolumeX } from "lucide-react";
+import { VolumeX, MessageCircle, Languages, Hourglass } from "lucide-react";
 import UserCard from "@/components/UserCard";
+import type { RoomType } from "@/lib/types";
+
+// 部屋の種類ごとの表示設定
+const ROOM_TYPE_STYLES = {
+  silent: { label: "会話不可", badgeClass: "bg-red-500", icon: VolumeX, iconClass: "text-red-500" },
+  chatty: { label: "会話可", badgeClass: "bg-green-500", icon: MessageCircle, iconClass: "text-green-500" },
+  "english-only": { label: "English only", badgeClass: "bg-blue-500", icon: Languages, iconClass: "text-blue-500" }
+};
 
 interface Seat {
   id: string;
@@ -10,16 +18,34 @@ interface Seat {
   enterTime?: Date | string | null;
   autoExitScheduled?: Date | string | null;
   profileImageUrl?: string | null;
+  breakStartedAt?: Date | string | null;
+  completedTaskCount?: number;
+  badges?: string[];
+  achievements?: { badge: string; name: string }[];
   timestamp: Date | string;
 }
 
+interface QueueEntry {
+  id: string;
+  username: string;
+  queuedAt: Date | string;
+}
+
 interface FocusRoomProps {
   seats: Seat[];
+  queue?: QueueEntry[];
   roomId: string;
+  name?: string;
+  type?: RoomType;
+  capacity?: number | null;
+  closed?: boolean;
   className?: string;
 }
 
-export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomProps) {
+export default function FocusRoom({ seats, queue = [], roomId, name = 'フォーカスルーム', type = 'silent', capacity, closed = false, className = '' }: FocusRoomProps) {
+  const typeStyle = ROOM_TYPE_STYLES[type] || ROOM_TYPE_STYLES.silent;
+  const TypeIcon = typeStyle.icon;
+
   // デバッグ: 受け取った座席データをログに出力
   console.log(`[FocusRoom] Received ${seats.length} seats for room ${roomId}`);
   
@@ -42,6 +68,7 @@ export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomPr
   const USERS_PER_PAGE = 8; // 2x4グリッドの場合
   const activeSeats = seats.filter(seat => seat.username !== null);
   const TOTAL_USER_PAGES = Math.ceil(activeSeats.length / USERS_PER_PAGE) || 1;
+  const onBreakCount = activeSeats.filter(seat => seat.breakStartedAt).length;
   
   useEffect(() => {
     // 5秒ごとに自動でページを切り替え
@@ -90,12 +117,18 @@ export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomPr
     <div className={`bg-[#f2f2f2]/70 backdrop-blur-sm rounded-lg shadow-md overflow-hidden mb-4 ${className}`}>
       <div className="p-4 flex justify-between items-center border-b border-gray-200/70">
         <div className="flex items-center gap-2">
-          <VolumeX className="h-5 w-5 text-red-500" />
-          <h3 className="text-lg font-medium">フォーカスルーム</h3>
+          <TypeIcon className={`h-5 w-5 ${typeStyle.iconClass}`} />
+          <h3 className="text-lg font-medium">{name}</h3>
         </div>
         <div className="flex items-center gap-2">
-          <Badge className="bg-red-500 text-white text-xs px-2 py-0.5">会話不可</Badge>
-          <Badge variant="outline" className="bg-white/70 text-gray-600 border-gray-300/70">{activeSeats.length}人</Badge>
+          <Badge className={`${typeStyle.badgeClass} text-white text-xs px-2 py-0.5`}>{typeStyle.label}</Badge>
+          {closed && (
+            <Badge className="bg-gray-600 text-white text-xs px-2 py-0.5">受付停止中</Badge>
+          )}
+          {onBreakCount > 0 && (
+            <Badge variant="outline" className="bg-white/70 text-gray-500 border-gray-300/70">休憩中 {onBreakCount}人</Badge>
+          )}
+          <Badge variant="outline" className="bg-white/70 text-gray-600 border-gray-300/70">{activeSeats.length}{capacity ? `/${capacity}` : ''}人</Badge>
         </div>
       </div>
 
@@ -119,7 +152,11 @@ export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomPr
                       name: seat.username || '',
                       task: seat.task,
                       enterTime: seat.enterTime,
-                      profileImageUrl: seat.profileImageUrl
+                      profileImageUrl: seat.profileImageUrl,
+                      breakStartedAt: seat.breakStartedAt,
+                      completedTaskCount: seat.completedTaskCount,
+                      badges: seat.badges,
+                      achievements: seat.achievements
                     }} 
                   />
                 ))
@@ -131,7 +168,11 @@ export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomPr
                       name: seat.username || '',
                       task: seat.task,
                       enterTime: seat.enterTime,
-                      profileImageUrl: seat.profileImageUrl
+                      profileImageUrl: seat.profileImageUrl,
+                      breakStartedAt: seat.breakStartedAt,
+                      completedTaskCount: seat.completedTaskCount,
+                      badges: seat.badges,
+                      achievements: seat.achievements
                     }} 
                   />
                 ))
@@ -140,6 +181,16 @@ export default function FocusRoom({ seats, roomId, className = '' }: FocusRoomPr
         </div>
       </div>
 
+      {queue.length > 0 && (
+        <div className="px-4 py-2 border-t border-gray-200/70 flex items-center gap-2 text-sm text-gray-600">
+          <Hourglass className="h-4 w-4 text-amber-500 shrink-0" />
+          <span className="font-medium shrink-0">待機中 {queue.length}人:</span>
+          <span className="truncate">
+            {queue.map((entry, index) => `${index + 1}. ${entry.username}`).join('  ')}
+          </span>
+        </div>
+      )}
+
       <div className="px-4 py-2 bg-gray-100/70 border-t border-gray-200/70 flex justify-center">
         <div className="flex gap-2">
           {Array.from({ length: TOTAL_USER_PAGES }).map((_, index) => (
@@ -3,10 +3,11 @@
 import { useEffect, useState } from "react";
 import { format } from "date-fns";
 import { ja } from "date-fns/locale";
-import { Clock } from "lucide-react";
+import { Clock, Radio } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { usePomodoro } from "@/hooks/use-pomodoro";
 import Image from "next/image";
+import type { DetectedBroadcastResponse, IngestionStatusResponse } from "@/lib/api/services/youtubeService";
 
 // ヘッダー用に簡略化したタイマー情報
 const POMODORO_MODES = {
@@ -91,7 +92,15 @@ const determineTimeModeFromCurrentTime = (now: Date): {mode: string, timeLeft: n
   return { mode: "WORK", timeLeft: timeLeftSec };
 };
 
-export default function Header({ videoId, onVideoIdChange }: { videoId: string; onVideoIdChange: (id: string) => void }) {
+interface HeaderProps {
+  videoId: string;
+  onVideoIdChange: (id: string | null) => void;
+  broadcast?: DetectedBroadcastResponse | null; // チャンネルから自動で検出した放送
+  channelId?: string | null; // 配信を自動で検出するチャンネル（未設定なら動画IDの入力のみ）
+  videoIdSource?: IngestionStatusResponse['videoIdSource'];
+}
+
+export default function Header({ videoId, onVideoIdChange, broadcast, channelId, videoIdSource }: HeaderProps) {
   const [mounted, setMounted] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [inputVideoId, setInputVideoId] = useState(videoId || "");
@@ -188,6 +197,26 @@ export default function Header({ videoId, onVideoIdChange }: { videoId: string;
         </div>
         
         <div className="flex items-center gap-4">
+          {/* チャンネルから検出した配信のタイトルと状態 */}
+          {channelId && (
+            <div className="hidden lg:flex items-center gap-2 min-w-0 max-w-xs">
+              {broadcast ? (
+                <>
+                  <Badge
+                    variant="outline"
+                    className={`${broadcast.status === "live" ? "bg-red-600" : "bg-gray-500"} text-white flex-shrink-0`}
+                  >
+                    <Radio className="h-3 w-3 mr-1" />
+                    {broadcast.status === "live" ? "LIVE" : "配信予定"}
+                  </Badge>
+                  <span className="text-sm font-medium truncate" title={broadcast.title}>{broadcast.title}</span>
+                </>
+              ) : (
+                <span className="text-xs text-muted-foreground">配信の開始を待っています</span>
+              )}
+            </div>
+          )}
+
           {/* YouTube動画ID入力欄 */}
           <form
             onSubmit={e => {
@@ -200,7 +229,7 @@ export default function Header({ videoId, onVideoIdChange }: { videoId: string;
               type="text"
               value={inputVideoId}
               onChange={e => setInputVideoId(e.target.value)}
-              placeholder="YouTube動画ID"
+              placeholder={channelId ? "YouTube動画ID（自動検出）" : "YouTube動画ID"}
               className="border border-gray-300 rounded px-2 py-1 text-sm w-48 focus:outline-none focus:ring-2 focus:ring-blue-400 bg-white shadow-md pointer-events-auto"
               disabled={isSubmitting} // 送信中は入力を無効化
             />
@@ -211,6 +240,17 @@ export default function Header({ videoId, onVideoIdChange }: { videoId: string;
             >
               {isSubmitting ? "設定中..." : "設定"}
             </button>
+            {/* 手動で設定した動画IDを解除して、チャンネルからの自動検出に戻す */}
+            {channelId && videoIdSource === "manual" && (
+              <button
+                type="button"
+                onClick={() => onVideoIdChange(null)}
+                className="bg-white text-gray-700 border border-gray-300 px-3 py-1 rounded hover:bg-gray-100 text-sm shadow-md pointer-events-auto disabled:opacity-50"
+                disabled={isSubmitting}
+              >
+                自動
+              </button>
+            )}
           </form>
           
           {/* ポモドーロタイマー情報 */}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Trophy, User } from "lucide-react";
+import type { LeaderboardData } from "@/lib/api/sse/sseTypes";
+
+type LeaderboardPeriod = keyof LeaderboardData["periods"];
+
+// 表示する期間の順番と見出し
+const PERIODS: { key: LeaderboardPeriod; label: string }[] = [
+  { key: "today", label: "今日" },
+  { key: "week", label: "今週" },
+  { key: "month", label: "今月" }
+];
+
+// 期間を切り替える間隔（ミリ秒）
+const ROTATION_INTERVAL_MS = 8000;
+
+// 上位3位の順位の色
+const RANK_STYLES: Record<number, string> = {
+  1: "bg-amber-400 text-white",
+  2: "bg-gray-400 text-white",
+  3: "bg-orange-400 text-white"
+};
+
+interface LeaderboardProps {
+  leaderboard: LeaderboardData | null;
+  className?: string;
+}
+
+/**
+ * 作業時間をフォーマットする（例: "1時間5分"）
+ * @param milliseconds 作業時間（ミリ秒）
+ * @returns フォーマットされた時間文字列
+ */
+function formatWorkTime(milliseconds: number): string {
+  const minutes = Math.floor(milliseconds / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) {
+    return `${hours}時間${minutes % 60 > 0 ? `${minutes % 60}分` : ''}`;
+  }
+  return `${minutes}分`;
+}
+
+/**
+ * 作業時間のランキング（今日・今週・今月を順番に切り替えて表示する）
+ * SSEで送られたランキングを表示する
+ */
+export default function Leaderboard({ leaderboard, className = '' }: LeaderboardProps) {
+  const [periodIndex, setPeriodIndex] = useState(0);
+
+  // 一定間隔で期間を切り替える
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      setPeriodIndex(prev => (prev + 1) % PERIODS.length);
+    }, ROTATION_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const period = PERIODS[periodIndex];
+  const entries = leaderboard?.periods[period.key]?.entries || [];
+
+  return (
+    <div className={`bg-[#f2f2f2]/70 backdrop-blur-sm rounded-lg shadow-md overflow-hidden ${className}`}>
+      <div className="p-4 flex justify-between items-center border-b border-gray-200/70">
+        <div className="flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-amber-500" />
+          <h3 className="text-lg font-medium">{period.label}のランキング</h3>
+        </div>
+        <div className="flex gap-1">
+          {PERIODS.map((item, index) => (
+            <div
+              key={item.key}
+              className={`w-2 h-2 rounded-full ${periodIndex === index ? "bg-amber-500" : "bg-gray-300"}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">まだ作業した人がいません</p>
+        ) : (
+          <ol className="space-y-2">
+            {entries.map(entry => (
+              <li key={`${period.key}-${entry.authorId || entry.username}`} className="flex items-center gap-3">
+                <span className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${RANK_STYLES[entry.rank] || "bg-white/70 text-gray-600"}`}>
+                  {entry.rank}
+                </span>
+                {entry.profileImageUrl ? (
+                  <img src={entry.profileImageUrl} alt={entry.username} className="w-8 h-8 rounded-full object-cover shrink-0" />
+                ) : (
+                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center shrink-0">
+                    <User className="h-4 w-4 text-gray-500" />
+                  </div>
+                )}
+                <span className="flex-1 min-w-0 truncate text-sm font-medium">{entry.username}</span>
+                <span className="text-sm text-gray-600 shrink-0">{formatWorkTime(entry.workMs)}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Users } from "lucide-react";
 import Seat from "./Seat";
+import type { RoomType } from "@/lib/types";
 
 interface Seat {
   id: string;
@@ -15,8 +16,9 @@ interface Seat {
 interface RoomProps {
   room: {
     id: string;
+    name?: string;
     seats: Seat[];
-    type?: 'focus' | 'chat';
+    type?: RoomType;
   };
 }
 
@@ -25,7 +27,7 @@ export default function Room({ room }: RoomProps) {
     <div>
       <div className="flex items-center gap-2 mb-4">
         <Users className="h-5 w-5" />
-        <h2 className="text-xl font-semibold">Room {room.id}</h2>
+        <h2 className="text-xl font-semibold">{room.name || `Room ${room.id}`}</h2>
       </div>
       
       <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import Image from "next/image";
+import { Crown, Heart, Sparkles, Sticker } from "lucide-react";
+import type { CelebrationEvent } from "@/lib/api/sse/sseTypes";
+
+// 1件の応援イベントを表示する時間
+const CELEBRATION_DISPLAY_MS = 6000;
+
+// 応援イベントの種類ごとの表示設定
+const CELEBRATION_STYLES = {
+  superChat: { icon: Sparkles, className: "from-amber-400 to-orange-500" },
+  superSticker: { icon: Sticker, className: "from-pink-400 to-rose-500" },
+  newMember: { icon: Heart, className: "from-emerald-400 to-green-600" },
+  memberMilestone: { icon: Crown, className: "from-violet-400 to-purple-600" }
+};
+
+interface SupportCelebrationProps {
+  celebration: CelebrationEvent | null;
+  onDone: () => void;
+}
+
+/**
+ * Super Chat・メンバー加入などの応援イベントを画面上部に一定時間表示する
+ * 複数のイベントは呼び出し側で順番に渡す
+ */
+export default function SupportCelebration({ celebration, onDone }: SupportCelebrationProps) {
+  useEffect(() => {
+    if (!celebration) return;
+    const timeoutId = setTimeout(onDone, CELEBRATION_DISPLAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [celebration, onDone]);
+
+  if (!celebration) return null;
+
+  const style = CELEBRATION_STYLES[celebration.type] || CELEBRATION_STYLES.superChat;
+  const Icon = style.icon;
+  const validProfileUrl = celebration.profileImageUrl && celebration.profileImageUrl.startsWith('http');
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-50 w-full max-w-md px-4 pointer-events-none">
+      <div className={`bg-gradient-to-r ${style.className} text-white rounded-xl shadow-2xl p-4 flex items-center gap-3 animate-in fade-in zoom-in duration-500`}>
+        {validProfileUrl ? (
+          <div className="w-12 h-12 rounded-full overflow-hidden flex-shrink-0 border-2 border-white/80">
+            <Image
+              src={celebration.profileImageUrl as string}
+              alt={celebration.authorName}
+              width={48}
+              height={48}
+              className="w-full h-full object-cover"
+              unoptimized
+            />
+          </div>
+        ) : (
+          <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center flex-shrink-0">
+            <Icon className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex flex-col min-w-0">
+          <span className="text-xs font-semibold flex items-center gap-1 opacity-90">
+            <Icon className="h-3 w-3" />
+            {celebration.label}
+          </span>
+          <span className="font-bold text-lg truncate">{celebration.authorName}さん、ありがとうございます！</span>
+          {(celebration.userComment || celebration.stickerAltText) && (
+            <span className="text-sm opacity-90 line-clamp-2">
+              {celebration.userComment || celebration.stickerAltText}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import Image from "next/image";
 import { calculateElapsedTime, getElapsedTimeStyle } from "@/lib/client-utils";
 import { useState, useEffect } from "react";
 import AutoExitStatus from "./AutoExitStatus";
-import { User } from "lucide-react";
+import { User, Coffee, CheckCircle2 } from "lucide-react";
 
 interface UserCardProps {
   user: {
@@ -13,6 +13,10 @@ interface UserCardProps {
     autoExitScheduled?: Date | string | null;
     enterTime?: Date | string | null;
     profileImageUrl?: string | null;
+    breakStartedAt?: Date | string | null;
+    completedTaskCount?: number;
+    badges?: string[];
+    achievements?: { badge: string; name: string }[];
   };
   roomId?: string;
   position?: number;
@@ -27,6 +31,8 @@ export default function UserCard({ user, roomId, position }: UserCardProps) {
   const [displayTime, setDisplayTime] = useState<string>("0分");
   const [timeStyle, setTimeStyle] = useState<string>("text-blue-400");
   const [imageError, setImageError] = useState(false);
+  const [breakTime, setBreakTime] = useState<string>("0分");
+  const isOnBreak = Boolean(user.breakStartedAt);
   
   useEffect(() => {
     setMounted(true);
@@ -48,6 +54,10 @@ export default function UserCard({ user, roomId, position }: UserCardProps) {
         setDisplayTime(elapsedTime || "0分");
         setTimeStyle(style || "text-blue-400");
       }
+      // 休憩中は休憩開始からの経過時間も更新
+      if (user.breakStartedAt) {
+        setBreakTime(calculateElapsedTime(user.breakStartedAt) || "0分");
+      }
     };
     
     // 初回計算
@@ -58,7 +68,7 @@ export default function UserCard({ user, roomId, position }: UserCardProps) {
     
     // コンポーネントのアンマウント時にタイマーをクリア
     return () => clearInterval(intervalId);
-  }, [user.enterTime, user.profileImageUrl, user.name]); // profileImageUrlが変更されたときもリセット
+  }, [user.enterTime, user.breakStartedAt, user.profileImageUrl, user.name]); // profileImageUrlが変更されたときもリセット
   
   // プロフィール画像URLが有効かチェック (必ずhttpで始まるURLであることを確認)
   const validProfileUrl = user.profileImageUrl && 
@@ -74,7 +84,7 @@ export default function UserCard({ user, roomId, position }: UserCardProps) {
   };
   
   return (
-    <div className="bg-white/80 backdrop-blur-sm rounded-lg p-3 flex flex-col shadow-sm border border-white/30">
+    <div className={`bg-white/80 backdrop-blur-sm rounded-lg p-3 flex flex-col shadow-sm border border-white/30 ${isOnBreak ? "opacity-60 grayscale" : ""}`}>
       <div className="flex items-center gap-2 mb-1">
         {hasValidProfileImage ? (
           <div className="w-8 h-8 rounded-full overflow-hidden flex-shrink-0 bg-gray-100">
@@ -94,18 +104,52 @@ export default function UserCard({ user, roomId, position }: UserCardProps) {
           </div>
         )}
         <div className="flex flex-col flex-grow min-w-0">
-          <h4 className="font-medium text-gray-800 truncate">{user.name}</h4>
-          <span className={`text-xs font-semibold ${mounted ? timeStyle : "text-blue-400"}`}>
-            経過: {displayTime}
-          </span>
+          <div className="flex items-center gap-1 min-w-0">
+            <h4 className="font-medium text-gray-800 truncate">{user.name}</h4>
+            {/* Super Chat・メンバー加入で付与されたバッジ */}
+            {user.badges?.map(badge => (
+              <span
+                key={badge}
+                className="text-[10px] font-semibold text-amber-800 bg-amber-100 border border-amber-300 rounded-full px-1.5 flex-shrink-0"
+              >
+                {badge}
+              </span>
+            ))}
+            {/* 達成した実績のバッジ */}
+            {user.achievements?.map(achievement => (
+              <span key={achievement.name} title={achievement.name} className="text-xs flex-shrink-0">
+                {achievement.badge}
+              </span>
+            ))}
+          </div>
+          {isOnBreak ? (
+            <span className="text-xs font-semibold text-gray-500 flex items-center gap-1">
+              <Coffee className="h-3 w-3" />
+              休憩中: {mounted ? breakTime : "0分"}
+            </span>
+          ) : (
+            <span className={`text-xs font-semibold ${mounted ? timeStyle : "text-blue-400"}`}>
+              経過: {displayTime}
+            </span>
+          )}
         </div>
       </div>
       
       <div className="flex justify-between items-center mt-1 pl-10">
-        <p className="text-xs text-gray-600 truncate">{user.task || '作業中'}</p>
+        <div className="flex items-center gap-1 min-w-0">
+          <p className="text-xs text-gray-600 truncate">{user.task || '作業中'}</p>
+          {/* この滞在で完了したタスクの数 */}
+          {!!user.completedTaskCount && (
+            <span className="text-xs font-semibold text-green-600 flex items-center gap-0.5 flex-shrink-0">
+              <CheckCircle2 className="h-3 w-3" />
+              {user.completedTaskCount}
+            </span>
+          )}
+        </div>
         
         {/* 自動退室時間が設定されている場合、コンパクトモードで表示 */}
-        {user.autoExitScheduled && (
+        {/* 休憩中は自動退室のカウントダウンが止まっているため表示しない */}
+        {user.autoExitScheduled && !isOnBreak && (
           <AutoExitStatus 
             scheduledTime={typeof user.autoExitScheduled === 'string' 
               ? user.autoExitScheduled 
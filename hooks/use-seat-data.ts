@@ -1,21 +1,38 @@
 import { useState, useCallback } from 'react';
 import { useSSE, SSEConnectionState } from './use-sse';
 import { toast } from './use-toast';
+import type { RoomType } from '@/lib/types';
 
 export interface Seat {
   id: string;
+  position?: number;
   username: string | null;
   task?: string | null;
   enterTime?: Date | string | null;
   autoExitScheduled?: Date | string | null;
   profileImageUrl?: string | null;
+  breakStartedAt?: Date | string | null;
+  totalBreakMs?: number;
+  completedTaskCount?: number;
+  badges?: string[];
+  achievements?: { badge: string; name: string }[];
   timestamp: Date | string;
 }
 
+export interface QueueEntry {
+  id: string;
+  username: string;
+  queuedAt: Date | string;
+}
+
 export interface RoomData {
   id: string;
+  name?: string;
   seats: Seat[];
-  type?: 'focus' | 'chat';
+  type?: RoomType;
+  capacity?: number | null;
+  closed?: boolean;
+  queue?: QueueEntry[];
 }
 
 interface SSEData {
@@ -129,6 +129,8 @@ export function useSSE<T = any>(options: SSEClientOptions): UseSSEResult<T> {
       ...optionsRef.current,
       onMessage: handleMessage,
       onSystemMessage: handleSystemMessage,
+      onCelebration: (celebration) => optionsRef.current.onCelebration?.(celebration),
+      onLeaderboard: (leaderboard) => optionsRef.current.onLeaderboard?.(leaderboard),
       onConnect: () => {
         updateConnectionState('connected');
         setRetryCount(0);
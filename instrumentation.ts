@@ -0,0 +1,12 @@
+/**
+ * Next.js サーバー起動時のフック
+ * Node.js ランタイムでのみチャットの取得元の設定を確認し、ライブチャット取得ワーカーを開始する
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertChatSourceConfigured } = await import('./lib/chatSource');
+    assertChatSourceConfigured();
+    const { startChatIngestionWorker } = await import('./lib/ingestion/worker');
+    startChatIngestionWorker();
+  }
+}
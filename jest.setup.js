@@ -51,4 +51,7 @@ jest.mock('next/navigation', () => ({
   usePathname() {
     return '';
   },
-})); 
\ No newline at end of file
+}));
+
+// Mock the MongoDB client so that importing lib modules does not connect to a database
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: new Promise(() => {}) }));
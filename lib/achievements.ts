@@ -0,0 +1,170 @@
+import { Db } from 'mongodb';
+import { enqueueChatMessage } from '@/lib/chatOutbox';
+import { getChatSource } from '@/lib/chatSource';
+import { messageTemplates } from '@/lib/messages';
+import type { SessionRecord } from '@/lib/sessions';
+import type { UserProfile } from '@/lib/users';
+import { getUserStudyStats } from '@/lib/userStats';
+
+/**
+ * 実績の判定に使う値
+ * - sessionCount: 退室した滞在の数
+ * - workHours: 累計作業時間（時間）
+ * - completedTaskCount: /done で完了したタスクの累計
+ * - streakDays: 連続作業日数（1日 STREAK_MIN_MINUTES 分以上作業した日が続いた日数）
+ */
+export type AchievementMetric = 'sessionCount' | 'workHours' | 'completedTaskCount' | 'streakDays';
+
+export const ACHIEVEMENT_METRICS: AchievementMetric[] = ['sessionCount', 'workHours', 'completedTaskCount', 'streakDays'];
+
+/**
+ * achievements コレクションに保存される実績の定義
+ * 運営者が /api/achievements から追加・変更できる
+ */
+export interface AchievementDefinition {
+  achievementId: string;
+  name: string;
+  badge: string; // 座席のカードに表示する絵文字など
+  description: string;
+  metric: AchievementMetric;
+  threshold: number; // metric がこの値以上になると達成
+  order: number; // 表示順
+  enabled?: boolean; // false の場合は新たに達成させない（達成済みのバッジは表示する）
+}
+
+/**
+ * ユーザーが達成した実績（users.achievements に保存する）
+ */
+export interface EarnedAchievement {
+  achievementId: string;
+  earnedAt: Date;
+}
+
+// achievements コレクションが空の場合に作成する実績
+const DEFAULT_ACHIEVEMENTS: AchievementDefinition[] = [
+  { achievementId: 'first-session', name: 'はじめての作業', badge: '🌱', description: '初めて作業を終えた', metric: 'sessionCount', threshold: 1, order: 0 },
+  { achievementId: 'work-10h', name: '累計10時間', badge: '📘', description: '累計作業時間が10時間に達した', metric: 'workHours', threshold: 10, order: 10 },
+  { achievementId: 'work-100h', name: '累計100時間', badge: '🏅', description: '累計作業時間が100時間に達した', metric: 'workHours', threshold: 100, order: 20 },
+  { achievementId: 'streak-30', name: '30日連続', badge: '🔥', description: '30日連続で作業した', metric: 'streakDays', threshold: 30, order: 30 }
+];
+
+/**
+ * 実績の定義の一覧を取得する（未設定の場合はデフォルトの実績を作成する）
+ * @param db MongoDB データベース接続
+ * @returns 表示順に並んだ実績の定義
+ */
+export async function getAchievementDefinitions(db: Db): Promise<AchievementDefinition[]> {
+  const achievementsCollection = db.collection<AchievementDefinition>('achievements');
+  const definitions = await achievementsCollection
+    .find({}, { projection: { _id: 0 } })
+    .sort({ order: 1 })
+    .toArray();
+  if (definitions.length > 0) {
+    return definitions;
+  }
+
+  console.log('[Achievements] 実績が設定されていないため、デフォルトの実績を作成します');
+  await Promise.all(DEFAULT_ACHIEVEMENTS.map(definition =>
+    achievementsCollection.updateOne({ achievementId: definition.achievementId }, { $setOnInsert: definition }, { upsert: true })
+  ));
+  return DEFAULT_ACHIEVEMENTS;
+}
+
+/**
+ * 達成した実績のバッジを表示順に取得する
+ * @param definitions 実績の定義
+ * @param earned ユーザーが達成した実績
+ * @returns 表示するバッジと実績名
+ */
+export function getAchievementBadges(
+  definitions: AchievementDefinition[],
+  earned: EarnedAchievement[] = []
+): { badge: string; name: string }[] {
+  const earnedIds = new Set(earned.map(achievement => achievement.achievementId));
+  return definitions
+    .filter(definition => earnedIds.has(definition.achievementId))
+    .map(definition => ({ badge: definition.badge, name: definition.name }));
+}
+
+/**
+ * 滞在を終えたユーザーの連続作業日数を更新し、新しく達成した実績を記録してお知らせする
+ * お知らせは画面（notifications）と、入室元の配信のチャットに送る（配信の終了による退室ではチャットに送らない）
+ * @param db MongoDB データベース接続
+ * @param session 退室した滞在の記録（ユーザーの累計に加算済み）
+ * @returns 新しく達成した実績
+ */
+export async function evaluateAchievements(db: Db, session: SessionRecord): Promise<AchievementDefinition[]> {
+  if (!session.authorId) return [];
+  const usersCollection = db.collection<UserProfile>('users');
+  const user = await usersCollection.findOne({ _id: session.authorId });
+  if (!user) return [];
+
+  const { streakDays } = await getUserStudyStats(db, { authorId: session.authorId }, session.exitTime);
+  await usersCollection.updateOne(
+    { _id: session.authorId },
+    { $set: { 'streak.currentDays': streakDays, 'streak.updatedAt': session.exitTime }, $max: { 'streak.longestDays': streakDays } }
+  );
+
+  const metrics: Record<AchievementMetric, number> = {
+    sessionCount: user.totals.sessionCount,
+    workHours: user.totals.workMs / (60 * 60 * 1000),
+    completedTaskCount: user.totals.completedTaskCount,
+    streakDays: Math.max(streakDays, user.streak?.longestDays || 0)
+  };
+
+  const earnedIds = new Set((user.achievements || []).map(achievement => achievement.achievementId));
+  const definitions = await getAchievementDefinitions(db);
+  const newlyEarned: AchievementDefinition[] = [];
+  for (const definition of definitions) {
+    if (definition.enabled === false || earnedIds.has(definition.achievementId)) continue;
+    if (metrics[definition.metric] < definition.threshold) continue;
+
+    // 同時に判定した場合も1回だけ記録する
+    const result = await usersCollection.updateOne(
+      { _id: session.authorId, 'achievements.achievementId': { $ne: definition.achievementId } },
+      { $push: { achievements: { achievementId: definition.achievementId, earnedAt: session.exitTime } } }
+    );
+    if (result.modifiedCount > 0) newlyEarned.push(definition);
+  }
+
+  if (newlyEarned.length > 0) {
+    await announceAchievements(db, user.displayName || session.username, newlyEarned, session);
+  }
+  return newlyEarned;
+}
+
+/**
+ * 新しく達成した実績をお知らせする
+ * @param db MongoDB データベース接続
+ * @param username ユーザー名
+ * @param achievements 新しく達成した実績
+ * @param session 退室した滞在の記録
+ */
+async function announceAchievements(
+  db: Db,
+  username: string,
+  achievements: AchievementDefinition[],
+  session: SessionRecord
+): Promise<void> {
+  const labels = achievements.map(achievement => `${achievement.badge} ${achievement.name}`);
+  const message = messageTemplates.achievementUnlocked(username, labels);
+  console.log(`[Achievements] ${username}さんが実績を達成しました: ${labels.join(', ')}`);
+
+  // コマンドの saveSystemMessage と同じ形式で保存する（SSEで画面に表示される）
+  await db.collection('notifications').insertOne({
+    message,
+    type: 'info',
+    timestamp: new Date(),
+    id: `achievement_${session.authorId}_${achievements.map(achievement => achievement.achievementId).join('_')}`,
+    isRead: false
+  });
+
+  // 配信の終了後はライブチャットに投稿できない
+  if (session.liveChatId && session.exitReason !== 'stream-ended' && getChatSource().canSendMessages()) {
+    try {
+      await enqueueChatMessage(db, session.liveChatId, message);
+    } catch (error) {
+      console.warn('[Achievements] 実績のお知らせの送信待ちへの追加に失敗しました:', error);
+    }
+  }
+}
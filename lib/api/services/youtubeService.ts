@@ -1,15 +1,42 @@
 import { apiClient } from '../clients/apiClient';
-import type { Command, CommandResult } from '@/lib/types';
+import type { CommandResult } from '@/lib/types';
 
 /**
- * YouTubeコメント取得APIからのレスポンス型
+ * コメント取得状態APIからのレスポンス型
  */
-export interface YouTubeCommentsResponse {
-  commands: Command[];
-  pollingIntervalMillis?: number;
+export interface IngestionStatusResponse {
+  videoId: string | null;
+  videoIdSource?: 'manual' | 'broadcast' | 'env' | null;
+  channelId?: string | null;
+  broadcast?: DetectedBroadcastResponse | null;
+  additionalVideoIds?: string[]; // メインの配信と同時にコメントを取得する配信
+  leader: { owner: string; acquiredAt: string; expiresAt: string } | null;
+  worker?: {
+    isLeader: boolean;
+    liveChatId: string | null;
+    lastPolledAt: string | null;
+    backoffUntil: string | null;
+    lastError: string | null;
+    streams?: Array<{
+      videoId: string;
+      liveChatId: string | null;
+      isPrimary: boolean;
+      lastPolledAt: string | null;
+      lastError: string | null;
+    }>;
+  };
   error?: string;
-  backoff?: boolean;
-  remainingSeconds?: number;
+}
+
+/**
+ * チャンネルから自動で検出した放送
+ */
+export interface DetectedBroadcastResponse {
+  videoId: string;
+  title: string;
+  status: 'live' | 'upcoming';
+  scheduledStartTime: string | null;
+  actualStartTime: string | null;
 }
 
 /**
@@ -21,7 +48,9 @@ export interface CommandRequest {
   authorId?: string;
   videoId?: string;
   taskName?: string;
+  args?: Record<string, string>;
   profileImageUrl?: string;
+  commentId?: string; // 実行者の権限をサーバー側で判定するために使用
 }
 
 /**
@@ -39,23 +68,34 @@ export interface CommandResponse {
  */
 export class YouTubeService {
   /**
-   * YouTubeのコメントとコマンドを取得
-   * @returns コマンドとポーリング情報
+   * サーバー側のコメント取得状態を取得
+   * @returns 取得対象の動画IDとワーカーの状態
    */
-  async getComments(videoId?: string): Promise<YouTubeCommentsResponse> {
-    const url = videoId ? `/api/youtube-comments?videoId=${encodeURIComponent(videoId)}` : '/api/youtube-comments';
-    const response = await apiClient.get<YouTubeCommentsResponse>(url);
+  async getIngestionStatus(): Promise<IngestionStatusResponse> {
+    const response = await apiClient.get<IngestionStatusResponse>('/api/ingestion');
     
     if (response.error) {
-      console.error('[YouTubeService] Comments fetch error:', response.error);
-      return { 
-        commands: [], 
-        error: response.error,
-        backoff: response.status === 429  // レート制限時は429
-      };
+      console.error('[YouTubeService] Ingestion status fetch error:', response.error);
+      return { videoId: null, leader: null, error: response.error };
+    }
+    
+    return response.data || { videoId: null, leader: null };
+  }
+  
+  /**
+   * コメント取得対象の動画IDを設定
+   * @param videoId YouTube動画ID（nullで設定を解除し、チャンネルからの自動検出に戻す）
+   * @returns 設定に成功したかどうか
+   */
+  async setVideoId(videoId: string | null): Promise<{ success: boolean; error?: string }> {
+    const response = await apiClient.post<{ videoId: string | null }, { success: boolean }>('/api/ingestion', { videoId });
+    
+    if (response.error) {
+      console.error('[YouTubeService] Set videoId error:', response.error);
+      return { success: false, error: response.error };
     }
     
-    return response.data || { commands: [] };
+    return { success: true };
   }
   
   /**
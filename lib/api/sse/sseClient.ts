@@ -1,4 +1,4 @@
-import { SSEConnectionState, SystemMessage } from './sseTypes';
+import { CelebrationEvent, LeaderboardData, SSEConnectionState, SystemMessage } from './sseTypes';
 
 /**
  * SSEクライアントの設定オプション
@@ -7,6 +7,8 @@ export interface SSEClientOptions {
   endpoint: string;
   onMessage?: (data: any) => void;
   onSystemMessage?: (message: SystemMessage) => void;
+  onCelebration?: (event: CelebrationEvent) => void;
+  onLeaderboard?: (leaderboard: LeaderboardData) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Event) => void;
@@ -86,6 +88,12 @@ export class SSEClient {
       
       // システムメッセージイベントのハンドラを設定
       this.eventSource.addEventListener('system-message', this.handleSystemMessage.bind(this));
+
+      // 応援イベント（Super Chat・メンバー加入など）のハンドラを設定
+      this.eventSource.addEventListener('celebration', this.handleCelebration.bind(this));
+
+      // 作業時間ランキングのハンドラを設定
+      this.eventSource.addEventListener('leaderboard', this.handleLeaderboard.bind(this));
       
       // エラーイベントのハンドラを設定
       this.eventSource.addEventListener('error', this.handleErrorEvent.bind(this));
@@ -166,7 +174,33 @@ export class SSEClient {
       console.error('[SSEClient] Error parsing system message:', err, event.data);
     }
   }
+
+  /**
+   * 応援イベント受信時のハンドラ
+   */
+  private handleCelebration(event: MessageEvent): void {
+    try {
+      const celebration = JSON.parse(event.data) as CelebrationEvent;
+      this.options.onCelebration?.(celebration);
+      console.log(`[SSEClient] Celebration received: ${celebration.type} - ${celebration.authorName}`);
+    } catch (err) {
+      console.error('[SSEClient] Error parsing celebration:', err, event.data);
+    }
+  }
   
+  /**
+   * 作業時間ランキング受信時のハンドラ
+   */
+  private handleLeaderboard(event: MessageEvent): void {
+    try {
+      const leaderboard = JSON.parse(event.data) as LeaderboardData;
+      this.options.onLeaderboard?.(leaderboard);
+      console.log(`[SSEClient] Leaderboard received: ${leaderboard.updatedAt}`);
+    } catch (err) {
+      console.error('[SSEClient] Error parsing leaderboard:', err, event.data);
+    }
+  }
+
   /**
    * エラー発生時のハンドラ
    */
@@ -18,6 +18,43 @@ export interface SystemMessage {
   id?: string;
 }
 
+/**
+ * Super Chat・メンバー加入などの応援イベントの演出データの型
+ */
+export interface CelebrationEvent {
+  id?: string;
+  type: 'superChat' | 'superSticker' | 'newMember' | 'memberMilestone';
+  label: string;
+  authorName: string;
+  profileImageUrl?: string;
+  amountDisplayString?: string;
+  userComment?: string;
+  stickerAltText?: string;
+  memberLevelName?: string;
+  memberMonth?: number;
+  timestamp: string;
+}
+
+/**
+ * 作業時間ランキングの1行の型
+ */
+export interface LeaderboardEntryData {
+  rank: number;
+  authorId: string | null;
+  username: string;
+  profileImageUrl: string | null;
+  workMs: number;
+}
+
+/**
+ * 作業時間ランキング（今日・今週・今月）の型
+ */
+export interface LeaderboardData {
+  timeZone: string;
+  periods: Record<'today' | 'week' | 'month', { from: string; entries: LeaderboardEntryData[] }>;
+  updatedAt: string;
+}
+
 /**
  * SSEを通じて送信される座席データの型
  */
@@ -0,0 +1,108 @@
+import { Db, ObjectId } from 'mongodb';
+import { extendAutoExit, MAX_STAY_HOURS, scheduleAutoExit } from '@/lib/autoExit';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2025-03-10T03:00:00Z');
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(NOW.getTime() + minutes * MINUTE);
+}
+
+function fakeDb() {
+  const updateOne = jest.fn(async () => ({ modifiedCount: 1 }));
+  const db = { collection: () => ({ updateOne }) } as unknown as Db;
+  return { db, updateOne };
+}
+
+describe('extendAutoExit', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // 2時間前に入室し、1時間後に自動退室する座席（休憩30分）
+  const seat = {
+    _id: new ObjectId(),
+    username: 'A',
+    enterTime: minutesFromNow(-120),
+    autoExitScheduled: minutesFromNow(60),
+    totalBreakMs: 30 * MINUTE,
+  };
+  // 上限: 入室時刻 + 休憩時間 + 最大滞在時間
+  const limitMinutes = -120 + 30 + MAX_STAY_HOURS * 60;
+
+  it('自動退室時刻を指定した分数だけ延長する', async () => {
+    const { db, updateOne } = fakeDb();
+    const result = await extendAutoExit(db, seat, 60);
+
+    expect(result).toEqual({
+      success: true,
+      extendedMinutes: 60,
+      autoExitScheduled: minutesFromNow(120),
+      limitReached: false,
+    });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: seat._id },
+      { $set: { autoExitScheduled: minutesFromNow(120), timestamp: NOW } }
+    );
+  });
+
+  it('休憩時間を除いた滞在時間が上限を超える場合は上限まで延長する', async () => {
+    const { db } = fakeDb();
+    const result = await extendAutoExit(db, seat, 24 * 60);
+
+    expect(result).toEqual({
+      success: true,
+      extendedMinutes: limitMinutes - 60,
+      autoExitScheduled: minutesFromNow(limitMinutes),
+      limitReached: true,
+    });
+  });
+
+  it('休憩中の場合は現在までの休憩時間も上限に加える', async () => {
+    const { db } = fakeDb();
+    const result = await extendAutoExit(db, { ...seat, breakStartedAt: minutesFromNow(-20) }, 24 * 60);
+
+    expect(result.autoExitScheduled).toEqual(minutesFromNow(limitMinutes + 20));
+  });
+
+  it('既に上限に達している場合は延長しない', async () => {
+    const { db, updateOne } = fakeDb();
+    const result = await extendAutoExit(db, { ...seat, autoExitScheduled: minutesFromNow(limitMinutes) }, 60);
+
+    expect(result).toMatchObject({ success: false, limitReached: true });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('自動退室時刻を過ぎている場合は現在時刻から延長する', async () => {
+    const { db } = fakeDb();
+    const result = await extendAutoExit(db, { ...seat, autoExitScheduled: minutesFromNow(-10) }, 60);
+
+    expect(result.autoExitScheduled).toEqual(minutesFromNow(60));
+    expect(result.extendedMinutes).toBe(70);
+  });
+});
+
+describe('scheduleAutoExit', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('小数の時間も分単位で自動退室時刻に反映する', async () => {
+    const seat = { _id: new ObjectId(), username: 'A', enterTime: NOW };
+    const updateOne = jest.fn(async () => ({ modifiedCount: 1 }));
+    const db = { collection: () => ({ findOne: async () => seat, updateOne }) } as unknown as Db;
+
+    expect(await scheduleAutoExit(db, 1, 1.5)).toEqual({ success: true });
+    expect(updateOne).toHaveBeenCalledWith({ _id: seat._id }, { $set: { autoExitScheduled: minutesFromNow(90) } });
+  });
+});
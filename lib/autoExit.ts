@@ -1,6 +1,18 @@
-import { Db } from 'mongodb';
-import { youtubeApiClient } from '@/lib/youtubeApiClient';
+import { Db, Document, WithId } from 'mongodb';
+import { getChatSource } from '@/lib/chatSource';
+import { enqueueChatMessage } from '@/lib/chatOutbox';
 import { messageTemplates } from '@/lib/messages';
+import { getTotalBreakMs } from '@/lib/seatBreaks';
+import { DEFAULT_ROOM_ID, getRooms, roomSeatQuery } from '@/lib/rooms';
+import { promoteFromQueue } from '@/lib/seatQueue';
+import { endSeatSession } from '@/lib/sessions';
+
+// 1回の滞在で許可する最大時間（休憩時間を除く、延長を含む）
+export const MAX_STAY_HOURS = Number(process.env.AUTO_EXIT_MAX_STAY_HOURS) || 8;
+// /extend で分数を省略した場合の延長時間（分）
+export const DEFAULT_EXTEND_MINUTES = Number(process.env.AUTO_EXIT_DEFAULT_EXTEND_MINUTES) || 60;
+// 1回の休憩で許可する最大時間（分）。超えた座席は休憩中でも自動退室する
+export const MAX_BREAK_MINUTES = Number(process.env.AUTO_EXIT_MAX_BREAK_MINUTES) || 60;
 
 /**
  * 自動退室状態の型定義
@@ -16,15 +28,18 @@ export interface AutoExitStatus {
  * 自動退室が必要なユーザーをチェックして退室処理を行う
  * @param db MongoDB データベース接続
  * @param sendNotification YouTube通知メッセージを送信するかどうか
+ * @param knownLiveChatId 入室元の配信が記録されていない座席の通知先のliveChatId（省略時は YOUTUBE_VIDEO_ID から取得する）
  * @returns 処理された座席の数と詳細情報
  */
 export async function checkAndProcessAutoExit(
   db: Db,
-  sendNotification: boolean = false
+  sendNotification: boolean = false,
+  knownLiveChatId: string | null = null
 ): Promise<{
   processedCount: number;
   details: Array<{
     username: string | null;
+    roomId: string;
     position: number;
     success: boolean;
     error?: string;
@@ -34,6 +49,7 @@ export async function checkAndProcessAutoExit(
     processedCount: 0,
     details: [] as Array<{
       username: string | null;
+      roomId: string;
       position: number;
       success: boolean;
       error?: string;
@@ -46,10 +62,15 @@ export async function checkAndProcessAutoExit(
     
     console.log(`[AutoExit] ${currentTime.toISOString()}に自動退室チェックを実行`);
     
+    const breakLimit = new Date(currentTime.getTime() - MAX_BREAK_MINUTES * 60 * 1000);
     const expiredSeats = await seatsCollection.find({
       username: { $ne: null },
-      is_active: true, // アクティブな座席のみを対象とする
-      autoExitScheduled: { $lt: currentTime }
+      $or: [
+        // 休憩中はカウントダウンを一時停止しているため対象外
+        { breakStartedAt: null, autoExitScheduled: { $lt: currentTime } },
+        // 休憩したまま戻らない座席は最大休憩時間を過ぎたら退室させる
+        { breakStartedAt: { $lt: breakLimit } }
+      ]
     }).toArray();
     
     if (expiredSeats.length === 0) {
@@ -60,53 +81,55 @@ export async function checkAndProcessAutoExit(
     console.log(`[AutoExit] ${expiredSeats.length}件の期限切れ座席を処理します`);
     
     // YouTube通知のための準備
-    let liveChatId: string | null = null;
+    const chatSource = getChatSource();
+    const canSendMessages = chatSource.canSendMessages();
+    let liveChatId: string | null = sendNotification && canSendMessages ? knownLiveChatId : null;
     const videoId = process.env.YOUTUBE_VIDEO_ID;
-    const isOAuthConfigured = youtubeApiClient.isOAuthConfigured();
-    if (sendNotification && videoId && isOAuthConfigured) {
+    if (sendNotification && !liveChatId && videoId && canSendMessages) {
       try {
-        liveChatId = await youtubeApiClient.getLiveChatId(videoId);
+        liveChatId = await chatSource.getLiveChatId(videoId);
       } catch (error) {
         console.error('[AutoExit] YouTubeのliveChatID取得中にエラーが発生しました (ApiClient):', error);
       }
     }
     
+    // 通知メッセージ用に部屋名を引けるようにしておく
+    const rooms = await getRooms(db);
+
     for (const seat of expiredSeats) {
       const username = seat.username;
       const position = seat.position;
-      const roomId = 'focus-room';
+      const roomId = seat.room_id || DEFAULT_ROOM_ID;
+      const roomName = rooms.find(room => room.roomId === roomId)?.name || roomId;
       
       try {
-        await seatsCollection.updateOne(
-          { _id: seat._id },
-          { 
-            $set: { 
-              is_active: false,
-              exitTime: new Date(),
-              autoExitScheduled: null,
-              timestamp: new Date()
-            } 
-          }
-        );
+        // 座席を空けて滞在を記録する（確認後に本人が退室していた場合は何もしない）
+        const ended = await endSeatSession(db, seat._id, 'auto-exit');
+        if (!ended) continue;
         
         console.log(`[AutoExit] ${username}を自動退室しました (部屋: ${roomId}, 座席: ${position})`);
         
-        if (liveChatId && username) {
+        // 入室元の配信のチャットに通知する
+        const seatChatId = sendNotification && canSendMessages ? seat.liveChatId || liveChatId : null;
+        if (seatChatId && username) {
           try {
-            await youtubeApiClient.sendChatMessage(
-              liveChatId, 
-              messageTemplates.autoExited(username, roomId, position)
+            await enqueueChatMessage(
+              db,
+              seatChatId,
+              messageTemplates.autoExited(username, roomName, position),
+              { kind: 'autoExited', username }
             );
           } catch(sendError) {
-            console.error(`[AutoExit] 座席(${position})の自動退室メッセージ送信中にエラーが発生:`, sendError);
+            console.error(`[AutoExit] 座席(${position})の自動退室メッセージの送信待ちへの追加中にエラーが発生:`, sendError);
           }
-        } else if (sendNotification && isOAuthConfigured && !liveChatId) {
+        } else if (sendNotification && canSendMessages && !seatChatId) {
           console.warn(`[AutoExit] liveChatIdが取得できなかったため、座席(${position})の自動退室通知をスキップしました。`);
         }
         
         results.processedCount++;
         results.details.push({
           username,
+          roomId,
           position,
           success: true
         });
@@ -114,12 +137,45 @@ export async function checkAndProcessAutoExit(
         console.error(`[AutoExit] 座席(${position})の自動退室処理中にエラーが発生:`, error);
         results.details.push({
           username,
+          roomId,
           position,
           success: false,
           error: error instanceof Error ? error.message : '不明なエラー'
         });
       }
     }
+
+    // 空席ができた部屋の待機列を進める
+    const freedRoomIds = new Set(results.details.filter(detail => detail.success).map(detail => detail.roomId));
+    for (const roomId of Array.from(freedRoomIds)) {
+      try {
+        const promoted = await promoteFromQueue(db, roomId);
+        for (const entry of promoted) {
+          await db.collection('notifications').insertOne({
+            message: `${entry.username}さんが待機列から${entry.roomName}に入室しました`,
+            type: 'info',
+            timestamp: new Date(),
+            id: `queue_${entry.seatId}`,
+            isRead: false
+          });
+          const entryChatId = sendNotification && canSendMessages ? entry.liveChatId || liveChatId : null;
+          if (entryChatId) {
+            try {
+              await enqueueChatMessage(
+                db,
+                entryChatId,
+                messageTemplates.queuePromoted(entry.username, entry.roomName, entry.position),
+                { kind: 'queuePromoted', username: entry.username }
+              );
+            } catch (sendError) {
+              console.error(`[AutoExit] ${entry.username}の着席メッセージの送信待ちへの追加中にエラーが発生:`, sendError);
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`[AutoExit] 部屋(${roomId})の待機列処理中にエラーが発生:`, error);
+      }
+    }
     
     return results;
   } catch (error) {
@@ -133,20 +189,22 @@ export async function checkAndProcessAutoExit(
  * @param db MongoDB データベース接続
  * @param position 座席位置
  * @param hours 入室時間から何時間後に自動退室するか (デフォルト: 2時間)
+ * @param roomId 部屋ID (デフォルト: フォーカスルーム)
  * @returns 更新結果
  */
 export async function scheduleAutoExit(
   db: Db,
   position: number,
-  hours: number = 2
+  hours: number = 2,
+  roomId: string = DEFAULT_ROOM_ID
 ): Promise<{ success: boolean; error?: string }> {
   try {
     const seatsCollection = db.collection('seats');
     
-    // 座席情報を取得（アクティブな座席のみ）
+    // 座席情報を取得（seats には着席中の座席だけが入る）
     const seat = await seatsCollection.findOne({
-      position: position,
-      is_active: true
+      ...roomSeatQuery(roomId),
+      position: position
     });
     
     if (!seat || !seat.username) {
@@ -158,8 +216,8 @@ export async function scheduleAutoExit(
     
     // 入室時間から自動退室時間を計算
     const enterTime = seat.enterTime ? new Date(seat.enterTime) : new Date();
-    const autoExitTime = new Date(enterTime);
-    autoExitTime.setHours(autoExitTime.getHours() + hours);
+    // setHours は小数を切り捨てるため、ミリ秒で加算する（0.5時間 = 30分）
+    const autoExitTime = new Date(enterTime.getTime() + hours * 60 * 60 * 1000);
     
     // 自動退室時間を更新
     await seatsCollection.updateOne(
@@ -179,6 +237,68 @@ export async function scheduleAutoExit(
   }
 }
 
+/**
+ * 座席の自動退室時間を延長する
+ * 休憩時間を除いた滞在時間が MAX_STAY_HOURS を超えないように延長時間を切り詰める
+ * @param db MongoDB データベース接続
+ * @param seat 対象の座席ドキュメント（アクティブな座席）
+ * @param minutes 延長する時間（分）
+ * @returns 延長結果（実際に延長された分数と新しい自動退室時間）
+ */
+export async function extendAutoExit(
+  db: Db,
+  seat: WithId<Document>,
+  minutes: number
+): Promise<{
+  success: boolean;
+  extendedMinutes?: number;
+  autoExitScheduled?: Date;
+  limitReached?: boolean;
+  error?: string;
+}> {
+  try {
+    const now = new Date();
+    const enterTime = seat.enterTime ? new Date(seat.enterTime) : now;
+    const currentExit = seat.autoExitScheduled ? new Date(seat.autoExitScheduled) : now;
+
+    // 上限: 入室時刻 + 休憩時間 + 最大滞在時間
+    const limit = new Date(
+      enterTime.getTime() + getTotalBreakMs(seat, now) + MAX_STAY_HOURS * 60 * 60 * 1000
+    );
+    const requested = new Date(Math.max(currentExit.getTime(), now.getTime()) + minutes * 60 * 1000);
+    const autoExitTime = requested > limit ? limit : requested;
+    const extendedMinutes = Math.floor((autoExitTime.getTime() - currentExit.getTime()) / (60 * 1000));
+
+    if (extendedMinutes <= 0) {
+      return {
+        success: false,
+        limitReached: true,
+        error: `滞在時間の上限（${MAX_STAY_HOURS}時間）に達しているため延長できません`
+      };
+    }
+
+    await db.collection('seats').updateOne(
+      { _id: seat._id },
+      { $set: { autoExitScheduled: autoExitTime, timestamp: now } }
+    );
+
+    console.log(`[AutoExit] ${seat.username}の自動退室を${extendedMinutes}分延長し、${autoExitTime.toISOString()}に設定しました`);
+
+    return {
+      success: true,
+      extendedMinutes,
+      autoExitScheduled: autoExitTime,
+      limitReached: requested > limit
+    };
+  } catch (error) {
+    console.error('[AutoExit] 自動退室時間の延長中にエラーが発生しました:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '不明なエラー'
+    };
+  }
+}
+
 /**
  * 自動退室のステータスを取得する
  * @param scheduledTime 自動退室時間
@@ -0,0 +1,66 @@
+import { ObjectId } from 'mongodb';
+import { buildSendUnits, ChatOutboxMessage, MAX_MESSAGE_LENGTH } from '@/lib/chatOutbox';
+import type { MergeableMessageKind } from '@/lib/messages';
+
+function pendingMessage(
+  message: string,
+  options: { liveChatId?: string; merge?: { kind: MergeableMessageKind; username: string } } = {}
+): ChatOutboxMessage {
+  const now = new Date();
+  return {
+    _id: new ObjectId(),
+    liveChatId: options.liveChatId || 'chat-1',
+    message,
+    merge: options.merge,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    expiresAt: now,
+    createdAt: now,
+  };
+}
+
+function seatTaken(username: string, liveChatId?: string): ChatOutboxMessage {
+  return pendingMessage(`🪑 ${username}さんが着席しました`, { liveChatId, merge: { kind: 'seatTaken', username } });
+}
+
+describe('buildSendUnits', () => {
+  it('まとめる情報のないメッセージはそのまま1件ずつ送る', () => {
+    const messages = [pendingMessage('A'), pendingMessage('B')];
+    const units = buildSendUnits(messages);
+
+    expect(units.map(unit => unit.text)).toEqual(['A', 'B']);
+    expect(units.map(unit => unit.ids)).toEqual([[messages[0]._id], [messages[1]._id]]);
+  });
+
+  it('同じライブチャット・同じ種類のメッセージを最初のメッセージの位置で1件にまとめる', () => {
+    const messages = [seatTaken('A'), pendingMessage('お知らせ'), seatTaken('B'), seatTaken('C')];
+    const units = buildSendUnits(messages);
+
+    expect(units.map(unit => unit.text)).toEqual(['🪑 Aさん、Bさん、Cさんが着席しました！', 'お知らせ']);
+    expect(units[0].ids).toEqual([messages[0]._id, messages[2]._id, messages[3]._id]);
+  });
+
+  it('1件だけの場合はまとめ用のテンプレートを使わない', () => {
+    expect(buildSendUnits([seatTaken('A')]).map(unit => unit.text)).toEqual(['🪑 Aさんが着席しました']);
+  });
+
+  it('ライブチャットが異なるメッセージはまとめない', () => {
+    const units = buildSendUnits([seatTaken('A', 'chat-1'), seatTaken('B', 'chat-2')]);
+    expect(units.map(unit => [unit.liveChatId, unit.ids.length])).toEqual([['chat-1', 1], ['chat-2', 1]]);
+  });
+
+  it('種類が異なるメッセージはまとめない', () => {
+    const vacated = pendingMessage('👋 Bさんが退席しました', { merge: { kind: 'seatVacated', username: 'B' } });
+    expect(buildSendUnits([seatTaken('A'), vacated])).toHaveLength(2);
+  });
+
+  it('まとめると最大文字数を超える場合は新しいまとまりを始める', () => {
+    const messages = Array.from({ length: 30 }, (_, index) => seatTaken(`とても長い名前のユーザー${index}`));
+    const units = buildSendUnits(messages);
+
+    expect(units.length).toBeGreaterThan(1);
+    units.forEach(unit => expect(unit.text.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH));
+    expect(units.flatMap(unit => unit.ids)).toEqual(messages.map(message => message._id));
+  });
+});
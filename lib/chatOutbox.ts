@@ -0,0 +1,306 @@
+import { Db, ObjectId } from 'mongodb';
+import { getChatSource } from '@/lib/chatSource';
+import { mergedMessageTemplates, MergeableMessageKind } from '@/lib/messages';
+import { YouTubeAPIError } from '@/lib/youtubeApiClient';
+
+// 1分あたりに送信するメッセージの上限（YouTube に連投と判定されないようにする）
+const MAX_MESSAGES_PER_MINUTE = Number(process.env.CHAT_OUTBOX_MAX_PER_MINUTE) || 6;
+// 一時的なエラーで再送する最大回数（これを超えるとデッドレターにする）
+const MAX_ATTEMPTS = 5;
+// 再送の間隔（回数ごとに2倍、最大5分）
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+// 送信できないまま時間が経ったメッセージは、チャットの流れに合わなくなるため送信しない
+const MESSAGE_TTL_MS = Number(process.env.CHAT_OUTBOX_MESSAGE_TTL_MS) || 10 * 60 * 1000;
+// 送信済み・デッドレターを残しておく期間
+const RETENTION_SECONDS = 7 * 24 * 60 * 60;
+// YouTube のチャットの最大文字数
+export const MAX_MESSAGE_LENGTH = 200;
+
+/**
+ * 送信待ちのメッセージをまとめるための情報
+ * 送信時に同じライブチャット・同じ種類のメッセージが複数たまっていれば、ユーザー名を並べた1件にまとめる
+ */
+export interface ChatMessageMerge {
+  kind: MergeableMessageKind;
+  username: string;
+}
+
+/**
+ * chatOutbox コレクションに保存される送信待ちのメッセージ
+ * - pending: 送信待ち（nextAttemptAt 以降に送信する）
+ * - sent: 送信済み（他のメッセージとまとめて送信した場合を含む）
+ * - dead: 送信できなかった（管理画面から再送または破棄する）
+ */
+export interface ChatOutboxMessage {
+  _id?: ObjectId;
+  liveChatId: string;
+  message: string;
+  merge?: ChatMessageMerge;
+  status: 'pending' | 'sent' | 'dead';
+  attempts: number;
+  nextAttemptAt: Date;
+  expiresAt: Date; // これを過ぎても送信できなければデッドレターにする
+  createdAt: Date;
+  sentAt?: Date;
+  sentMessage?: string; // 実際に送信した本文（まとめた場合はまとめた後の本文）
+  deliveryId?: ObjectId; // まとめて送信したメッセージに共通のID（レート制限の計算に使う）
+  deadAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * 1回の送信処理の結果
+ */
+export interface OutboxFlushResult {
+  sent: number; // 送信した投稿数
+  delivered: number; // 送信済みになったメッセージ数（まとめたものを含む）
+  retried: number;
+  deadLettered: number;
+  rateLimited: boolean; // 1分あたりの上限に達したため残りを次回に回したかどうか
+}
+
+// 1回の送信処理の単位（まとめた場合は複数のメッセージを1件として送る）
+export interface SendUnit {
+  ids: ObjectId[];
+  liveChatId: string;
+  text: string;
+}
+
+let outboxIndexEnsured = false;
+
+/**
+ * chatOutbox のインデックスを作成する（プロセスごとに1回）
+ * @param db MongoDB データベース接続
+ */
+async function ensureOutboxIndex(db: Db): Promise<void> {
+  if (outboxIndexEnsured) return;
+  try {
+    const collection = db.collection('chatOutbox');
+    await collection.createIndex({ status: 1, nextAttemptAt: 1 }, { name: 'status_nextAttemptAt' });
+    // 送信済み・デッドレターは一定期間後に自動削除する（送信待ちには sentAt・deadAt がないため対象外）
+    await collection.createIndex({ sentAt: 1 }, { name: 'sentAt_ttl', expireAfterSeconds: RETENTION_SECONDS });
+    await collection.createIndex({ deadAt: 1 }, { name: 'deadAt_ttl', expireAfterSeconds: RETENTION_SECONDS });
+    outboxIndexEnsured = true;
+  } catch (indexError) {
+    console.error('[Outbox] インデックス作成エラー:', indexError);
+  }
+}
+
+/**
+ * チャットへの投稿を送信待ちに追加する
+ * 送信はコメント取得ワーカーが flushChatOutbox でまとめて行う
+ * @param db MongoDB データベース接続
+ * @param liveChatId 投稿先のライブチャットID
+ * @param message 投稿するメッセージ
+ * @param merge 同じ種類のメッセージとまとめる場合の情報
+ */
+export async function enqueueChatMessage(
+  db: Db,
+  liveChatId: string,
+  message: string,
+  merge?: ChatMessageMerge
+): Promise<void> {
+  await ensureOutboxIndex(db);
+  const now = new Date();
+  const outboxMessage: ChatOutboxMessage = {
+    liveChatId,
+    message,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    expiresAt: new Date(now.getTime() + MESSAGE_TTL_MS),
+    createdAt: now
+  };
+  if (merge) outboxMessage.merge = merge;
+  await db.collection<ChatOutboxMessage>('chatOutbox').insertOne(outboxMessage);
+}
+
+/**
+ * 送信待ちのメッセージを、1分あたりの上限の範囲で送信する
+ * 同じ種類のメッセージはまとめ、一時的なエラーは間隔を空けて再送し、恒久的なエラーや期限切れはデッドレターにする
+ * @param db MongoDB データベース接続
+ * @returns 送信処理の結果
+ */
+export async function flushChatOutbox(db: Db): Promise<OutboxFlushResult> {
+  await ensureOutboxIndex(db);
+  const collection = db.collection<ChatOutboxMessage>('chatOutbox');
+  const result: OutboxFlushResult = { sent: 0, delivered: 0, retried: 0, deadLettered: 0, rateLimited: false };
+  const now = new Date();
+
+  // 期限までに送信できなかったメッセージはデッドレターにする
+  const expired = await collection.updateMany(
+    { status: 'pending', expiresAt: { $lte: now } },
+    { $set: { status: 'dead', deadAt: now, lastError: '送信期限を過ぎました' } }
+  );
+  result.deadLettered += expired.modifiedCount;
+
+  const pending = await collection
+    .find({ status: 'pending', nextAttemptAt: { $lte: now } })
+    .sort({ createdAt: 1 })
+    .limit(100)
+    .toArray();
+  if (pending.length === 0) return result;
+
+  // 直近1分間の送信数（まとめて送った投稿は1件として数える）から、今回送信できる件数を求める
+  const recentlySent = await collection.distinct('deliveryId', {
+    status: 'sent',
+    sentAt: { $gt: new Date(now.getTime() - 60 * 1000) }
+  });
+  let budget = MAX_MESSAGES_PER_MINUTE - recentlySent.length;
+
+  const chatSource = getChatSource();
+  for (const unit of buildSendUnits(pending)) {
+    if (budget <= 0) {
+      result.rateLimited = true;
+      break;
+    }
+    budget--;
+
+    try {
+      await chatSource.sendChatMessage(unit.liveChatId, unit.text);
+      await collection.updateMany(
+        { _id: { $in: unit.ids } },
+        { $set: { status: 'sent', sentAt: new Date(), sentMessage: unit.text, deliveryId: unit.ids[0] }, $inc: { attempts: 1 } }
+      );
+      result.sent++;
+      result.delivered += unit.ids.length;
+    } catch (error) {
+      const errorMessage = (error instanceof Error && error.message) || 'メッセージの送信に失敗しました';
+      const attempts = Math.max(...pending.filter(message => unit.ids.some(id => id.equals(message._id!))).map(message => message.attempts)) + 1;
+
+      if (!isTransientSendError(error) || attempts >= MAX_ATTEMPTS) {
+        console.error(`[Outbox] メッセージを送信できなかったためデッドレターにします: ${unit.text}`, errorMessage);
+        await collection.updateMany(
+          { _id: { $in: unit.ids } },
+          { $set: { status: 'dead', deadAt: new Date(), lastError: errorMessage, attempts } }
+        );
+        result.deadLettered += unit.ids.length;
+        continue;
+      }
+
+      const delayMs = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+      console.warn(`[Outbox] メッセージの送信に失敗しました。${Math.round(delayMs / 1000)}秒後に再送します (${attempts}回目):`, errorMessage);
+      await collection.updateMany(
+        { _id: { $in: unit.ids } },
+        { $set: { nextAttemptAt: new Date(Date.now() + delayMs), lastError: errorMessage, attempts } }
+      );
+      result.retried += unit.ids.length;
+
+      // 送信先から制限された場合は、残りも送らずに次回に回す
+      if (error instanceof YouTubeAPIError && error.status === 429) {
+        result.rateLimited = true;
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 送信待ちのメッセージを送信単位に分ける
+ * 同じライブチャット・同じ種類のメッセージは、最初のメッセージの位置でユーザー名を並べた1件にまとめる
+ * @param pending 送信待ちのメッセージ（作成順）
+ * @returns 送信単位（送信順）
+ */
+export function buildSendUnits(pending: ChatOutboxMessage[]): SendUnit[] {
+  const units: SendUnit[] = [];
+  const groups = new Map<string, { unit: SendUnit; messages: ChatOutboxMessage[] }>();
+
+  for (const message of pending) {
+    const id = message._id as ObjectId;
+    if (!message.merge) {
+      units.push({ ids: [id], liveChatId: message.liveChatId, text: message.message });
+      continue;
+    }
+
+    const key = `${message.liveChatId}:${message.merge.kind}`;
+    const group = groups.get(key);
+    if (group) {
+      const usernames = [...group.messages, message].map(groupMessage => groupMessage.merge!.username);
+      const mergedText = mergedMessageTemplates[message.merge.kind](usernames);
+      // まとめると最大文字数を超える場合は、新しいまとまりを始める
+      if (mergedText.length <= MAX_MESSAGE_LENGTH) {
+        group.messages.push(message);
+        group.unit.ids.push(id);
+        group.unit.text = mergedText;
+        continue;
+      }
+    }
+
+    const unit: SendUnit = { ids: [id], liveChatId: message.liveChatId, text: message.message };
+    units.push(unit);
+    groups.set(key, { unit, messages: [message] });
+  }
+
+  return units;
+}
+
+/**
+ * 再送すれば成功する可能性のあるエラーかどうか
+ * レート制限・クォータの一時的な不足・サーバーエラー・通信エラーは再送し、
+ * 権限がない・チャットが終了したなどのエラーは再送しない
+ * @param error 送信時のエラー
+ */
+function isTransientSendError(error: unknown): boolean {
+  if (!(error instanceof YouTubeAPIError) || !error.status) return true;
+  if (error.code === 'OAUTH_NOT_CONFIGURED') return false;
+  return error.status === 429 || error.status >= 500;
+}
+
+/**
+ * 送信待ち・デッドレターの件数を取得する
+ * @param db MongoDB データベース接続
+ */
+export async function getChatOutboxSummary(db: Db): Promise<{ pending: number; dead: number; sentLastMinute: number; maxPerMinute: number }> {
+  const collection = db.collection<ChatOutboxMessage>('chatOutbox');
+  const [pending, dead, sentLastMinute] = await Promise.all([
+    collection.countDocuments({ status: 'pending' }),
+    collection.countDocuments({ status: 'dead' }),
+    collection.distinct('deliveryId', { status: 'sent', sentAt: { $gt: new Date(Date.now() - 60 * 1000) } })
+  ]);
+  return { pending, dead, sentLastMinute: sentLastMinute.length, maxPerMinute: MAX_MESSAGES_PER_MINUTE };
+}
+
+/**
+ * デッドレターのメッセージを新しい順に取得する
+ * @param db MongoDB データベース接続
+ * @param limit 最大件数
+ */
+export async function getDeadLetters(db: Db, limit: number = 50): Promise<ChatOutboxMessage[]> {
+  return db.collection<ChatOutboxMessage>('chatOutbox')
+    .find({ status: 'dead' })
+    .sort({ deadAt: -1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * デッドレターのメッセージを送信待ちに戻す
+ * @param db MongoDB データベース接続
+ * @param id メッセージID
+ * @returns 戻せた場合はtrue
+ */
+export async function retryDeadLetter(db: Db, id: ObjectId): Promise<boolean> {
+  const now = new Date();
+  const result = await db.collection<ChatOutboxMessage>('chatOutbox').updateOne(
+    { _id: id, status: 'dead' },
+    {
+      $set: { status: 'pending', attempts: 0, nextAttemptAt: now, expiresAt: new Date(now.getTime() + MESSAGE_TTL_MS) },
+      $unset: { deadAt: '', lastError: '' }
+    }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * デッドレターのメッセージを破棄する
+ * @param db MongoDB データベース接続
+ * @param id メッセージID
+ * @returns 破棄できた場合はtrue
+ */
+export async function discardDeadLetter(db: Db, id: ObjectId): Promise<boolean> {
+  const result = await db.collection<ChatOutboxMessage>('chatOutbox').deleteOne({ _id: id, status: 'dead' });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,62 @@
+import { YouTubeApiClient } from '@/lib/youtubeApiClient';
+import { MockChatSource } from './mockChatSource';
+import { RecordingChatSource } from './recorder';
+import type { ChatSource, ChatSourceName } from './types';
+
+export type { BroadcastState, ChatSource, ChatSourceName, LiveBroadcast } from './types';
+export { getMockLiveChatId, getMockChatLog, postMockChatMessage } from './mockChatSource';
+export type { MockChatMessage, MockChatReply, MockViewer } from './mockChatSource';
+export { readChatRecording, getRecordingPath } from './recorder';
+export type { ChatRecordingEntry } from './recorder';
+
+let chatSource: ChatSource | null = null;
+
+/**
+ * 設定されているチャットの取得元の種類
+ * mock は認証なしでコメントを投稿できる（POST /api/mock-chat）ため、CHAT_SOURCE=mock を明示した場合だけ使う
+ */
+export function getChatSourceName(): ChatSourceName {
+  const configured = process.env.CHAT_SOURCE;
+  if (configured === 'youtube' || configured === 'mock') return configured;
+  if (configured) {
+    console.warn(`[ChatSource] 不明な CHAT_SOURCE です (${configured})。youtube を使います`);
+  }
+  return 'youtube';
+}
+
+/**
+ * チャットの取得元に必要な設定があるか確認する（サーバー起動時に呼ぶ）
+ * @throws 取得元が youtube で YOUTUBE_API_KEY が設定されていない場合
+ */
+export function assertChatSourceConfigured(): void {
+  if (getChatSourceName() === 'youtube' && !process.env.YOUTUBE_API_KEY) {
+    throw new Error('YOUTUBE_API_KEY が設定されていません（ダミーのチャットを使う場合は CHAT_SOURCE=mock を設定してください）');
+  }
+}
+
+/**
+ * チャットの取得元を取得する（初回呼び出し時に生成する）
+ * CHAT_RECORDING_DIR が設定されている場合は、取得したコメントと返信をそのディレクトリに記録する
+ */
+export function getChatSource(): ChatSource {
+  if (!chatSource) {
+    const name = getChatSourceName();
+    chatSource = name === 'youtube' ? new YouTubeApiClient() : new MockChatSource();
+    console.log(`[ChatSource] チャットの取得元: ${name}`);
+
+    const recordingDir = process.env.CHAT_RECORDING_DIR;
+    if (recordingDir) {
+      chatSource = new RecordingChatSource(chatSource, recordingDir);
+      console.log(`[ChatSource] 取得したコメントを ${recordingDir} に記録します`);
+    }
+  }
+  return chatSource;
+}
+
+/**
+ * チャットの取得元を差し替える（記録の再生で使う）
+ * @param source 使用する取得元（nullで設定に従って作り直す）
+ */
+export function setChatSource(source: ChatSource | null): void {
+  chatSource = source;
+}
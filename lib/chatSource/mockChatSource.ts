@@ -0,0 +1,194 @@
+import { Db, Filter, ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import type { ChatItem, ChatResponse } from '@/lib/youtubeApiClient';
+import type { BroadcastState, ChatSource, LiveBroadcast } from './types';
+
+// ダミーのコメントを取得する間隔（YouTube の pollingIntervalMillis に相当）
+const MOCK_POLLING_INTERVAL_MS = Number(process.env.MOCK_CHAT_POLLING_INTERVAL_MS) || 5000;
+// 1ページあたりの最大件数（YouTube の maxResults に合わせる）
+const MOCK_PAGE_SIZE = 100;
+
+/**
+ * mockChatMessages コレクションに保存されるダミーのコメント
+ */
+export interface MockChatMessage {
+  _id?: ObjectId;
+  liveChatId: string;
+  authorName: string;
+  authorId: string;
+  message: string;
+  isChatOwner: boolean;
+  isChatModerator: boolean;
+  publishedAt: Date;
+}
+
+/**
+ * mockChatReplies コレクションに保存される、BOTが送るはずだった返信
+ */
+export interface MockChatReply {
+  _id?: ObjectId;
+  liveChatId: string;
+  message: string;
+  sentAt: Date;
+}
+
+/**
+ * ダミーのコメントを投稿する視聴者
+ */
+export interface MockViewer {
+  authorName: string;
+  role?: 'viewer' | 'moderator' | 'owner';
+}
+
+/**
+ * 動画IDに対応するダミーのライブチャットID
+ * @param videoId 動画ID
+ */
+export function getMockLiveChatId(videoId: string): string {
+  return `mock-${videoId}`;
+}
+
+/**
+ * ダミーのコメントを投稿する（/mock-chat のフォームから呼ばれる）
+ * @param db MongoDB データベース接続
+ * @param liveChatId ライブチャットID
+ * @param viewer 投稿する視聴者
+ * @param message コメント本文
+ * @returns 投稿したコメント
+ */
+export async function postMockChatMessage(
+  db: Db,
+  liveChatId: string,
+  viewer: MockViewer,
+  message: string
+): Promise<MockChatMessage> {
+  const chatMessage: MockChatMessage = {
+    liveChatId,
+    authorName: viewer.authorName,
+    // 同じ名前の視聴者は同じユーザーとして扱う
+    authorId: `mock-${encodeURIComponent(viewer.authorName)}`,
+    message,
+    isChatOwner: viewer.role === 'owner',
+    isChatModerator: viewer.role === 'moderator',
+    publishedAt: new Date()
+  };
+  const result = await db.collection<MockChatMessage>('mockChatMessages').insertOne(chatMessage);
+  return { ...chatMessage, _id: result.insertedId };
+}
+
+/**
+ * ダミーのライブチャットのコメントとBOTの返信を新しい順に取得する
+ * @param db MongoDB データベース接続
+ * @param liveChatId ライブチャットID
+ * @param limit それぞれの最大件数
+ */
+export async function getMockChatLog(
+  db: Db,
+  liveChatId: string,
+  limit: number = 50
+): Promise<{ messages: MockChatMessage[]; replies: MockChatReply[] }> {
+  const [messages, replies] = await Promise.all([
+    db.collection<MockChatMessage>('mockChatMessages').find({ liveChatId }).sort({ _id: -1 }).limit(limit).toArray(),
+    db.collection<MockChatReply>('mockChatReplies').find({ liveChatId }).sort({ _id: -1 }).limit(limit).toArray()
+  ]);
+  return { messages, replies };
+}
+
+/**
+ * MongoDB に投稿されたダミーのコメントを読むチャット取得元
+ * YOUTUBE_API_KEY やライブ配信がなくても、コメント取得からコマンド実行・返信までを試せる
+ */
+export class MockChatSource implements ChatSource {
+  readonly name = 'mock' as const;
+
+  async getLiveChatId(videoId: string): Promise<string> {
+    return getMockLiveChatId(videoId);
+  }
+
+  async findLiveBroadcast(channelId: string): Promise<LiveBroadcast | null> {
+    // チャンネルごとに常に配信中のダミーの放送がある
+    const videoId = `mock-live-${channelId}`;
+    return {
+      videoId,
+      title: 'ダミーのライブ配信',
+      status: 'live',
+      liveChatId: getMockLiveChatId(videoId),
+      scheduledStartTime: null,
+      actualStartTime: null
+    };
+  }
+
+  async getBroadcastState(videoId: string): Promise<BroadcastState> {
+    // ダミーの配信は終了しない
+    return { liveChatId: getMockLiveChatId(videoId), actualEndTime: null };
+  }
+
+  async getLiveChatMessages(liveChatId: string, pageToken?: string): Promise<ChatResponse> {
+    const db = await this.getDb();
+    const query: Filter<MockChatMessage> = { liveChatId };
+    if (pageToken && ObjectId.isValid(pageToken)) {
+      query._id = { $gt: new ObjectId(pageToken) };
+    }
+
+    const messages = await db.collection<MockChatMessage>('mockChatMessages')
+      .find(query)
+      .sort({ _id: 1 })
+      .limit(MOCK_PAGE_SIZE)
+      .toArray();
+
+    // 新しいコメントがなければ、現在時刻以降のコメントから読むトークンを返す
+    const lastId = messages.length > 0
+      ? messages[messages.length - 1]._id!
+      : (pageToken && ObjectId.isValid(pageToken) ? new ObjectId(pageToken) : ObjectId.createFromTime(Math.floor(Date.now() / 1000)));
+
+    return {
+      items: messages.map(toChatItem),
+      nextPageToken: lastId.toHexString(),
+      pollingIntervalMillis: MOCK_POLLING_INTERVAL_MS
+    };
+  }
+
+  async sendChatMessage(liveChatId: string, message: string): Promise<MockChatReply> {
+    const db = await this.getDb();
+    const reply: MockChatReply = { liveChatId, message, sentAt: new Date() };
+    await db.collection<MockChatReply>('mockChatReplies').insertOne(reply);
+    console.log(`[MockChatSource] BOTの返信 (${liveChatId}): ${message}`);
+    return reply;
+  }
+
+  canSendMessages(): boolean {
+    return true;
+  }
+
+  clearNegativeCache(): void {
+    // ダミーのライブチャットは常に見つかるため、キャッシュはない
+  }
+
+  private async getDb(): Promise<Db> {
+    const client = await clientPromise;
+    return client.db('coworking');
+  }
+}
+
+/**
+ * ダミーのコメントを YouTube の liveChatMessages.list と同じ形に変換する
+ * @param message ダミーのコメント
+ */
+function toChatItem(message: MockChatMessage): ChatItem {
+  return {
+    id: `mock_${message._id!.toHexString()}`,
+    snippet: {
+      displayMessage: message.message,
+      publishedAt: message.publishedAt.toISOString(),
+      authorDisplayName: message.authorName,
+      authorChannelId: { value: message.authorId }
+    },
+    authorDetails: {
+      displayName: message.authorName,
+      profileImageUrl: '',
+      channelId: message.authorId,
+      isChatOwner: message.isChatOwner,
+      isChatModerator: message.isChatModerator
+    }
+  };
+}
@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatResponse } from '@/lib/youtubeApiClient';
+import type { BroadcastState, ChatSource, LiveBroadcast } from './types';
+
+/**
+ * 記録ファイル（JSONL）の1行
+ * - messages: liveChatMessages.list のレスポンスそのまま
+ * - reply: BOTが送信した返信（再生結果との比較用）
+ */
+export type ChatRecordingEntry =
+  | {
+      type: 'messages';
+      recordedAt: string;
+      source: ChatSource['name'];
+      liveChatId: string;
+      pageToken: string | null;
+      response: ChatResponse;
+    }
+  | {
+      type: 'reply';
+      recordedAt: string;
+      source: ChatSource['name'];
+      liveChatId: string;
+      message: string;
+    };
+
+/**
+ * ライブチャットIDごとの記録ファイルのパス
+ * @param dir 記録先ディレクトリ
+ * @param liveChatId ライブチャットID
+ */
+export function getRecordingPath(dir: string, liveChatId: string): string {
+  return path.join(dir, `${liveChatId.replace(/[^A-Za-z0-9_-]/g, '_')}.jsonl`);
+}
+
+/**
+ * 記録ファイルを読み込む（壊れた行は警告を出して読み飛ばす）
+ * @param filePath 記録ファイルのパス
+ * @returns 記録順のエントリ
+ */
+export async function readChatRecording(filePath: string): Promise<ChatRecordingEntry[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const entries: ChatRecordingEntry[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.warn(`[ChatRecorder] ${filePath}:${index + 1} を読み込めませんでした`);
+    }
+  });
+  return entries;
+}
+
+/**
+ * 取得したコメントとBOTの返信を JSONL に追記するチャット取得元
+ * 配信中の不具合を scripts/replay-chat.ts で再現するために使う（CHAT_RECORDING_DIR で有効化）
+ */
+export class RecordingChatSource implements ChatSource {
+  readonly name: ChatSource['name'];
+
+  constructor(private readonly inner: ChatSource, private readonly dir: string) {
+    this.name = inner.name;
+  }
+
+  getLiveChatId(videoId: string, forceRefresh?: boolean): Promise<string> {
+    return this.inner.getLiveChatId(videoId, forceRefresh);
+  }
+
+  async getLiveChatMessages(liveChatId: string, pageToken?: string): Promise<ChatResponse> {
+    const response = await this.inner.getLiveChatMessages(liveChatId, pageToken);
+    await this.append(liveChatId, {
+      type: 'messages',
+      recordedAt: new Date().toISOString(),
+      source: this.name,
+      liveChatId,
+      pageToken: pageToken || null,
+      response
+    });
+    return response;
+  }
+
+  async sendChatMessage(liveChatId: string, message: string): Promise<unknown> {
+    const result = await this.inner.sendChatMessage(liveChatId, message);
+    await this.append(liveChatId, {
+      type: 'reply',
+      recordedAt: new Date().toISOString(),
+      source: this.name,
+      liveChatId,
+      message
+    });
+    return result;
+  }
+
+  findLiveBroadcast(channelId: string): Promise<LiveBroadcast | null> {
+    return this.inner.findLiveBroadcast(channelId);
+  }
+
+  getBroadcastState(videoId: string): Promise<BroadcastState> {
+    return this.inner.getBroadcastState(videoId);
+  }
+
+  canSendMessages(): boolean {
+    return this.inner.canSendMessages();
+  }
+
+  clearNegativeCache(videoId: string): void {
+    this.inner.clearNegativeCache(videoId);
+  }
+
+  /**
+   * 記録ファイルに1行追記する（記録に失敗してもコメント処理は続ける）
+   */
+  private async append(liveChatId: string, entry: ChatRecordingEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.appendFile(getRecordingPath(this.dir, liveChatId), JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      console.error('[ChatRecorder] 記録ファイルへの書き込みに失敗しました:', error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { ChatResponse } from '@/lib/youtubeApiClient';
+
+/**
+ * チャットの取得元の種類
+ * - youtube: YouTube Data API（本番）
+ * - mock: MongoDB に投稿されたダミーのコメント（ローカル開発・デモ用）
+ */
+export type ChatSourceName = 'youtube' | 'mock';
+
+/**
+ * チャンネルで配信中（または配信予定）の放送
+ */
+export interface LiveBroadcast {
+  videoId: string;
+  title: string;
+  status: 'live' | 'upcoming';
+  liveChatId: string | null; // 配信予定でチャットがまだ開いていない場合はnull
+  scheduledStartTime: Date | null;
+  actualStartTime: Date | null;
+}
+
+/**
+ * 動画の配信状態（配信終了の検出に使う）
+ */
+export interface BroadcastState {
+  liveChatId: string | null; // 配信が終了してチャットが閉じた場合はnull
+  actualEndTime: Date | null; // 配信が終了した日時（配信中はnull）
+}
+
+/**
+ * ライブチャットの取得・返信を行う取得元
+ * コメント取得ワーカー・コマンド処理・自動退室はこのインターフェースだけを使う
+ */
+export interface ChatSource {
+  readonly name: ChatSourceName;
+  /**
+   * 動画IDからライブチャットIDを取得する
+   * @param videoId 動画ID
+   * @param forceRefresh キャッシュを使わずに取得するかどうか
+   */
+  getLiveChatId(videoId: string, forceRefresh?: boolean): Promise<string>;
+  /**
+   * チャンネルで配信中の放送を探す（配信中がなければ配信予定の放送）
+   * @param channelId チャンネルID
+   * @returns 見つかった放送（なければnull）
+   */
+  findLiveBroadcast(channelId: string): Promise<LiveBroadcast | null>;
+  /**
+   * 動画の配信状態を取得する（キャッシュを使わない）
+   * @param videoId 動画ID
+   */
+  getBroadcastState(videoId: string): Promise<BroadcastState>;
+  /**
+   * ライブチャットのコメントを1ページ取得する
+   * @param liveChatId ライブチャットID
+   * @param pageToken 前回のレスポンスの nextPageToken
+   */
+  getLiveChatMessages(liveChatId: string, pageToken?: string): Promise<ChatResponse>;
+  /**
+   * ライブチャットにBOTとして投稿する
+   * @param liveChatId ライブチャットID
+   * @param message 投稿するメッセージ
+   */
+  sendChatMessage(liveChatId: string, message: string): Promise<unknown>;
+  /**
+   * BOTとして投稿できるかどうか（YouTubeではOAuth設定の有無）
+   */
+  canSendMessages(): boolean;
+  /**
+   * ライブチャットが見つからなかった動画IDのキャッシュを消す
+   * @param videoId 動画ID
+   */
+  clearNegativeCache(videoId: string): void;
+}
@@ -0,0 +1,46 @@
+/**
+ * 日本語のコマンド名と正式なコマンド名の対応表
+ * 環境変数 COMMAND_ALIASES に JSON（例: {"べんきょう": "work"}）を設定すると追加・上書きできる
+ */
+export const DEFAULT_COMMAND_ALIASES: Record<string, string> = {
+  '作業': 'work',
+  '入室': 'work',
+  '勉強': 'work',
+  '終了': 'finish',
+  '退室': 'finish',
+  '休憩': 'break',
+  '再開': 'back',
+  '復帰': 'back',
+  '完了': 'done',
+  '延長': 'extend',
+  '状況': 'me',
+  '順位': 'rank',
+  '部屋': 'room',
+  '待機解除': 'leave-queue',
+  'ヘルプ': 'help',
+};
+
+/**
+ * 設定されたコマンドエイリアスを読み込む
+ * @returns エイリアスからコマンド名への対応表
+ */
+export function loadCommandAliases(): Record<string, string> {
+  const configured = process.env.COMMAND_ALIASES;
+  if (!configured) {
+    return DEFAULT_COMMAND_ALIASES;
+  }
+
+  try {
+    const parsed = JSON.parse(configured);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('オブジェクト形式で指定してください');
+    }
+    const aliases = Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+    return { ...DEFAULT_COMMAND_ALIASES, ...aliases };
+  } catch (error) {
+    console.error('[Command] COMMAND_ALIASES の読み込みに失敗しました。既定のエイリアスを使用します:', error);
+    return DEFAULT_COMMAND_ALIASES;
+  }
+}
@@ -0,0 +1,41 @@
+import type { CommandDefinition } from './types';
+
+/**
+ * /announce テキスト
+ * 画面にお知らせを表示する（モデレーター用）
+ */
+export const announceCommand: CommandDefinition = {
+  name: 'announce',
+  description: 'お知らせを投稿します',
+  permission: 'moderator',
+  args: [
+    {
+      name: 'message',
+      description: 'お知らせ',
+      required: true,
+      rest: true,
+      maxLength: 200,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId, profileImageUrl } = context;
+
+    console.log(`[Command] /announce command execution: ${username} - ${args.message}`);
+
+    // announcements への追加は SSE でお知らせとして配信される
+    await db.collection('announcements').insertOne({
+      message: args.message,
+      authorChannelId: authorId,
+      authorName: username,
+      profileImageUrl,
+      publishedAt: new Date(),
+      createdAt: new Date(),
+    });
+
+    return {
+      success: true,
+      action: 'none',
+      message: 'お知らせを投稿しました'
+    };
+  },
+};
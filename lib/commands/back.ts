@@ -0,0 +1,59 @@
+import { messageTemplates } from '@/lib/messages';
+import { formatRemainingTime } from '@/lib/autoExit';
+import { endBreak } from '@/lib/seatBreaks';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import type { CommandDefinition } from './types';
+
+/**
+ * /back
+ * 休憩から作業に戻る
+ */
+export const backCommand: CommandDefinition = {
+  name: 'back',
+  aliases: ['resume'],
+  description: '休憩から作業に戻ります',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /back command execution: ${username}`);
+
+    const userQuery = authorId ? { authorId } : { username };
+    const seat = await db.collection('seats').findOne(userQuery);
+
+    if (!seat) {
+      console.log(`[Command] ${username} was not seated`);
+      return {
+        success: true,
+        action: 'none',
+        message: 'ユーザーは入室していませんでした'
+      };
+    }
+
+    const breakMs = await endBreak(db, seat);
+    if (breakMs === null) {
+      return {
+        success: true,
+        action: 'none',
+        message: '休憩中ではありません'
+      };
+    }
+
+    const breakDuration = formatRemainingTime(breakMs);
+    await context.reply(messageTemplates.breakEnded(username, breakDuration));
+    await context.saveSystemMessage(`${username}さんが休憩から戻りました（休憩: ${breakDuration}）`, 'info');
+
+    return {
+      success: true,
+      action: 'back',
+      seat: {
+        roomId: seat.room_id || DEFAULT_ROOM_ID,
+        position: seat.position,
+        username: username,
+        task: seat.task,
+        id: seat._id.toString()
+      }
+    };
+  },
+};
@@ -0,0 +1,57 @@
+import { messageTemplates } from '@/lib/messages';
+import { startBreak } from '@/lib/seatBreaks';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import type { CommandDefinition } from './types';
+
+/**
+ * /break
+ * 座席を確保したまま休憩する（自動退室のカウントダウンも一時停止する）
+ */
+export const breakCommand: CommandDefinition = {
+  name: 'break',
+  aliases: ['rest'],
+  description: '座席を確保したまま休憩します',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /break command execution: ${username}`);
+
+    const userQuery = authorId ? { authorId } : { username };
+    const seat = await db.collection('seats').findOne(userQuery);
+
+    if (!seat) {
+      console.log(`[Command] ${username} was not seated`);
+      return {
+        success: true,
+        action: 'none',
+        message: 'ユーザーは入室していませんでした'
+      };
+    }
+
+    const started = await startBreak(db, seat);
+    if (!started) {
+      return {
+        success: true,
+        action: 'none',
+        message: '既に休憩中です'
+      };
+    }
+
+    await context.reply(messageTemplates.breakStarted(username), { kind: 'breakStarted', username });
+    await context.saveSystemMessage(`${username}さんが休憩に入りました`, 'info');
+
+    return {
+      success: true,
+      action: 'break',
+      seat: {
+        roomId: seat.room_id || DEFAULT_ROOM_ID,
+        position: seat.position,
+        username: username,
+        task: seat.task,
+        id: seat._id.toString()
+      }
+    };
+  },
+};
@@ -0,0 +1,32 @@
+import { messageTemplates } from '@/lib/messages';
+import { vacateSeats } from '@/lib/seats';
+import { clearQueue } from '@/lib/seatQueue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /clearall
+ * すべての部屋の座席と待機列をリセットする（管理者用）
+ */
+export const clearAllCommand: CommandDefinition = {
+  name: 'clearall',
+  description: 'すべての座席と待機列をリセットします',
+  permission: 'admin',
+  args: [],
+  handler: async (context) => {
+    const { db, username } = context;
+
+    console.log(`[Command] /clearall command execution: ${username}`);
+
+    const vacated = await vacateSeats(db, {}, 'cleared');
+    const dequeued = await clearQueue(db);
+
+    await context.reply(messageTemplates.allSeatsCleared(vacated.length));
+    await context.saveSystemMessage(`すべての座席をリセットしました（${vacated.length}人が退室、待機列${dequeued}人を解除）`, 'warning');
+
+    return {
+      success: true,
+      action: 'none',
+      message: `${vacated.length}件の座席をリセットしました`
+    };
+  },
+};
@@ -0,0 +1,91 @@
+import { messageTemplates } from '@/lib/messages';
+import { findRoom, getDefaultRoom, roomSeatQuery, setRoomClosed } from '@/lib/rooms';
+import { vacateSeats } from '@/lib/seats';
+import { clearQueue } from '@/lib/seatQueue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /closeroom [部屋名]
+ * 部屋の受付を停止し、着席中のユーザーと待機列をすべて退室させる（モデレーター用）
+ */
+export const closeRoomCommand: CommandDefinition = {
+  name: 'closeroom',
+  description: '部屋の受付を終了し、全員を退室させます',
+  permission: 'moderator',
+  args: [
+    {
+      name: 'room',
+      description: '部屋名',
+      rest: true,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username } = context;
+
+    console.log(`[Command] /closeroom command execution: ${username}${args.room ? ` - Room: ${args.room}` : ''}`);
+
+    const room = args.room ? await findRoom(db, args.room) : await getDefaultRoom(db);
+    if (!room) {
+      return {
+        success: false,
+        action: 'none',
+        error: `部屋「${args.room}」が見つかりません`
+      };
+    }
+
+    // 先に受付を止めてから退室させ、途中で入室・待機列からの着席が起きないようにする
+    await setRoomClosed(db, room.roomId, true);
+    const vacated = await vacateSeats(db, roomSeatQuery(room.roomId), 'room-closed');
+    await clearQueue(db, room.roomId);
+
+    await context.reply(messageTemplates.roomClosed(room.name, vacated.length));
+    await context.saveSystemMessage(`${room.name}の受付を終了しました（${vacated.length}人が退室）`, 'warning');
+
+    return {
+      success: true,
+      action: 'none',
+      message: `${room.name}を閉じました`
+    };
+  },
+};
+
+/**
+ * /openroom [部屋名]
+ * /closeroom で停止した部屋の受付を再開する（モデレーター用）
+ */
+export const openRoomCommand: CommandDefinition = {
+  name: 'openroom',
+  description: '部屋の受付を再開します',
+  permission: 'moderator',
+  args: [
+    {
+      name: 'room',
+      description: '部屋名',
+      rest: true,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username } = context;
+
+    console.log(`[Command] /openroom command execution: ${username}${args.room ? ` - Room: ${args.room}` : ''}`);
+
+    const room = args.room ? await findRoom(db, args.room) : await getDefaultRoom(db);
+    if (!room) {
+      return {
+        success: false,
+        action: 'none',
+        error: `部屋「${args.room}」が見つかりません`
+      };
+    }
+
+    await setRoomClosed(db, room.roomId, false);
+    await context.reply(messageTemplates.roomOpened(room.name));
+    await context.saveSystemMessage(`${room.name}の受付を再開しました`, 'info');
+
+    return {
+      success: true,
+      action: 'none',
+      message: `${room.name}を開きました`
+    };
+  },
+};
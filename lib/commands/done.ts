@@ -0,0 +1,64 @@
+import { messageTemplates } from '@/lib/messages';
+import { countCompletedTasks, completeCurrentTask } from '@/lib/seatTasks';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import type { CommandDefinition } from './types';
+
+/**
+ * /done [次のタスク名]
+ * 座席に着いたまま、取り組み中のタスクを完了にする
+ */
+export const doneCommand: CommandDefinition = {
+  name: 'done',
+  description: '取り組み中のタスクを完了にします（次のタスク名を指定すると続けて開始します）',
+  permission: 'viewer',
+  args: [
+    {
+      name: 'task',
+      description: '次のタスク名',
+      rest: true,
+      maxLength: 50,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /done command execution: ${username}${args.task ? ` - Next: ${args.task}` : ''}`);
+
+    const userQuery = authorId ? { authorId } : { username };
+    const seat = await db.collection('seats').findOne(userQuery);
+
+    if (!seat) {
+      console.log(`[Command] ${username} was not seated`);
+      return {
+        success: true,
+        action: 'none',
+        message: 'ユーザーは入室していませんでした'
+      };
+    }
+
+    const completed = await completeCurrentTask(db, seat, args.task);
+    if (!completed) {
+      return {
+        success: true,
+        action: 'none',
+        message: '取り組み中のタスクがありません。/work タスク名 で開始してください'
+      };
+    }
+
+    const completedCount = countCompletedTasks(seat) + 1;
+    await context.reply(messageTemplates.taskCompleted(username, completed.name, completedCount, args.task));
+    await context.saveSystemMessage(`${username}さんが「${completed.name}」を完了しました（${completedCount}個目）`, 'info');
+
+    return {
+      success: true,
+      action: 'update',
+      seat: {
+        roomId: seat.room_id || DEFAULT_ROOM_ID,
+        position: seat.position,
+        username: username,
+        task: args.task || null,
+        id: seat._id.toString()
+      }
+    };
+  },
+};
@@ -0,0 +1,115 @@
+import { messageTemplates } from '@/lib/messages';
+import {
+  DEFAULT_EXTEND_MINUTES,
+  MAX_STAY_HOURS,
+  extendAutoExit,
+  formatRemainingTime,
+} from '@/lib/autoExit';
+import { DEFAULT_ROOM_ID } from '@/lib/rooms';
+import { findActiveSeatsByUsername } from '@/lib/seats';
+import { hasPermission } from './registry';
+import type { CommandDefinition } from './types';
+
+/**
+ * /extend [@ユーザー名] [分]
+ * 自分の自動退室時間を延長する（ユーザー名の指定はモデレーターのみ）
+ */
+export const extendCommand: CommandDefinition = {
+  name: 'extend',
+  description: '自動退室までの時間を延長します',
+  permission: 'viewer',
+  args: [
+    {
+      name: 'target',
+      description: 'ユーザー名',
+      prefix: '@',
+    },
+    {
+      name: 'minutes',
+      description: '分',
+      defaultValue: String(DEFAULT_EXTEND_MINUTES),
+      pattern: /^\d{1,3}$/,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId } = context;
+    const minutes = parseInt(args.minutes, 10);
+
+    console.log(`[Command] /extend command execution: ${username} - ${minutes} minutes${args.target ? ` - Target: ${args.target}` : ''}`);
+
+    if (!minutes || minutes <= 0) {
+      return {
+        success: false,
+        action: 'none',
+        error: '延長時間は1分以上で指定してください'
+      };
+    }
+
+    // 他のユーザーの延長はモデレーターのみ
+    if (args.target && !hasPermission(context.permission, 'moderator')) {
+      return {
+        success: false,
+        action: 'none',
+        error: '他のユーザーの延長はモデレーターのみ実行できます'
+      };
+    }
+
+    const userQuery = authorId ? { authorId } : { username };
+    let seat = args.target ? null : await db.collection('seats').findOne(userQuery);
+    if (args.target) {
+      const matches = await findActiveSeatsByUsername(db, args.target);
+      if (matches.length > 1) {
+        await context.reply(messageTemplates.usernameAmbiguous(username, args.target));
+        return {
+          success: false,
+          action: 'none',
+          error: `${args.target}という名前のユーザーが複数入室しています`
+        };
+      }
+      seat = matches[0] || null;
+    }
+
+    if (!seat) {
+      console.log(`[Command] ${args.target || username} was not seated`);
+      return {
+        success: true,
+        action: 'none',
+        message: 'ユーザーは入室していませんでした'
+      };
+    }
+    const targetName: string = seat.username;
+
+    const result = await extendAutoExit(db, seat, minutes);
+
+    if (!result.success || !result.autoExitScheduled || !result.extendedMinutes) {
+      if (result.limitReached) {
+        await context.reply(messageTemplates.extendLimitReached(targetName, MAX_STAY_HOURS));
+        await context.saveSystemMessage(`${targetName}さんは滞在時間の上限に達しているため延長できませんでした`, 'warning');
+      }
+      return {
+        success: false,
+        action: 'none',
+        error: result.error || '自動退室時間の延長に失敗しました'
+      };
+    }
+
+    const remaining = formatRemainingTime(result.autoExitScheduled.getTime() - Date.now());
+    await context.reply(messageTemplates.autoExitExtended(targetName, result.extendedMinutes, remaining));
+    await context.saveSystemMessage(`${targetName}さんの滞在を${result.extendedMinutes}分延長しました（残り${remaining}）`, 'info');
+
+    return {
+      success: true,
+      action: 'update',
+      seat: {
+        roomId: seat.room_id || DEFAULT_ROOM_ID,
+        position: seat.position,
+        username: targetName,
+        task: seat.task,
+        id: seat._id.toString()
+      },
+      message: result.limitReached
+        ? `滞在時間の上限（${MAX_STAY_HOURS}時間）までの${result.extendedMinutes}分だけ延長しました`
+        : undefined
+    };
+  },
+};
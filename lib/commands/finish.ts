@@ -0,0 +1,77 @@
+import { messageTemplates } from '@/lib/messages';
+import { DEFAULT_ROOM_ID, findRoom } from '@/lib/rooms';
+import { leaveQueue } from '@/lib/seatQueue';
+import { endSeatSession } from '@/lib/sessions';
+import { seatWaitingUsers } from './queue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /finish
+ * 退室
+ */
+export const finishCommand: CommandDefinition = {
+  name: 'finish',
+  aliases: ['exit'],
+  description: '退室します',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /finish command execution: ${username}`);
+
+    // ユーザーIDかユーザー名で着席中の座席を検索
+    const userQuery = authorId ? { authorId } : { username };
+
+    try {
+      // 座席を空けて、休憩・タスクを退室時刻で確定させた滞在を記録する
+      const seat = await db.collection('seats').findOne(userQuery);
+      const ended = seat ? await endSeatSession(db, seat._id, 'finished') : null;
+
+      if (!ended) {
+        // 待機列に並んでいる場合は待機をキャンセルする
+        const queuedRoomId = await leaveQueue(db, authorId ? { authorId } : { username });
+        if (queuedRoomId) {
+          const queuedRoom = await findRoom(db, queuedRoomId);
+          await context.reply(messageTemplates.queueLeft(username, queuedRoom?.name || queuedRoomId));
+          return {
+            success: true,
+            action: 'none',
+            message: '待機列から抜けました'
+          };
+        }
+
+        console.log(`[Command] ${username} was not seated`);
+        // 入室していない場合は特に何もしない
+        return {
+          success: true,
+          action: 'none',
+          message: 'ユーザーは入室していませんでした'
+        };
+      }
+
+      console.log(`[Command] ${username} has left the seat`);
+
+      const roomId = ended.session.room_id || DEFAULT_ROOM_ID;
+      const room = await findRoom(db, roomId);
+      await context.reply(messageTemplates.seatVacated(username, room?.name || roomId, ended.session.position), { kind: 'seatVacated', username });
+      await context.saveSystemMessage(`${username}さんが退室しました`, 'info');
+
+      // 空いた座席に待機列の先頭のユーザーを着席させる
+      await seatWaitingUsers(context, roomId);
+
+      return {
+        success: true,
+        action: 'exit',
+        seat: {
+          roomId,
+          position: ended.session.position,
+          previousUsername: username
+        }
+      };
+    } catch (error) {
+      console.error(`[Command] Error while processing exit for ${username}:`, error);
+      throw new Error('退室処理に失敗しました: ' + (error as Error).message);
+    }
+  },
+};
@@ -0,0 +1,25 @@
+import { commandRegistry } from '@/lib/commands';
+import { MAX_MESSAGE_LENGTH } from '@/lib/chatOutbox';
+import { splitHelpMessages } from './help';
+
+describe('splitHelpMessages', () => {
+  it.each(['viewer', 'moderator', 'admin'] as const)('%s のヘルプをチャットの最大文字数以内に分ける', permission => {
+    const lines = commandRegistry.getHelpLines(permission);
+    const messages = splitHelpMessages(lines);
+
+    expect(messages.length).toBeGreaterThan(1);
+    messages.forEach(message => expect(message.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH));
+    // すべての行が順番どおりに含まれる
+    expect(messages.join(' / ').replace(/📖 コマンド一覧: /g, '')).toBe(lines.join(' / '));
+  });
+
+  it('1件に収まる場合は1件にまとめる', () => {
+    expect(splitHelpMessages(['/a … A', '/b … B'])).toEqual(['📖 コマンド一覧: /a … A / /b … B']);
+  });
+
+  it('最大文字数を超える1行は切り詰める', () => {
+    const [message] = splitHelpMessages(['x'.repeat(300)], 50);
+    expect(message).toHaveLength(50);
+    expect(message.endsWith('…')).toBe(true);
+  });
+});
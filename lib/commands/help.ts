@@ -0,0 +1,58 @@
+import type { CommandDefinition } from './types';
+import type { CommandRegistry } from './registry';
+import { MAX_MESSAGE_LENGTH } from '@/lib/chatOutbox';
+
+const HELP_HEADER = '📖 コマンド一覧: ';
+const HELP_SEPARATOR = ' / ';
+
+/**
+ * /help
+ * 実行者が使えるコマンドの一覧を返信する
+ * @param registry ヘルプ対象のコマンドを保持するレジストリ
+ */
+export function createHelpCommand(registry: CommandRegistry): CommandDefinition {
+  return {
+    name: 'help',
+    aliases: ['commands'],
+    description: '使えるコマンドの一覧を表示します',
+    permission: 'viewer',
+    args: [],
+    handler: async (context) => {
+      const lines = registry.getHelpLines(context.permission);
+      // YouTube のチャットの最大文字数を超えると送信できないため、複数の返信に分ける
+      for (const message of splitHelpMessages(lines)) {
+        await context.reply(message);
+      }
+
+      return {
+        success: true,
+        action: 'none',
+        message: lines.join('\n')
+      };
+    },
+  };
+}
+
+/**
+ * ヘルプの各行を、チャットの最大文字数に収まる返信にまとめる
+ * 1行だけで最大文字数を超える場合は、その行を切り詰める
+ * @param lines コマンドごとの説明行
+ * @param maxLength 1件の返信の最大文字数
+ * @returns 返信する本文（送信順）
+ */
+export function splitHelpMessages(lines: string[], maxLength: number = MAX_MESSAGE_LENGTH): string[] {
+  const messages: string[] = [];
+  let current = '';
+
+  for (const line of lines) {
+    if (current && current.length + HELP_SEPARATOR.length + line.length > maxLength) {
+      messages.push(current);
+      current = '';
+    }
+    const next = current ? `${current}${HELP_SEPARATOR}${line}` : `${HELP_HEADER}${line}`;
+    current = next.length > maxLength ? `${next.substring(0, maxLength - 1)}…` : next;
+  }
+  if (current) messages.push(current);
+
+  return messages;
+}
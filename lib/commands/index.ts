@@ -0,0 +1,70 @@
+import { CommandRegistry } from './registry';
+import { workCommand } from './work';
+import { finishCommand } from './finish';
+import { breakCommand } from './break';
+import { backCommand } from './back';
+import { doneCommand } from './done';
+import { extendCommand } from './extend';
+import { meCommand } from './me';
+import { rankCommand } from './rank';
+import { roomCommand } from './room';
+import { leaveQueueCommand } from './leaveQueue';
+import { kickCommand } from './kick';
+import { announceCommand } from './announce';
+import { pinCommand } from './pin';
+import { closeRoomCommand, openRoomCommand } from './closeRoom';
+import { clearAllCommand } from './clearAll';
+import { createHelpCommand } from './help';
+import { loadCommandAliases } from './aliases';
+import type { ParsedCommand } from './types';
+
+/**
+ * 組み込みコマンドを登録したデフォルトのレジストリ
+ * 新しいチャットコマンドはここに登録するだけで検出・実行・ヘルプに反映される
+ */
+export const commandRegistry = new CommandRegistry();
+commandRegistry.register(workCommand);
+commandRegistry.register(finishCommand);
+commandRegistry.register(breakCommand);
+commandRegistry.register(backCommand);
+commandRegistry.register(doneCommand);
+commandRegistry.register(extendCommand);
+commandRegistry.register(meCommand);
+commandRegistry.register(rankCommand);
+commandRegistry.register(roomCommand);
+commandRegistry.register(leaveQueueCommand);
+commandRegistry.register(kickCommand);
+commandRegistry.register(announceCommand);
+commandRegistry.register(pinCommand);
+commandRegistry.register(closeRoomCommand);
+commandRegistry.register(openRoomCommand);
+commandRegistry.register(clearAllCommand);
+commandRegistry.register(createHelpCommand(commandRegistry));
+
+// 日本語エイリアス（/作業, /終了 など）を登録する。設定の誤りで起動できなくならないよう警告に留める
+for (const [alias, commandName] of Object.entries(loadCommandAliases())) {
+  try {
+    commandRegistry.addAlias(alias, commandName);
+  } catch (error) {
+    console.warn(`[Command] エイリアス「${alias}」を登録できませんでした:`, (error as Error).message);
+  }
+}
+
+/**
+ * コメントからコマンドを検出する関数
+ * @param commentText コメントテキスト
+ * @returns コマンド名と解析済みの引数（コマンドでない場合は command: null）
+ */
+export function detectCommand(commentText: string): ParsedCommand {
+  return commandRegistry.parse(commentText);
+}
+
+export { CommandRegistry, formatUsage, hasPermission } from './registry';
+export { resolveChatPermission } from './permissions';
+export type {
+  CommandArgument,
+  CommandContext,
+  CommandDefinition,
+  CommandPermission,
+  ParsedCommand,
+} from './types';
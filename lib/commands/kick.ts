@@ -0,0 +1,72 @@
+import { messageTemplates } from '@/lib/messages';
+import { DEFAULT_ROOM_ID, findRoom } from '@/lib/rooms';
+import { findActiveSeatsByUsername, vacateSeats } from '@/lib/seats';
+import { seatWaitingUsers } from './queue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /kick @ユーザー名
+ * 指定したユーザーを退室させる（モデレーター用）
+ */
+export const kickCommand: CommandDefinition = {
+  name: 'kick',
+  description: '指定したユーザーを退室させます',
+  permission: 'moderator',
+  args: [
+    {
+      name: 'target',
+      description: '@ユーザー名',
+      required: true,
+      rest: true,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username } = context;
+
+    console.log(`[Command] /kick command execution: ${username} - Target: ${args.target}`);
+
+    const [seat, ...others] = await findActiveSeatsByUsername(db, args.target);
+    if (!seat) {
+      return {
+        success: false,
+        action: 'none',
+        error: `${args.target}さんは入室していません`
+      };
+    }
+    if (others.length > 0) {
+      await context.reply(messageTemplates.usernameAmbiguous(username, args.target));
+      return {
+        success: false,
+        action: 'none',
+        error: `${args.target}という名前のユーザーが複数入室しています`
+      };
+    }
+
+    const [vacated] = await vacateSeats(db, { _id: seat._id }, 'kicked');
+    if (!vacated) {
+      return {
+        success: true,
+        action: 'none',
+        message: `${seat.username}さんは既に退室していました`
+      };
+    }
+
+    const roomId = seat.room_id || DEFAULT_ROOM_ID;
+    const room = await findRoom(db, roomId);
+    await context.reply(messageTemplates.seatKicked(seat.username, room?.name || roomId));
+    await context.saveSystemMessage(`${seat.username}さんがモデレーターにより退室しました`, 'warning');
+
+    // 空いた座席に待機列の先頭のユーザーを着席させる
+    await seatWaitingUsers(context, roomId);
+
+    return {
+      success: true,
+      action: 'exit',
+      seat: {
+        roomId,
+        position: seat.position,
+        previousUsername: seat.username
+      }
+    };
+  },
+};
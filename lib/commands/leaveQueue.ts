@@ -0,0 +1,42 @@
+import { messageTemplates } from '@/lib/messages';
+import { findRoom } from '@/lib/rooms';
+import { leaveQueue } from '@/lib/seatQueue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /leave-queue
+ * 満席の部屋の待機列から抜ける
+ */
+export const leaveQueueCommand: CommandDefinition = {
+  name: 'leave-queue',
+  description: '待機列から抜けます',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /leave-queue command execution: ${username}`);
+
+    const userQuery = authorId ? { authorId } : { username };
+    const roomId = await leaveQueue(db, userQuery);
+
+    if (!roomId) {
+      console.log(`[Command] ${username} was not in the queue`);
+      return {
+        success: true,
+        action: 'none',
+        message: '待機列に並んでいません'
+      };
+    }
+
+    const room = await findRoom(db, roomId);
+    await context.reply(messageTemplates.queueLeft(username, room?.name || roomId));
+    await context.saveSystemMessage(`${username}さんが待機列から抜けました`, 'info');
+
+    return {
+      success: true,
+      action: 'none',
+      message: `${room?.name || roomId}の待機列から抜けました`
+    };
+  },
+};
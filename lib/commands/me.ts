@@ -0,0 +1,69 @@
+import { messageTemplates } from '@/lib/messages';
+import { formatRemainingTime } from '@/lib/autoExit';
+import { getSessionWorkMs, getUserStudyStats } from '@/lib/userStats';
+import type { CommandDefinition } from './types';
+
+/**
+ * 0分の場合も表示できるように時間をフォーマットする
+ * @param milliseconds ミリ秒
+ * @returns フォーマットされた時間文字列
+ */
+function formatDuration(milliseconds: number): string {
+  return milliseconds > 0 ? formatRemainingTime(milliseconds) : '0分';
+}
+
+/**
+ * /me
+ * 自分の現在の作業状況をチャットに返信する
+ */
+export const meCommand: CommandDefinition = {
+  name: 'me',
+  aliases: ['status'],
+  description: '自分の作業状況を表示します',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+    const now = new Date();
+
+    console.log(`[Command] /me command execution: ${username}`);
+
+    const userQuery = authorId ? { authorId } : { username };
+    const [seat, stats] = await Promise.all([
+      db.collection('seats').findOne(userQuery),
+      getUserStudyStats(db, userQuery, now)
+    ]);
+
+    const todayTotal = formatDuration(stats.todayMs);
+    let message: string;
+    if (seat) {
+      const remaining = seat.breakStartedAt
+        ? '（休憩中のため停止中）'
+        : seat.autoExitScheduled
+          ? formatRemainingTime(new Date(seat.autoExitScheduled).getTime() - now.getTime())
+          : '未設定';
+      message = messageTemplates.status(username, {
+        task: seat.task || '作業中',
+        elapsed: formatDuration(getSessionWorkMs(seat, now)),
+        remaining,
+        todayTotal,
+        streakDays: stats.streakDays
+      });
+    } else {
+      message = messageTemplates.statusNotSeated(username, todayTotal, stats.streakDays);
+    }
+
+    if (context.canReply) {
+      await context.reply(message);
+    } else {
+      // OAuth未設定時は画面上の通知で本人宛てに表示する
+      await context.saveSystemMessage(`@${username} ${message}`, 'info');
+    }
+
+    return {
+      success: true,
+      action: 'none',
+      message
+    };
+  },
+};
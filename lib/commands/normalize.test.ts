@@ -0,0 +1,28 @@
+import { normalizeCommentText, stripTrailingSymbols } from './normalize';
+
+describe('normalizeCommentText', () => {
+  it('全角スラッシュ・全角英数字・全角スペースを半角にする', () => {
+    expect(normalizeCommentText('／ｗｏｒｋ　数学')).toBe('/work 数学');
+  });
+
+  it('NFKC で "/" にならないスラッシュも先頭なら "/" にする', () => {
+    expect(normalizeCommentText('∕work')).toBe('/work');
+    expect(normalizeCommentText('⧸work')).toBe('/work');
+  });
+
+  it('表示されない文字と前後の空白を取り除く', () => {
+    expect(normalizeCommentText('  \u200B/fin\u200Dish\uFEFF  ')).toBe('/finish');
+  });
+});
+
+describe('stripTrailingSymbols', () => {
+  it('コマンド名の末尾の記号や絵文字を取り除く', () => {
+    expect(stripTrailingSymbols('finish👋')).toBe('finish');
+    expect(stripTrailingSymbols('終了！')).toBe('終了');
+    expect(stripTrailingSymbols('leave-queue!!')).toBe('leave-queue');
+  });
+
+  it('記号がなければそのまま返す', () => {
+    expect(stripTrailingSymbols('work')).toBe('work');
+  });
+});
@@ -0,0 +1,29 @@
+// コマンドの先頭として扱うスラッシュ（NFKC で "/" にならない記号も含める）
+const SLASH_VARIANTS = /^[/\u2215\u2044\u29F8]/;
+// 表示されない文字（ゼロ幅スペース・BOMなど）
+const INVISIBLE_CHARS = /[\u200B-\u200D\u2060\uFEFF]/g;
+// コマンド名の直後に続く記号・絵文字（例: "/終了！", "/finish👋"）
+const TRAILING_SYMBOLS = /[^\p{L}\p{N}_-]+$/u;
+
+/**
+ * コメントテキストをコマンド解析用に正規化する
+ * 全角英数字・全角スラッシュ・全角スペースなどを NFKC で半角に揃え、表示されない文字を取り除く
+ * @param commentText コメントテキスト
+ * @returns 正規化したテキスト
+ */
+export function normalizeCommentText(commentText: string): string {
+  return commentText
+    .normalize('NFKC')
+    .replace(INVISIBLE_CHARS, '')
+    .trim()
+    .replace(SLASH_VARIANTS, '/');
+}
+
+/**
+ * コマンド名のトークンから末尾の記号や絵文字を取り除く
+ * @param head コマンド名のトークン（先頭の / を除いたもの）
+ * @returns 記号を取り除いたコマンド名
+ */
+export function stripTrailingSymbols(head: string): string {
+  return head.replace(TRAILING_SYMBOLS, '');
+}
@@ -0,0 +1,23 @@
+import type { Author } from '@/lib/youtubeApiClient';
+import type { CommandPermission } from './types';
+
+/**
+ * チャット投稿者の権限を判定する
+ * 運営者チャンネル（ADMIN_YOUTUBE_CHANNEL_ID）と配信のオーナーは admin、チャットのモデレーターは moderator になる
+ * @param authorId 投稿者のチャンネルID
+ * @param authorDetails YouTube API の authorDetails
+ * @returns 投稿者の権限
+ */
+export function resolveChatPermission(
+  authorId: string,
+  authorDetails?: Partial<Author> | null
+): CommandPermission {
+  const adminChannelId = process.env.ADMIN_YOUTUBE_CHANNEL_ID;
+  if ((adminChannelId && authorId === adminChannelId) || authorDetails?.isChatOwner) {
+    return 'admin';
+  }
+  if (authorDetails?.isChatModerator) {
+    return 'moderator';
+  }
+  return 'viewer';
+}
@@ -0,0 +1,53 @@
+import type { CommandDefinition } from './types';
+
+/**
+ * /pin [テキスト]
+ * お知らせを画面に固定表示する。テキストを省略した場合は固定を解除する（モデレーター用）
+ */
+export const pinCommand: CommandDefinition = {
+  name: 'pin',
+  description: 'お知らせを固定表示します（テキスト省略で解除）',
+  permission: 'moderator',
+  args: [
+    {
+      name: 'message',
+      description: 'お知らせ',
+      rest: true,
+      maxLength: 200,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId, profileImageUrl } = context;
+    const announcementsCollection = db.collection('announcements');
+
+    console.log(`[Command] /pin command execution: ${username}${args.message ? ` - ${args.message}` : ' (unpin)'}`);
+
+    // 固定表示できるお知らせは1件だけ
+    await announcementsCollection.updateMany({ pinned: true }, { $set: { pinned: false } });
+
+    if (!args.message) {
+      await context.saveSystemMessage('固定表示のお知らせを解除しました', 'info');
+      return {
+        success: true,
+        action: 'none',
+        message: '固定表示を解除しました'
+      };
+    }
+
+    await announcementsCollection.insertOne({
+      message: args.message,
+      authorChannelId: authorId,
+      authorName: username,
+      profileImageUrl,
+      pinned: true,
+      publishedAt: new Date(),
+      createdAt: new Date(),
+    });
+
+    return {
+      success: true,
+      action: 'none',
+      message: 'お知らせを固定表示しました'
+    };
+  },
+};
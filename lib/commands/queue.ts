@@ -0,0 +1,22 @@
+import { messageTemplates } from '@/lib/messages';
+import { promoteFromQueue, PromotedEntry } from '@/lib/seatQueue';
+import type { CommandContext } from './types';
+
+/**
+ * 座席が空いた部屋の待機列を進め、着席したユーザーをチャットと画面に通知する
+ * @param context コマンド実行コンテキスト
+ * @param roomId 座席が空いた部屋ID
+ * @returns 待機列から着席したユーザーの一覧
+ */
+export async function seatWaitingUsers(context: CommandContext, roomId: string): Promise<PromotedEntry[]> {
+  const promoted = await promoteFromQueue(context.db, roomId);
+  for (const entry of promoted) {
+    await context.reply(
+      messageTemplates.queuePromoted(entry.username, entry.roomName, entry.position),
+      { kind: 'queuePromoted', username: entry.username },
+      entry.liveChatId
+    );
+    await context.saveSystemMessage(`${entry.username}さんが待機列から${entry.roomName}に入室しました`, 'info');
+  }
+  return promoted;
+}
@@ -0,0 +1,51 @@
+import { messageTemplates } from '@/lib/messages';
+import { formatRemainingTime } from '@/lib/autoExit';
+import { getUserRanks, LEADERBOARD_PERIODS } from '@/lib/leaderboard';
+import type { UserRankSummary } from '@/lib/messages';
+import type { CommandDefinition } from './types';
+
+/**
+ * /rank
+ * 自分の今日・今週・今月の作業時間の順位をチャットに返信する
+ */
+export const rankCommand: CommandDefinition = {
+  name: 'rank',
+  aliases: ['ranking'],
+  description: '自分の作業時間の順位を表示します',
+  permission: 'viewer',
+  args: [],
+  handler: async (context) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /rank command execution: ${username}`);
+
+    const ranks = await getUserRanks(db, { authorId, username });
+
+    let message: string;
+    if (LEADERBOARD_PERIODS.every(period => !ranks[period].entry)) {
+      message = messageTemplates.rankNotFound(username);
+    } else {
+      const summary = {} as UserRankSummary;
+      for (const period of LEADERBOARD_PERIODS) {
+        const { entry, participantCount } = ranks[period];
+        summary[period] = entry
+          ? `${entry.rank}位/${participantCount}人（${formatRemainingTime(entry.workMs)}）`
+          : '記録なし';
+      }
+      message = messageTemplates.rank(username, summary);
+    }
+
+    if (context.canReply) {
+      await context.reply(message);
+    } else {
+      // OAuth未設定時は画面上の通知で本人宛てに表示する
+      await context.saveSystemMessage(`@${username} ${message}`, 'info');
+    }
+
+    return {
+      success: true,
+      action: 'none',
+      message
+    };
+  },
+};
@@ -0,0 +1,152 @@
+import { detectCommand } from '@/lib/commands';
+import { CommandRegistry, hasPermission } from './registry';
+import type { CommandDefinition } from './types';
+
+function defineCommand(definition: Partial<CommandDefinition> & { name: string }): CommandDefinition {
+  return {
+    description: definition.name,
+    permission: 'viewer',
+    args: [],
+    handler: async () => ({ success: true, action: 'none' }),
+    ...definition,
+  };
+}
+
+function createRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+  registry.register(defineCommand({
+    name: 'work',
+    aliases: ['w'],
+    args: [{ name: 'task', description: 'タスク名', rest: true, defaultValue: '作業中', maxLength: 10 }],
+  }));
+  registry.register(defineCommand({
+    name: 'extend',
+    args: [{ name: 'minutes', description: '分', pattern: /^\d{1,3}$/ }],
+  }));
+  registry.register(defineCommand({
+    name: 'kick',
+    permission: 'moderator',
+    args: [{ name: 'target', description: '@ユーザー名', required: true, rest: true }],
+  }));
+  return registry;
+}
+
+describe('CommandRegistry.parse', () => {
+  const registry = createRegistry();
+
+  it('コマンド名と残りのテキストの引数を取り出す', () => {
+    expect(registry.parse('/work 数学の 宿題')).toEqual({ command: 'work', args: { task: '数学の 宿題' } });
+  });
+
+  it('エイリアスと大文字のコマンド名を正式なコマンド名に解決する', () => {
+    expect(registry.parse('/w 英語').command).toBe('work');
+    expect(registry.parse('/WORK').command).toBe('work');
+  });
+
+  it('引数を省略した場合はデフォルト値を使う', () => {
+    expect(registry.parse('/work')).toEqual({ command: 'work', args: { task: '作業中' } });
+  });
+
+  it('最大文字数を超える引数は切り詰める', () => {
+    expect(registry.parse('/work abcdefghijklmn').args.task).toBe('abcdefghij');
+  });
+
+  it('コマンドでないコメントや未登録のコマンドは command: null にする', () => {
+    expect(registry.parse('こんにちは')).toEqual({ command: null, args: {} });
+    expect(registry.parse('/unknown')).toEqual({ command: null, args: {} });
+  });
+
+  it('引数の形式が正しくない場合はエラーを返す', () => {
+    expect(registry.parse('/extend abc')).toEqual({
+      command: 'extend',
+      args: {},
+      error: '引数「minutes」の形式が正しくありません (/extend [分])',
+    });
+  });
+
+  it('必須の引数がない場合はエラーを返す', () => {
+    expect(registry.parse('/kick').error).toBe('引数「target」が指定されていません (/kick <@ユーザー名>)');
+  });
+});
+
+describe('detectCommand', () => {
+  it('コマンド名と残りのテキストの引数を取り出す', () => {
+    expect(detectCommand('/work 数学の宿題')).toEqual({ command: 'work', args: { task: '数学の宿題' } });
+  });
+
+  it('引数を省略した場合はデフォルト値を使う', () => {
+    expect(detectCommand('/work')).toEqual({ command: 'work', args: { task: '作業中' } });
+  });
+
+  it('接頭辞付きの引数は先頭のトークンが一致した場合だけ取り出す', () => {
+    expect(detectCommand('/work @静かな部屋 英語')).toEqual({
+      command: 'work',
+      args: { room: '静かな部屋', task: '英語' },
+    });
+  });
+
+  it('全角スラッシュ・全角英字のコマンドを認識する', () => {
+    expect(detectCommand('／ｆｉｎｉｓｈ').command).toBe('finish');
+  });
+
+  it('日本語のエイリアスを正式なコマンド名に解決する', () => {
+    expect(detectCommand('/作業 読書')).toEqual({ command: 'work', args: { task: '読書' } });
+    expect(detectCommand('/終了').command).toBe('finish');
+    expect(detectCommand('/待機解除').command).toBe('leave-queue');
+  });
+
+  it('コマンド名の末尾の絵文字や記号を無視する', () => {
+    expect(detectCommand('/finish👋').command).toBe('finish');
+    expect(detectCommand('/終了！').command).toBe('finish');
+  });
+
+  it('大文字小文字を区別しない', () => {
+    expect(detectCommand('/WORK').command).toBe('work');
+  });
+
+  it('コマンドでないコメントや未登録のコマンドは command: null にする', () => {
+    expect(detectCommand('こんにちは')).toEqual({ command: null, args: {} });
+    expect(detectCommand('/unknown')).toEqual({ command: null, args: {} });
+  });
+
+  it('引数の形式が正しくない場合はエラーを返す', () => {
+    const parsed = detectCommand('/extend 1000');
+    expect(parsed.command).toBe('extend');
+    expect(parsed.error).toContain('minutes');
+  });
+});
+
+describe('CommandRegistry.register', () => {
+  it('別のコマンドと重複する名前やエイリアスは登録できない', () => {
+    const registry = createRegistry();
+    expect(() => registry.register(defineCommand({ name: 'finish', aliases: ['w'] }))).toThrow('重複');
+  });
+});
+
+describe('CommandRegistry.addAlias', () => {
+  it('エイリアスは正規化して登録する', () => {
+    const registry = new CommandRegistry();
+    registry.register(defineCommand({ name: 'work' }));
+    registry.addAlias('ＷＯＲＫ２', 'work');
+    expect(registry.parse('/work2').command).toBe('work');
+  });
+
+  it('別のコマンドと重複するエイリアスは登録できない', () => {
+    const registry = new CommandRegistry();
+    registry.register(defineCommand({ name: 'work' }));
+    registry.register(defineCommand({ name: 'finish' }));
+    expect(() => registry.addAlias('work', 'finish')).toThrow('重複');
+  });
+});
+
+describe('hasPermission', () => {
+  it('必要な権限以上の権限を持つ場合だけ実行できる', () => {
+    expect(hasPermission('admin', 'moderator')).toBe(true);
+    expect(hasPermission('moderator', 'moderator')).toBe(true);
+    expect(hasPermission('viewer', 'moderator')).toBe(false);
+  });
+
+  it('一覧は実行できるコマンドだけに絞り込む', () => {
+    expect(createRegistry().list('viewer').map(definition => definition.name)).toEqual(['work', 'extend']);
+  });
+});
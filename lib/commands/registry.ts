@@ -0,0 +1,209 @@
+import type {
+  CommandContext,
+  CommandDefinition,
+  CommandPermission,
+  ParsedCommand,
+} from './types';
+import type { CommandResult } from '@/lib/types';
+import { normalizeCommentText, stripTrailingSymbols } from './normalize';
+
+// 権限レベルの強さ（数値が大きいほど強い）
+const PERMISSION_LEVELS: Record<CommandPermission, number> = {
+  viewer: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * 指定された権限で必要な権限を満たしているか判定する
+ * @param granted 実行者の権限
+ * @param required コマンドに必要な権限
+ * @returns 満たしていればtrue
+ */
+export function hasPermission(granted: CommandPermission, required: CommandPermission): boolean {
+  return PERMISSION_LEVELS[granted] >= PERMISSION_LEVELS[required];
+}
+
+/**
+ * チャットコマンドを一元管理するレジストリ
+ * コマンド名・エイリアス・引数定義・権限・ハンドラを1つの定義から扱う
+ */
+export class CommandRegistry {
+  private commands: Map<string, CommandDefinition> = new Map();
+  private aliases: Map<string, string> = new Map();
+
+  /**
+   * コマンドを登録する
+   * @param definition コマンド定義
+   */
+  register(definition: CommandDefinition): void {
+    const names = [definition.name, ...(definition.aliases || [])].map(name => name.toLowerCase());
+    for (const name of names) {
+      if (this.aliases.has(name)) {
+        throw new Error(`コマンド名またはエイリアスが重複しています: ${name}`);
+      }
+    }
+    this.commands.set(definition.name, definition);
+    names.forEach(name => this.aliases.set(name, definition.name));
+  }
+
+  /**
+   * 登録済みのコマンドにエイリアスを追加する（設定ファイルの日本語エイリアスなど）
+   * @param alias 追加するエイリアス
+   * @param commandName 対象のコマンド名（エイリアスでも可）
+   */
+  addAlias(alias: string, commandName: string): void {
+    const definition = this.resolve(commandName);
+    if (!definition) {
+      throw new Error(`エイリアスの対象コマンドが見つかりません: ${commandName}`);
+    }
+    const name = normalizeCommentText(alias).toLowerCase();
+    const existing = this.aliases.get(name);
+    if (existing && existing !== definition.name) {
+      throw new Error(`コマンド名またはエイリアスが重複しています: ${name}`);
+    }
+    this.aliases.set(name, definition.name);
+  }
+
+  /**
+   * コマンド名またはエイリアスから定義を取得する
+   * @param name コマンド名（先頭の / は不要）
+   * @returns コマンド定義、見つからない場合はundefined
+   */
+  resolve(name: string): CommandDefinition | undefined {
+    const canonical = this.aliases.get(name.toLowerCase());
+    return canonical ? this.commands.get(canonical) : undefined;
+  }
+
+  /**
+   * 登録済みのコマンド一覧を取得する
+   * @param permission 指定した場合、その権限で実行できるコマンドのみを返す
+   */
+  list(permission?: CommandPermission): CommandDefinition[] {
+    const all = Array.from(this.commands.values());
+    return permission ? all.filter(def => hasPermission(permission, def.permission)) : all;
+  }
+
+  /**
+   * コメントテキストを解析してコマンドと引数を取り出す
+   * @param commentText コメントテキスト
+   * @returns 解析結果（コマンドでない場合は command: null）
+   */
+  parse(commentText: string): ParsedCommand {
+    // 全角スラッシュ・全角英数字・全角スペースなどは半角として扱う
+    const normalized = normalizeCommentText(commentText);
+    if (!normalized.startsWith('/')) {
+      return { command: null, args: {} };
+    }
+
+    const [head, ...rest] = normalized.substring(1).split(/\s+/);
+    const definition = head
+      ? this.resolve(head) || this.resolve(stripTrailingSymbols(head))
+      : undefined;
+    if (!definition) {
+      return { command: null, args: {} };
+    }
+
+    const args: Record<string, string> = {};
+    const tokens = rest.filter(Boolean);
+    for (const arg of definition.args) {
+      let value = '';
+      if (arg.prefix) {
+        if (tokens[0]?.startsWith(arg.prefix)) {
+          value = tokens.shift()!.substring(arg.prefix.length);
+        }
+      } else {
+        value = arg.rest ? tokens.splice(0).join(' ') : tokens.shift() || '';
+      }
+      if (!value && arg.defaultValue !== undefined) {
+        value = arg.defaultValue;
+      }
+      if (!value) {
+        if (arg.required) {
+          return {
+            command: definition.name,
+            args,
+            error: `引数「${arg.name}」が指定されていません (${formatUsage(definition)})`,
+          };
+        }
+        continue;
+      }
+      if (arg.pattern && !arg.pattern.test(value)) {
+        return {
+          command: definition.name,
+          args,
+          error: `引数「${arg.name}」の形式が正しくありません (${formatUsage(definition)})`,
+        };
+      }
+      if (arg.maxLength && value.length > arg.maxLength) {
+        value = value.substring(0, arg.maxLength);
+      }
+      args[arg.name] = value;
+    }
+
+    return { command: definition.name, args };
+  }
+
+  /**
+   * コマンドを実行する
+   * @param name コマンド名またはエイリアス
+   * @param context 実行コンテキスト
+   * @param args 解析済みの引数
+   * @returns 実行結果
+   */
+  async execute(
+    name: string,
+    context: CommandContext,
+    args: Record<string, string> = {}
+  ): Promise<CommandResult> {
+    const definition = this.resolve(name);
+    if (!definition) {
+      console.log(`[Command] Unsupported command: ${name}`);
+      throw new Error('対応していないコマンドです');
+    }
+
+    if (!hasPermission(context.permission, definition.permission)) {
+      console.warn(`[Command] Permission denied: ${context.username} tried /${definition.name}`);
+      return {
+        success: false,
+        action: 'none',
+        error: 'このコマンドを実行する権限がありません',
+      };
+    }
+
+    // Web UI など解析を経由しない呼び出しでもデフォルト値を適用する
+    const resolvedArgs: Record<string, string> = {};
+    for (const arg of definition.args) {
+      const value = args[arg.name] || arg.defaultValue;
+      if (value) {
+        resolvedArgs[arg.name] = arg.maxLength ? value.substring(0, arg.maxLength) : value;
+      } else if (arg.required) {
+        throw new Error(`引数「${arg.name}」が指定されていません (${formatUsage(definition)})`);
+      }
+    }
+
+    return definition.handler(context, resolvedArgs);
+  }
+
+  /**
+   * ヘルプテキストを生成する
+   * @param permission 指定した場合、その権限で実行できるコマンドのみを含める
+   * @returns コマンドごとの説明行
+   */
+  getHelpLines(permission?: CommandPermission): string[] {
+    return this.list(permission).map(def => `${formatUsage(def)} … ${def.description}`);
+  }
+}
+
+/**
+ * コマンドの使い方を文字列にする
+ * @param definition コマンド定義
+ * @returns 例: "/work [タスク名]"
+ */
+export function formatUsage(definition: CommandDefinition): string {
+  const args = definition.args.map(arg => {
+    const label = `${arg.prefix || ''}${arg.description}`;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return [`/${definition.name}`, ...args].join(' ');
+}
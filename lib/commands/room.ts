@@ -0,0 +1,121 @@
+import { messageTemplates } from '@/lib/messages';
+import { DEFAULT_ROOM_ID, findRoom, getRooms } from '@/lib/rooms';
+import { isRoomFull, moveSeatToRoom, RoomFullError } from '@/lib/seats';
+import { seatWaitingUsers } from './queue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /room [部屋名]
+ * 部屋の一覧を表示する。部屋名を指定した場合は着席中の座席をその部屋へ移動する
+ */
+export const roomCommand: CommandDefinition = {
+  name: 'room',
+  description: '部屋の一覧を表示します（部屋名を指定すると移動します）',
+  permission: 'viewer',
+  args: [
+    {
+      name: 'room',
+      description: '部屋名',
+      rest: true,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId } = context;
+
+    console.log(`[Command] /room command execution: ${username}${args.room ? ` - Room: ${args.room}` : ''}`);
+
+    if (!args.room) {
+      const rooms = await getRooms(db);
+      const message = messageTemplates.roomList(rooms.map(room => room.name));
+      if (context.canReply) {
+        await context.reply(message);
+      } else {
+        await context.saveSystemMessage(`@${username} ${message}`, 'info');
+      }
+      return {
+        success: true,
+        action: 'none',
+        message
+      };
+    }
+
+    const room = await findRoom(db, args.room);
+    if (!room) {
+      await context.reply(messageTemplates.roomNotFound(username, args.room));
+      return {
+        success: false,
+        action: 'none',
+        error: `部屋「${args.room}」が見つかりません`
+      };
+    }
+
+    const userQuery = authorId ? { authorId } : { username };
+    const seat = await db.collection('seats').findOne(userQuery);
+
+    if (!seat) {
+      console.log(`[Command] ${username} was not seated`);
+      return {
+        success: true,
+        action: 'none',
+        message: `入室していません。/work @${room.name} タスク名 で入室してください`
+      };
+    }
+
+    if ((seat.room_id || DEFAULT_ROOM_ID) === room.roomId) {
+      return {
+        success: true,
+        action: 'none',
+        message: `既に${room.name}に着席しています`
+      };
+    }
+
+    if (room.closed) {
+      await context.reply(messageTemplates.roomUnavailable(username, room.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${room.name}は受付を停止しています`
+      };
+    }
+
+    if (await isRoomFull(db, room)) {
+      await context.reply(messageTemplates.roomFull(username, room.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${room.name}は満席です`
+      };
+    }
+
+    let position: number;
+    try {
+      position = await moveSeatToRoom(db, seat._id, room);
+    } catch (error) {
+      // 満席の確認の後に他のユーザーが着席して満席になった場合
+      if (!(error instanceof RoomFullError)) throw error;
+      await context.reply(messageTemplates.roomFull(username, room.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${room.name}は満席です`
+      };
+    }
+    await context.reply(messageTemplates.seatTaken(username, room.name, position, seat.task));
+    await context.saveSystemMessage(`${username}さんが${room.name}に移動しました`, 'info');
+
+    // 移動元の部屋に空きができたので待機列を進める
+    await seatWaitingUsers(context, seat.room_id || DEFAULT_ROOM_ID);
+
+    return {
+      success: true,
+      action: 'update',
+      seat: {
+        roomId: room.roomId,
+        position,
+        username: username,
+        task: seat.task,
+        id: seat._id.toString()
+      }
+    };
+  },
+};
@@ -0,0 +1,69 @@
+import { Db } from 'mongodb';
+import type { CommandResult } from '@/lib/types';
+import type { ChatMessageMerge } from '@/lib/chatOutbox';
+
+/**
+ * コマンドの実行に必要な権限レベル
+ * viewer < moderator < admin の順に強い権限を持つ
+ */
+export type CommandPermission = 'viewer' | 'moderator' | 'admin';
+
+/**
+ * コマンド引数の定義
+ */
+export interface CommandArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  defaultValue?: string;
+  // true の場合、残りのテキストをすべてこの引数として扱う（タスク名など）
+  rest?: boolean;
+  // 指定した場合、この文字で始まるトークンだけをこの引数として扱う（例: "@" で部屋名）
+  // 先頭のトークンが一致しなければ引数は省略されたものとみなす
+  prefix?: string;
+  maxLength?: number;
+  pattern?: RegExp;
+}
+
+/**
+ * コマンドハンドラに渡される実行コンテキスト
+ */
+export interface CommandContext {
+  db: Db;
+  username: string;
+  authorId?: string;
+  profileImageUrl?: string;
+  videoId?: string;
+  liveChatId?: string;
+  permission: CommandPermission;
+  // YouTubeチャットへ返信できるか（OAuth設定済みかつliveChatIdがある場合のみtrue）
+  canReply: boolean;
+  // YouTubeチャットへ返信する（OAuth未設定やliveChatIdがない場合は何もしない）
+  // merge を指定すると、送信待ちの間にたまった同じ種類の返信と1件にまとめて送信する
+  // targetLiveChatId を指定すると、コマンドを受け取ったチャットではなくそのチャットに送信する（別の配信から入室したユーザーへの通知など）
+  reply: (message: string, merge?: ChatMessageMerge, targetLiveChatId?: string) => Promise<void>;
+  // システムメッセージをMongoDBに保存する（SSEで検知される）
+  saveSystemMessage: (message: string, type?: 'info' | 'warning' | 'error') => Promise<void>;
+}
+
+/**
+ * コマンド定義
+ * 検出・バリデーション・実行・ヘルプ表示のすべてをこの定義から行う
+ */
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args: CommandArgument[];
+  permission: CommandPermission;
+  handler: (context: CommandContext, args: Record<string, string>) => Promise<CommandResult>;
+}
+
+/**
+ * コメントの解析結果
+ */
+export interface ParsedCommand {
+  command: string | null;
+  args: Record<string, string>;
+  error?: string;
+}
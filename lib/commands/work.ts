@@ -0,0 +1,218 @@
+import { messageTemplates } from '@/lib/messages';
+import { endBreak } from '@/lib/seatBreaks';
+import { startTask } from '@/lib/seatTasks';
+import {
+  DEFAULT_ROOM_ID,
+  findRoom,
+  getDefaultRoom,
+} from '@/lib/rooms';
+import { createSeat, isRoomFull, moveSeatToRoom, RoomFullError } from '@/lib/seats';
+import { enqueue } from '@/lib/seatQueue';
+import { getUserProfile } from '@/lib/users';
+import { seatWaitingUsers } from './queue';
+import type { CommandDefinition } from './types';
+
+/**
+ * /work [@部屋名] [タスク名]
+ * 入室（既に入室している場合はタスク名の更新。部屋を指定した場合はその部屋へ移動）
+ * 部屋を指定せずに入室する場合は、ユーザーの設定（preferences.defaultRoom）の部屋を使う
+ */
+export const workCommand: CommandDefinition = {
+  name: 'work',
+  description: '入室します（入室中の場合はタスクを更新します）',
+  permission: 'viewer',
+  args: [
+    {
+      name: 'room',
+      description: '部屋名',
+      prefix: '@',
+    },
+    {
+      name: 'task',
+      description: 'タスク名',
+      rest: true,
+      defaultValue: '作業中',
+      maxLength: 50,
+    },
+  ],
+  handler: async (context, args) => {
+    const { db, username, authorId, profileImageUrl, videoId, liveChatId } = context;
+    const taskName = args.task;
+    const seatsCollection = db.collection('seats');
+
+    console.log(`[Command] /work command execution: ${username} - Task: ${taskName}${args.room ? ` - Room: ${args.room}` : ''}`);
+
+    // 部屋が指定されている場合は存在を確認
+    const requestedRoom = args.room ? await findRoom(db, args.room) : null;
+    if (args.room && !requestedRoom) {
+      await context.reply(messageTemplates.roomNotFound(username, args.room));
+      return {
+        success: false,
+        action: 'none',
+        error: `部屋「${args.room}」が見つかりません`
+      };
+    }
+
+    // 受付を停止している部屋には入室・移動できない
+    if (requestedRoom?.closed) {
+      await context.reply(messageTemplates.roomUnavailable(username, requestedRoom.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${requestedRoom.name}は受付を停止しています`
+      };
+    }
+
+    // ユーザーIDが指定されている場合、それを使用してユーザーを識別
+    // 指定されていない場合は、ユーザー名で識別
+    const userQuery = authorId ? { authorId } : { username };
+
+    // まず、同じユーザーが着席中か確認
+    const existingSeat = await seatsCollection.findOne(userQuery);
+
+    // 満席の部屋へは移動できない（タスク名の更新も行わない）
+    if (existingSeat && requestedRoom && requestedRoom.roomId !== (existingSeat.room_id || DEFAULT_ROOM_ID)
+      && await isRoomFull(db, requestedRoom)) {
+      await context.reply(messageTemplates.roomFull(username, requestedRoom.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${requestedRoom.name}は満席です`
+      };
+    }
+
+    // 休憩中に /work した場合は作業に戻ったものとして休憩を終了する
+    if (existingSeat?.breakStartedAt) {
+      await endBreak(db, existingSeat);
+    }
+
+    // 別の配信から /work した場合は、以降の通知をそのチャットに送るよう入室元を切り替える（座席は1つのまま）
+    if (existingSeat && liveChatId && existingSeat.liveChatId !== liveChatId) {
+      await seatsCollection.updateOne({ _id: existingSeat._id }, { $set: { videoId, liveChatId } });
+    }
+
+    if (existingSeat) {
+      const currentRoomId = existingSeat.room_id || DEFAULT_ROOM_ID;
+      const isMoving = Boolean(requestedRoom && requestedRoom.roomId !== currentRoomId);
+      const isTaskChanged = existingSeat.task !== taskName;
+
+      if (!isMoving && !isTaskChanged) {
+        console.log(`[Command] Task has not changed: ${taskName}`);
+        return {
+          success: true,
+          action: 'update',
+          seat: {
+            roomId: currentRoomId,
+            position: existingSeat.position,
+            username: username,
+            task: taskName,
+            id: existingSeat._id.toString()
+          }
+        };
+      }
+
+      // 既存のアクティブセッションが見つかった場合、タスク名を更新（部屋指定があれば移動）
+      console.log(`[Command] Found existing active session for ${username}, updating task${isMoving ? ' and room' : ''}`);
+
+      // タスクが変わった場合は、それまでのタスクを終了してタスク一覧に新しいタスクを追加
+      if (isTaskChanged) {
+        await startTask(db, existingSeat, taskName);
+      }
+
+      let roomId = currentRoomId;
+      let position = existingSeat.position;
+      if (isMoving && requestedRoom) {
+        try {
+          position = await moveSeatToRoom(db, existingSeat._id, requestedRoom);
+        } catch (error) {
+          // 満席の確認の後に他のユーザーが着席して満席になった場合
+          if (!(error instanceof RoomFullError)) throw error;
+          await context.reply(messageTemplates.roomFull(username, requestedRoom.name));
+          return {
+            success: false,
+            action: 'none',
+            error: `${requestedRoom.name}は満席です`
+          };
+        }
+        roomId = requestedRoom.roomId;
+        await context.reply(messageTemplates.seatTaken(username, requestedRoom.name, position, taskName));
+        await context.saveSystemMessage(`${username}さんが「${taskName}」で${requestedRoom.name}に移動しました`, 'info');
+        // 移動元の部屋に空きができたので待機列を進める
+        await seatWaitingUsers(context, currentRoomId);
+      } else {
+        await context.saveSystemMessage(`${username}さんがタスクを「${taskName}」に更新しました`, 'info');
+      }
+
+      return {
+        success: true,
+        action: 'update',
+        seat: {
+          roomId,
+          position,
+          username: username,
+          task: taskName,
+          id: existingSeat._id.toString()
+        }
+      };
+    }
+
+    // 以下は既存のセッションが見つからない場合の処理（新規入室）
+    // 部屋を指定していない場合は、ユーザーが設定した部屋（受付中の場合のみ）に入室する
+    const preferredRoomName = !requestedRoom && authorId
+      ? (await getUserProfile(db, authorId))?.preferences?.defaultRoom
+      : undefined;
+    const preferredRoom = preferredRoomName ? await findRoom(db, preferredRoomName) : null;
+    const room = requestedRoom || (preferredRoom && !preferredRoom.closed ? preferredRoom : await getDefaultRoom(db));
+    const occupant = { username, authorId, task: taskName, profileImageUrl, videoId, liveChatId };
+
+    if (room.closed) {
+      await context.reply(messageTemplates.roomUnavailable(username, room.name));
+      return {
+        success: false,
+        action: 'none',
+        error: `${room.name}は受付を停止しています`
+      };
+    }
+
+    // 満席の場合は待機列に並び、空席ができたら自動で着席させる
+    // （満席の確認の後に他のユーザーが着席して満席になった場合は、座席の割り当て時に RoomFullError になる）
+    let created: { id: string; position: number } | null = null;
+    if (!(await isRoomFull(db, room))) {
+      try {
+        // 有効なプロフィール画像URLのみ渡される（検証は processCommand で実施済み）
+        created = await createSeat(db, room, occupant);
+      } catch (error) {
+        if (!(error instanceof RoomFullError)) throw error;
+      }
+    }
+    if (!created) {
+      const queuePosition = await enqueue(db, room, occupant);
+      await context.reply(messageTemplates.noSeatAvailable(username, room.name, queuePosition));
+      await context.saveSystemMessage(`${username}さんが${room.name}の待機列に並びました（${queuePosition}番目）`, 'info');
+      return {
+        success: true,
+        action: 'none',
+        message: `${room.name}は満席のため待機列の${queuePosition}番目に追加しました`
+      };
+    }
+
+    const { id: seatId, position: newPosition } = created;
+
+    console.log(`[Command] Created new seat: Room ${room.roomId}, Position ${newPosition} for ${username} (Task: ${taskName})`);
+
+    await context.reply(messageTemplates.seatTaken(username, room.name, newPosition, taskName), { kind: 'seatTaken', username });
+    await context.saveSystemMessage(`${username}さんが「${taskName}」で${room.name}に入室しました`, 'info');
+
+    return {
+      success: true,
+      action: 'create',
+      seat: {
+        roomId: room.roomId,
+        position: newPosition,
+        username: username,
+        task: taskName,
+        id: seatId
+      }
+    };
+  },
+};
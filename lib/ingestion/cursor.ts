@@ -0,0 +1,62 @@
+import { Db, UpdateFilter } from 'mongodb';
+
+/**
+ * chatCursors コレクションに保存される、ライブチャットごとの読み取り位置
+ */
+export interface ChatCursor {
+  _id: string; // liveChatId
+  nextPageToken: string | null;
+  lastPublishedAt: Date | null; // 処理済みのコメントのうち最も新しい公開日時
+  nextPollAt: Date | null; // pollingIntervalMillis に従った次回の取得可能時刻
+  updatedAt: Date;
+}
+
+/**
+ * ライブチャットの読み取り位置を取得する
+ * @param db MongoDB データベース接続
+ * @param liveChatId ライブチャットID
+ * @returns 読み取り位置（まだ一度も取得していない場合はnull）
+ */
+export async function getChatCursor(db: Db, liveChatId: string): Promise<ChatCursor | null> {
+  return db.collection<ChatCursor>('chatCursors').findOne({ _id: liveChatId });
+}
+
+/**
+ * 1ページ分の処理が終わった後の読み取り位置を保存する
+ * lastPublishedAt は既存の値より新しい場合のみ更新する
+ * @param db MongoDB データベース接続
+ * @param liveChatId ライブチャットID
+ * @param position 次のページのトークン・処理したコメントの最新公開日時・次回の取得可能時刻
+ */
+export async function saveChatCursor(
+  db: Db,
+  liveChatId: string,
+  position: { nextPageToken: string | null; lastPublishedAt: Date | null; nextPollAt: Date }
+): Promise<void> {
+  const update: UpdateFilter<ChatCursor> = {
+    $set: {
+      nextPageToken: position.nextPageToken,
+      nextPollAt: position.nextPollAt,
+      updatedAt: new Date()
+    }
+  };
+  if (position.lastPublishedAt) {
+    update.$max = { lastPublishedAt: position.lastPublishedAt };
+  } else {
+    update.$setOnInsert = { lastPublishedAt: null };
+  }
+  await db.collection<ChatCursor>('chatCursors').updateOne({ _id: liveChatId }, update, { upsert: true });
+}
+
+/**
+ * ページトークンが無効になった場合に、トークンだけを破棄する
+ * lastPublishedAt は残すため、最新ページから読み直しても古いコメントは処理されない
+ * @param db MongoDB データベース接続
+ * @param liveChatId ライブチャットID
+ */
+export async function resetChatPageToken(db: Db, liveChatId: string): Promise<void> {
+  await db.collection<ChatCursor>('chatCursors').updateOne(
+    { _id: liveChatId },
+    { $set: { nextPageToken: null, updatedAt: new Date() } }
+  );
+}
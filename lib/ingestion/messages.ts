@@ -0,0 +1,348 @@
+import { Db, Document, MongoBulkWriteError } from 'mongodb';
+import { getChatSource } from '@/lib/chatSource';
+import { enqueueChatMessage } from '@/lib/chatOutbox';
+import { detectCommand, resolveChatPermission } from '@/lib/commands';
+import type { CommandPermission } from '@/lib/commands';
+import { processCommand } from '@/lib/commandProcessor';
+import { messageTemplates } from '@/lib/messages';
+import { handleSupportEvent, parseSupportEvent } from '@/lib/supportEvents';
+import type { SupportEvent } from '@/lib/supportEvents';
+import { recordUserSeen } from '@/lib/users';
+import type { ChatItem } from '@/lib/youtubeApiClient';
+import { getQuotaStatus } from '@/lib/youtubeQuota';
+
+/**
+ * 取得したコメントから実行したコマンドの結果
+ */
+export interface IngestedCommand {
+  commentId: string;
+  command: string;
+  authorName: string;
+  authorId: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 1ページ分のコメントを処理した結果
+ */
+export interface IngestionResult {
+  processedCount: number; // 新しく処理したコメント数
+  announcementCount: number;
+  supportEventCount: number; // Super Chat・メンバー加入などの応援イベント数
+  commands: IngestedCommand[];
+  latestPublishedAt: Date | null; // ページ内で最も新しいコメントの公開日時
+}
+
+/**
+ * 処理前に1件のコメントから読み取った内容
+ */
+interface ClassifiedComment {
+  commentId: string;
+  commentText: string;
+  publishedAt: Date | null;
+  authorName: string;
+  authorId: string;
+  profileImageUrl?: string;
+  isBot: boolean;
+  permission: CommandPermission;
+  command: string | null;
+  args: Record<string, string>;
+  commandError?: string;
+  supportEvent: SupportEvent | null;
+}
+
+let processedCommentsIndexEnsured = false;
+
+/**
+ * processedComments のインデックスを作成する（プロセスごとに1回）
+ * commentId のユニークインデックスで二重処理を防ぎ、TTLインデックスで1週間後に自動削除する
+ * @param db MongoDB データベース接続
+ */
+async function ensureProcessedCommentsIndex(db: Db): Promise<void> {
+  if (processedCommentsIndexEnsured) return;
+  try {
+    const processedCommentsCollection = db.collection('processedComments');
+    const indexes = await processedCommentsCollection.indexInformation();
+    if (!indexes.processedAt_1) {
+      await processedCommentsCollection.createIndex({ processedAt: 1 }, {
+        expireAfterSeconds: 604800, // 1週間
+        name: 'processedAt_1'
+      });
+      console.log('[Ingestion] 処理済みコメントのTTLインデックスを作成しました');
+    }
+    if (!indexes.commentId_unique) {
+      await processedCommentsCollection.createIndex({ commentId: 1 }, { unique: true, name: 'commentId_unique' });
+      console.log('[Ingestion] 処理済みコメントのユニークインデックスを作成しました');
+    }
+    processedCommentsIndexEnsured = true;
+  } catch (indexError) {
+    console.error('[Ingestion] インデックス確認・作成エラー:', indexError);
+    // エラーが発生しても処理を続行
+  }
+}
+
+/**
+ * ライブチャットのコメントを処理する
+ * ページ内の新しいコメントを1回の bulkWrite で processedComments に記録し、
+ * 新しく記録できたコメントだけを実行することで二重に実行しないようにする
+ * 運営者のコメントはお知らせとして保存し、コマンドはその場で実行する
+ * コメントの投稿者は表示名とプロフィール画像を users に記録する
+ * @param db MongoDB データベース接続
+ * @param items liveChatMessages.list で取得したコメント
+ * @param source コメントを取得した配信（返信先）
+ * @param lastPublishedAt 前回までに処理したコメントの最新公開日時（これより古いコメントは処理しない）
+ * @returns 処理結果
+ */
+export async function processChatItems(
+  db: Db,
+  items: ChatItem[],
+  source: { videoId: string; liveChatId: string },
+  lastPublishedAt: Date | null = null
+): Promise<IngestionResult> {
+  const result: IngestionResult = { processedCount: 0, announcementCount: 0, supportEventCount: 0, commands: [], latestPublishedAt: null };
+
+  const comments = items
+    .map(classifyChatItem)
+    .filter((comment): comment is ClassifiedComment => {
+      if (!comment) return false;
+      if (comment.publishedAt && (!result.latestPublishedAt || comment.publishedAt > result.latestPublishedAt)) {
+        result.latestPublishedAt = comment.publishedAt;
+      }
+      // 前回の読み取り位置より古いコメントは処理済み
+      return !(lastPublishedAt && comment.publishedAt && comment.publishedAt < lastPublishedAt);
+    });
+  if (comments.length === 0) return result;
+
+  await ensureProcessedCommentsIndex(db);
+  const claimed = await claimComments(db, comments);
+  result.processedCount = claimed.length;
+  await recordCommentAuthors(db, claimed);
+
+  const announcementsCollection = db.collection('announcements');
+
+  for (const comment of claimed) {
+    const { commentId, commentText, authorName, authorId, profileImageUrl, permission, command, args } = comment;
+
+    // BOT自身の投稿・コマンドでないコメント・不正なコマンドは記録するだけ
+    if (comment.isBot) continue;
+
+    // 応援イベントはお礼と特典の付与だけを行い、コマンドとしては扱わない
+    if (comment.supportEvent) {
+      try {
+        await handleSupportEvent(db, comment.supportEvent, source.liveChatId);
+        result.supportEventCount++;
+      } catch (error) {
+        console.error('[Ingestion] 応援イベントの処理中にエラーが発生しました:', error);
+      }
+      continue;
+    }
+
+    // 運営者のコマンド以外のコメントはお知らせとして扱う
+    if (!command && permission === 'admin') {
+      console.log(`[Ingestion] お知らせコメント検出: ${authorName} - ${commentText}`);
+      try {
+        // 同じ内容のお知らせは保存しない
+        const existingAnnouncement = await announcementsCollection.findOne({
+          message: commentText,
+          authorChannelId: authorId
+        });
+        if (existingAnnouncement) continue;
+
+        await announcementsCollection.insertOne({
+          message: commentText,
+          authorChannelId: authorId,
+          authorName,
+          profileImageUrl,
+          publishedAt: comment.publishedAt || new Date(),
+          createdAt: new Date(),
+        });
+        result.announcementCount++;
+      } catch (dbError) {
+        console.error('[Ingestion] お知らせのDB保存エラー:', dbError);
+      }
+      continue;
+    }
+
+    if (!command) continue;
+
+    if (comment.commandError) {
+      console.log(`[Ingestion] 不正なコマンド: ${command} by ${authorName} (${comment.commandError})`);
+      await replyCommandError(db, source.liveChatId, authorName, comment.commandError);
+      result.commands.push({
+        commentId,
+        command,
+        authorName,
+        authorId,
+        success: false,
+        error: comment.commandError
+      });
+      continue;
+    }
+
+    console.log(`[Ingestion] コマンド実行: ${command} by ${authorName} (${permission})`);
+    try {
+      const commandResult = await processCommand(
+        command,
+        authorName,
+        db,
+        source.videoId,
+        source.liveChatId,
+        authorId,
+        undefined,
+        profileImageUrl,
+        args,
+        permission
+      );
+      result.commands.push({
+        commentId,
+        command,
+        authorName,
+        authorId,
+        success: commandResult.success,
+        error: commandResult.error
+      });
+    } catch (error) {
+      console.error(`[Ingestion] コマンド ${command} の実行中にエラーが発生しました:`, error);
+      result.commands.push({
+        commentId,
+        command,
+        authorName,
+        authorId,
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 引数の解析に失敗したコマンドの投稿者に、使い方を添えて返信する
+ * コマンドの返信と同じく、BOTとして投稿できない場合やクォータの残りが少ない場合は返信しない
+ * @param db MongoDB データベース接続
+ * @param liveChatId 返信先のliveChatId
+ * @param authorName コマンドの投稿者の表示名
+ * @param commandError 引数の解析エラー
+ */
+async function replyCommandError(db: Db, liveChatId: string, authorName: string, commandError: string): Promise<void> {
+  if (!getChatSource().canSendMessages()) return;
+  try {
+    if ((await getQuotaStatus(db)).repliesSuppressed) return;
+    await enqueueChatMessage(db, liveChatId, messageTemplates.commandInvalid(authorName, commandError));
+  } catch (error) {
+    console.warn('[Ingestion] 不正なコマンドへの返信を送信待ちに追加できませんでした:', error);
+  }
+}
+
+/**
+ * コメントの投稿者・権限・コマンドを読み取る
+ * @param item liveChatMessages.list で取得したコメント
+ * @returns 読み取った内容（投稿者情報がない場合はnull）
+ */
+function classifyChatItem(item: ChatItem): ClassifiedComment | null {
+  // API構造に応じて投稿者情報を取得（snippetとauthorDetailsの両方をチェック）
+  const authorName = item.snippet?.authorDisplayName || item.authorDetails?.displayName;
+  const authorId = item.snippet?.authorChannelId?.value || item.authorDetails?.channelId;
+  if (!item.id || !authorName || !authorId) return null;
+
+  const botChannelId = process.env.YOUTUBE_BOT_CHANNEL_ID || '';
+  const commentText = item.snippet?.displayMessage || '';
+  const publishedAt = item.snippet?.publishedAt ? new Date(item.snippet.publishedAt) : null;
+  // 投稿者の権限を判定（運営者チャンネル・配信オーナーは admin、モデレーターは moderator）
+  const permission = resolveChatPermission(authorId, item.authorDetails);
+  const supportEvent = parseSupportEvent(item);
+  // 応援イベントに添えられたコメントからはコマンドを読み取らない
+  const { command, args, error: commandError } = supportEvent
+    ? { command: null, args: {}, error: undefined }
+    : detectCommand(commentText);
+
+  return {
+    commentId: item.id,
+    commentText,
+    publishedAt: publishedAt && !isNaN(publishedAt.getTime()) ? publishedAt : null,
+    authorName,
+    authorId,
+    profileImageUrl: item.snippet?.authorPhotoUrl || item.authorDetails?.profileImageUrl,
+    isBot: !!botChannelId && authorId === botChannelId,
+    permission,
+    command,
+    args,
+    commandError,
+    supportEvent
+  };
+}
+
+/**
+ * コメントの投稿者を users に記録する（同じ投稿者はページ内の最も新しいコメントで1回だけ記録する）
+ * 記録できなくてもコメントの処理は続ける
+ * @param db MongoDB データベース接続
+ * @param comments 新しく処理するコメント
+ */
+async function recordCommentAuthors(db: Db, comments: ClassifiedComment[]): Promise<void> {
+  const latestByAuthor = new Map<string, ClassifiedComment>();
+  for (const comment of comments) {
+    if (comment.isBot) continue;
+    const latest = latestByAuthor.get(comment.authorId);
+    if (!latest || (comment.publishedAt && (!latest.publishedAt || comment.publishedAt >= latest.publishedAt))) {
+      latestByAuthor.set(comment.authorId, comment);
+    }
+  }
+
+  for (const comment of Array.from(latestByAuthor.values())) {
+    try {
+      await recordUserSeen(db, {
+        authorId: comment.authorId,
+        displayName: comment.authorName,
+        profileImageUrl: comment.profileImageUrl
+      }, comment.publishedAt || new Date());
+    } catch (error) {
+      console.error(`[Ingestion] ユーザー ${comment.authorName} を記録できませんでした:`, error);
+    }
+  }
+}
+
+/**
+ * ページ内のコメントを1回の bulkWrite で処理済みとして記録する
+ * 既に記録されていたコメント（再取得・他の経路で処理済み）は除外する
+ * @param db MongoDB データベース接続
+ * @param comments 読み取ったコメント
+ * @returns 今回新しく記録できたコメント
+ */
+async function claimComments(db: Db, comments: ClassifiedComment[]): Promise<ClassifiedComment[]> {
+  const now = new Date();
+  const operations = comments.map(comment => {
+    const record: Document = { commentId: comment.commentId, authorId: comment.authorId, processedAt: now };
+    if (comment.isBot) {
+      record.isBot = true;
+    } else if (comment.supportEvent) {
+      record.supportEvent = comment.supportEvent.type;
+    } else if (!comment.command && comment.permission === 'admin') {
+      record.isAnnouncement = true;
+    } else if (comment.command) {
+      record.commandDetected = comment.command;
+      if (comment.commandError) record.commandError = comment.commandError;
+      else record.permission = comment.permission;
+    }
+    return {
+      updateOne: {
+        filter: { commentId: comment.commentId },
+        update: { $setOnInsert: record },
+        upsert: true
+      }
+    };
+  });
+
+  let upsertedIds: Record<number, unknown>;
+  try {
+    const bulkResult = await db.collection('processedComments').bulkWrite(operations, { ordered: false });
+    upsertedIds = bulkResult.upsertedIds;
+  } catch (error) {
+    // 同時に記録された一部のコメントがユニークインデックスに違反した場合も、残りの結果は使う
+    if (!(error instanceof MongoBulkWriteError) || error.code !== 11000 || !error.result) throw error;
+    upsertedIds = error.result.upsertedIds || {};
+  }
+
+  return comments.filter((_, index) => upsertedIds[index] !== undefined);
+}
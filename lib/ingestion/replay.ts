@@ -0,0 +1,207 @@
+import { Db } from 'mongodb';
+import { checkAndProcessAutoExit } from '@/lib/autoExit';
+import { flushChatOutbox } from '@/lib/chatOutbox';
+import { setChatSource } from '@/lib/chatSource';
+import type { BroadcastState, ChatRecordingEntry, ChatSource, LiveBroadcast } from '@/lib/chatSource';
+import type { ChatResponse } from '@/lib/youtubeApiClient';
+import { processChatItems, IngestedCommand } from './messages';
+
+// ワーカーと同じ間隔で自動退室チェックを行う
+const AUTO_EXIT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 記録の再生中に使う時計
+ * 記録の開始時刻から、実時間の speed 倍で進む（speed が Infinity の場合は待たずに次の記録の時刻へ進む）
+ */
+export class ReplayClock {
+  private virtualNow: number;
+  private realStart: number;
+
+  constructor(private readonly realDate: DateConstructor, start: number, private readonly speed: number) {
+    this.virtualNow = start;
+    this.realStart = realDate.now();
+  }
+
+  now(): number {
+    if (!isFinite(this.speed)) return this.virtualNow;
+    return this.virtualNow + (this.realDate.now() - this.realStart) * this.speed;
+  }
+
+  /**
+   * 指定した時刻まで時計を進める（speed が有限の場合は実際に待つ）
+   * @param time 進める先の時刻（エポックミリ秒）
+   */
+  async advanceTo(time: number): Promise<void> {
+    if (!isFinite(this.speed)) {
+      this.virtualNow = Math.max(this.virtualNow, time);
+      return;
+    }
+    const waitMs = (time - this.now()) / this.speed;
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
+
+/**
+ * グローバルの Date を再生用の時計に差し替える
+ * 引数なしの new Date() と Date.now() だけが再生中の時刻を返し、それ以外は元の Date と同じ動作をする
+ * @param createClock 元の Date を受け取って時計を作る関数
+ * @returns 時計と、元の Date に戻す関数
+ */
+export function installReplayClock(
+  createClock: (realDate: DateConstructor) => ReplayClock
+): { clock: ReplayClock; restore: () => void } {
+  const RealDate = Date;
+  const clock = createClock(RealDate);
+
+  function ReplayDate(this: unknown, ...args: unknown[]) {
+    if (!(this instanceof ReplayDate)) {
+      return new RealDate(clock.now()).toString();
+    }
+    return args.length > 0 ? Reflect.construct(RealDate, args) : new RealDate(clock.now());
+  }
+  ReplayDate.prototype = RealDate.prototype;
+  ReplayDate.now = () => clock.now();
+  ReplayDate.parse = RealDate.parse;
+  ReplayDate.UTC = RealDate.UTC;
+
+  globalThis.Date = ReplayDate as unknown as DateConstructor;
+  return { clock, restore: () => { globalThis.Date = RealDate; } };
+}
+
+/**
+ * 再生中のBOTの返信
+ */
+export interface ReplayedReply {
+  at: Date;
+  liveChatId: string;
+  message: string;
+}
+
+/**
+ * 記録したコメントを返し、BOTの返信を記録するチャット取得元
+ * コメントはワーカーを経由せずに replayChatRecording から直接処理するため、取得系のメソッドは使われない
+ */
+class ReplayChatSource implements ChatSource {
+  readonly name = 'mock' as const;
+  readonly replies: ReplayedReply[] = [];
+
+  constructor(private readonly liveChatId: string) {}
+
+  async getLiveChatId(): Promise<string> {
+    return this.liveChatId;
+  }
+
+  async findLiveBroadcast(): Promise<LiveBroadcast | null> {
+    // 再生中は記録したライブチャットだけを使う
+    return null;
+  }
+
+  async getBroadcastState(): Promise<BroadcastState> {
+    return { liveChatId: this.liveChatId, actualEndTime: null };
+  }
+
+  async getLiveChatMessages(): Promise<ChatResponse> {
+    return { items: [], nextPageToken: '', pollingIntervalMillis: 0 };
+  }
+
+  async sendChatMessage(liveChatId: string, message: string): Promise<void> {
+    this.replies.push({ at: new Date(), liveChatId, message });
+  }
+
+  canSendMessages(): boolean {
+    return true;
+  }
+
+  clearNegativeCache(): void {
+    // 再生中はキャッシュを使わない
+  }
+}
+
+/**
+ * 記録の再生結果
+ */
+export interface ReplayResult {
+  pages: number;
+  processedCount: number;
+  autoExitCount: number;
+  commands: IngestedCommand[];
+  replies: ReplayedReply[];
+  recordedReplies: number; // 記録時にBOTが送信した返信の数（再生結果との比較用）
+}
+
+/**
+ * 記録したライブチャットのコメントを、コメント取得ワーカーと同じ処理（コマンド実行・自動退室）に流す
+ * 必ず本番とは別のデータベースを渡すこと
+ * @param db 再生先の MongoDB データベース接続
+ * @param entries readChatRecording で読み込んだ記録
+ * @param options speed: 再生速度（1で実時間、Infinityで待たずに再生）、videoId: コマンドに渡す動画ID
+ * @returns 再生結果
+ */
+export async function replayChatRecording(
+  db: Db,
+  entries: ChatRecordingEntry[],
+  options: { speed: number; videoId?: string; onPage?: (recordedAt: Date, processedCount: number) => void }
+): Promise<ReplayResult> {
+  const pages = entries
+    .filter((entry): entry is Extract<ChatRecordingEntry, { type: 'messages' }> => entry.type === 'messages')
+    .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+  const result: ReplayResult = {
+    pages: 0,
+    processedCount: 0,
+    autoExitCount: 0,
+    commands: [],
+    replies: [],
+    recordedReplies: entries.filter(entry => entry.type === 'reply').length
+  };
+  if (pages.length === 0) return result;
+
+  const liveChatId = pages[0].liveChatId;
+  const videoId = options.videoId || 'replay';
+  const source = new ReplayChatSource(liveChatId);
+  const start = new Date(pages[0].recordedAt).getTime();
+  const { clock, restore } = installReplayClock(realDate => new ReplayClock(realDate, start, options.speed));
+  setChatSource(source);
+
+  try {
+    let nextAutoExitAt = start;
+    let lastPublishedAt: Date | null = null;
+
+    const runAutoExitUntil = async (time: number) => {
+      while (nextAutoExitAt <= time) {
+        await clock.advanceTo(nextAutoExitAt);
+        const autoExit = await checkAndProcessAutoExit(db, true, liveChatId);
+        result.autoExitCount += autoExit.processedCount;
+        await flushChatOutbox(db);
+        nextAutoExitAt += AUTO_EXIT_INTERVAL_MS;
+      }
+    };
+
+    for (const page of pages) {
+      const recordedAt = new Date(page.recordedAt).getTime();
+      await runAutoExitUntil(recordedAt);
+      await clock.advanceTo(recordedAt);
+
+      const pageResult = await processChatItems(db, page.response.items || [], { videoId, liveChatId }, lastPublishedAt);
+      if (pageResult.latestPublishedAt && (!lastPublishedAt || pageResult.latestPublishedAt > lastPublishedAt)) {
+        lastPublishedAt = pageResult.latestPublishedAt;
+      }
+      result.pages++;
+      result.processedCount += pageResult.processedCount;
+      result.commands.push(...pageResult.commands);
+      // ワーカーと同じく、ページの処理後に送信待ちの返信をまとめて送信する
+      await flushChatOutbox(db);
+      options.onPage?.(new Date(recordedAt), pageResult.processedCount);
+    }
+
+    // 最後の記録の後に行われたはずの自動退室チェックを1回行う
+    await runAutoExitUntil(nextAutoExitAt);
+  } finally {
+    setChatSource(null);
+    restore();
+  }
+
+  result.replies = source.replies;
+  return result;
+}
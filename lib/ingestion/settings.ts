@@ -0,0 +1,138 @@
+import { Db } from 'mongodb';
+import type { LiveBroadcast } from '@/lib/chatSource';
+
+/**
+ * チャンネルから自動で検出した放送
+ */
+export interface DetectedBroadcast extends LiveBroadcast {
+  channelId: string;
+  detectedAt: Date; // この放送を最初に検出した日時
+  checkedAt: Date; // 最後に配信状態を確認した日時
+}
+
+/**
+ * settings コレクションに保存されるコメント取得の設定
+ */
+interface IngestionSettings {
+  _id: 'ingestion';
+  videoId: string | null;
+  additionalVideoIds?: string[]; // メインの配信と同時にコメントを取得する配信（縦型配信など）
+  broadcast?: DetectedBroadcast | null;
+  updatedAt: Date;
+}
+
+/**
+ * コメント取得対象の動画IDをどこから決めたか
+ * - manual: 画面から設定した動画ID
+ * - broadcast: YOUTUBE_CHANNEL_ID のチャンネルから自動で検出した放送
+ * - env: 環境変数 YOUTUBE_VIDEO_ID
+ */
+export type IngestionVideoIdSource = 'manual' | 'broadcast' | 'env';
+
+/**
+ * コメント取得の対象
+ */
+export interface IngestionTarget {
+  videoId: string | null;
+  videoIdSource: IngestionVideoIdSource | null;
+  channelId: string | null;
+  broadcast: DetectedBroadcast | null;
+  additionalVideoIds: string[]; // メインの配信と同時にコメントを取得する配信の動画ID
+}
+
+/**
+ * 配信を自動で検出するチャンネルのIDを取得する
+ * @returns チャンネルID（環境変数 YOUTUBE_CHANNEL_ID が未設定の場合はnull）
+ */
+export function getIngestionChannelId(): string | null {
+  return process.env.YOUTUBE_CHANNEL_ID || null;
+}
+
+/**
+ * コメントを取得する配信の動画IDと、その決め方を取得する
+ * 画面から設定した動画ID、チャンネルから検出した放送、環境変数 YOUTUBE_VIDEO_ID の順に使う
+ * @param db MongoDB データベース接続
+ * @returns コメント取得の対象
+ */
+export async function getIngestionTarget(db: Db): Promise<IngestionTarget> {
+  const settings = await db.collection<IngestionSettings>('settings').findOne({ _id: 'ingestion' });
+  const channelId = getIngestionChannelId();
+  // チャンネルの設定を変えた場合は、以前のチャンネルで検出した放送を使わない
+  const broadcast = channelId && settings?.broadcast?.channelId === channelId ? settings.broadcast : null;
+
+  let videoId: string | null = null;
+  let videoIdSource: IngestionVideoIdSource | null = null;
+  if (settings?.videoId) {
+    videoId = settings.videoId;
+    videoIdSource = 'manual';
+  } else if (broadcast) {
+    videoId = broadcast.videoId;
+    videoIdSource = 'broadcast';
+  } else if (process.env.YOUTUBE_VIDEO_ID) {
+    videoId = process.env.YOUTUBE_VIDEO_ID;
+    videoIdSource = 'env';
+  }
+
+  // 画面から追加した配信と環境変数 YOUTUBE_ADDITIONAL_VIDEO_IDS（カンマ区切り）の配信。メインの配信と重複するものは除く
+  const envAdditionalVideoIds = (process.env.YOUTUBE_ADDITIONAL_VIDEO_IDS || '').split(',').map(id => id.trim());
+  const additionalVideoIds = Array.from(new Set([...(settings?.additionalVideoIds || []), ...envAdditionalVideoIds]))
+    .filter(id => id && id !== videoId);
+
+  return { videoId, videoIdSource, channelId, broadcast, additionalVideoIds };
+}
+
+/**
+ * コメントを取得する配信の動画IDを取得する
+ * @param db MongoDB データベース接続
+ * @returns 動画ID（未設定の場合はnull）
+ */
+export async function getIngestionVideoId(db: Db): Promise<string | null> {
+  return (await getIngestionTarget(db)).videoId;
+}
+
+/**
+ * コメントを取得する配信の動画IDを設定する
+ * @param db MongoDB データベース接続
+ * @param videoId 動画ID（nullで自動検出・環境変数の設定に戻す）
+ */
+export async function setIngestionVideoId(db: Db, videoId: string | null): Promise<void> {
+  await db.collection<IngestionSettings>('settings').updateOne(
+    { _id: 'ingestion' },
+    { $set: { videoId, updatedAt: new Date() } },
+    { upsert: true }
+  );
+  console.log(`[Ingestion] コメント取得対象の動画IDを${videoId || '(自動検出・環境変数)'}に設定しました`);
+}
+
+/**
+ * メインの配信と同時にコメントを取得する配信の動画IDを設定する
+ * @param db MongoDB データベース接続
+ * @param videoIds 動画IDの一覧（空の配列で追加の配信をなくす）
+ */
+export async function setIngestionAdditionalVideoIds(db: Db, videoIds: string[]): Promise<void> {
+  await db.collection<IngestionSettings>('settings').updateOne(
+    { _id: 'ingestion' },
+    {
+      $set: { additionalVideoIds: videoIds, updatedAt: new Date() },
+      $setOnInsert: { videoId: null }
+    },
+    { upsert: true }
+  );
+  console.log(`[Ingestion] 同時にコメントを取得する配信を${videoIds.length > 0 ? videoIds.join(', ') : '(なし)'}に設定しました`);
+}
+
+/**
+ * チャンネルから検出した放送を保存する
+ * @param db MongoDB データベース接続
+ * @param broadcast 検出した放送（配信がなくなった場合はnull）
+ */
+export async function saveDetectedBroadcast(db: Db, broadcast: DetectedBroadcast | null): Promise<void> {
+  await db.collection<IngestionSettings>('settings').updateOne(
+    { _id: 'ingestion' },
+    {
+      $set: { broadcast, updatedAt: new Date() },
+      $setOnInsert: { videoId: null }
+    },
+    { upsert: true }
+  );
+}
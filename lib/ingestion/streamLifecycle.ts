@@ -0,0 +1,253 @@
+import { Db } from 'mongodb';
+import { formatRemainingTime } from '@/lib/autoExit';
+import { messageTemplates } from '@/lib/messages';
+import { getBreakRecords } from '@/lib/seatBreaks';
+import { clearQueue, clearQueueFromStream } from '@/lib/seatQueue';
+import { vacateSeats } from '@/lib/seats';
+import type { SessionRecord } from '@/lib/sessions';
+import { getSessionWorkMs } from '@/lib/userStats';
+
+// 配信終了後、次の配信が始まれば座席を引き継ぐ猶予時間（分）。0の場合は配信終了と同時に全員を退室させる
+const STREAM_CARRY_OVER_MINUTES = Number(process.env.STREAM_CARRY_OVER_MINUTES) || 0;
+
+/**
+ * 配信ごとの状態
+ * - live: 配信中
+ * - ending: 配信は終了したが、次の配信への引き継ぎを待っている
+ * - closed: 座席を締めて終了した
+ * - carried-over: 座席を次の配信に引き継いだ
+ */
+export type StreamSessionStatus = 'live' | 'ending' | 'closed' | 'carried-over';
+
+/**
+ * 配信終了時の集計
+ */
+export interface StreamSummary {
+  participantCount: number; // 配信中に着席していたユーザー数
+  totalWorkMs: number; // 配信中に着席していた座席の作業時間の合計（休憩時間を除く）
+  exitedCount: number; // 配信終了で退室させた座席数
+}
+
+/**
+ * streamSessions コレクションに保存される配信（_id は動画ID）
+ */
+export interface StreamSession {
+  _id: string;
+  liveChatId: string;
+  title: string | null;
+  status: StreamSessionStatus;
+  startedAt: Date; // コメントを最初に取得できた日時
+  endedAt: Date | null;
+  carryOverUntil: Date | null; // この日時までに次の配信が始まれば座席を引き継ぐ
+  carriedOverTo: string | null; // 座席を引き継いだ配信の動画ID
+  closedAt: Date | null;
+  summary: StreamSummary | null;
+  updatedAt: Date;
+}
+
+/**
+ * 配信中の配信の一覧を取得する
+ * @param db MongoDB データベース接続
+ * @returns 配信中（status: live）の配信
+ */
+export async function getLiveStreamSessions(db: Db): Promise<StreamSession[]> {
+  return db.collection<StreamSession>('streamSessions').find({ status: 'live' }).toArray();
+}
+
+/**
+ * コメントを取得できた配信を配信中として記録する
+ * 終了して引き継ぎ待ちの配信がある場合は、その配信から入室した座席を新しい配信にそのまま引き継ぐ
+ * 同時に配信中の別の配信（縦型配信など）はそのまま配信中として扱う
+ * @param db MongoDB データベース接続
+ * @param stream 配信の動画ID・liveChatId・タイトル
+ */
+export async function markStreamLive(
+  db: Db,
+  stream: { videoId: string; liveChatId: string; title: string | null }
+): Promise<void> {
+  const collection = db.collection<StreamSession>('streamSessions');
+  const now = new Date();
+
+  const previousSessions = await collection.find({
+    _id: { $ne: stream.videoId },
+    status: 'ending'
+  }).toArray();
+  for (const previous of previousSessions) {
+    if (previous.carryOverUntil && previous.carryOverUntil <= now) {
+      await closeStreamSession(db, previous);
+      continue;
+    }
+    const result = await collection.updateOne(
+      { _id: previous._id, status: 'ending' },
+      { $set: { status: 'carried-over', carriedOverTo: stream.videoId, carryOverUntil: null, updatedAt: now } }
+    );
+    if (result.modifiedCount === 0) continue;
+
+    // 以降の通知が新しい配信のチャットに届くよう、座席の入室元を切り替える
+    const seatResult = await db.collection('seats').updateMany(
+      { videoId: previous._id },
+      { $set: { videoId: stream.videoId, liveChatId: stream.liveChatId } }
+    );
+    const seatCount = seatResult.modifiedCount;
+    console.log(`[StreamLifecycle] 配信(${previous._id})の座席${seatCount}件を配信(${stream.videoId})に引き継ぎました`);
+    if (seatCount > 0) {
+      await db.collection('notifications').insertOne({
+        message: messageTemplates.streamCarriedOver(stream.title || stream.videoId, seatCount),
+        type: 'info',
+        timestamp: now,
+        id: `stream_carried_${previous._id}`,
+        isRead: false
+      });
+    }
+  }
+
+  // 終了と判定した後に配信が再開した場合も、同じ配信として配信中に戻す
+  await collection.updateOne(
+    { _id: stream.videoId },
+    {
+      $set: {
+        liveChatId: stream.liveChatId,
+        title: stream.title,
+        status: 'live',
+        endedAt: null,
+        carryOverUntil: null,
+        updatedAt: now
+      },
+      $setOnInsert: { startedAt: now, carriedOverTo: null, closedAt: null, summary: null }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * 配信の終了を記録する
+ * 引き継ぎの猶予時間が設定されている場合は引き継ぎ待ちにし、そうでなければすぐに座席を締める
+ * @param db MongoDB データベース接続
+ * @param videoId 終了した配信の動画ID
+ * @param endedAt 配信が終了した日時
+ */
+export async function endStreamSession(db: Db, videoId: string, endedAt: Date): Promise<void> {
+  const collection = db.collection<StreamSession>('streamSessions');
+  const session = await collection.findOne({ _id: videoId, status: 'live' });
+  if (!session) return;
+
+  if (STREAM_CARRY_OVER_MINUTES <= 0) {
+    await closeStreamSession(db, { ...session, endedAt });
+    return;
+  }
+
+  const carryOverUntil = new Date(Date.now() + STREAM_CARRY_OVER_MINUTES * 60 * 1000);
+  const result = await collection.updateOne(
+    { _id: videoId, status: 'live' },
+    { $set: { status: 'ending', endedAt, carryOverUntil, updatedAt: new Date() } }
+  );
+  if (result.modifiedCount === 0) return;
+
+  console.log(`[StreamLifecycle] 配信(${videoId})が終了しました。${carryOverUntil.toISOString()} まで次の配信への引き継ぎを待ちます`);
+  await db.collection('notifications').insertOne({
+    message: messageTemplates.streamEnding(session.title || videoId, STREAM_CARRY_OVER_MINUTES),
+    type: 'info',
+    timestamp: new Date(),
+    id: `stream_ending_${videoId}`,
+    isRead: false
+  });
+}
+
+/**
+ * 引き継ぎの猶予時間内に次の配信が始まらなかった配信の座席を締める
+ * @param db MongoDB データベース接続
+ * @returns 締めた配信の数
+ */
+export async function closeExpiredCarryOvers(db: Db): Promise<number> {
+  const expired = await db.collection<StreamSession>('streamSessions').find({
+    status: 'ending',
+    carryOverUntil: { $lte: new Date() }
+  }).toArray();
+
+  for (const session of expired) {
+    await closeStreamSession(db, session);
+  }
+  return expired.length;
+}
+
+/**
+ * 配信を締める
+ * 着席中の座席を退室させて待機列を空にし、配信中の集計を画面にお知らせする
+ * 同時に配信中の別の配信が残っている場合は、この配信から入室した座席と待機列だけを対象にする
+ * 配信終了後はライブチャットに投稿できないため、集計はチャットには送信しない
+ * @param db MongoDB データベース接続
+ * @param session 締める配信
+ */
+async function closeStreamSession(db: Db, session: StreamSession): Promise<void> {
+  const collection = db.collection<StreamSession>('streamSessions');
+  const closedAt = new Date();
+  const endedAt = session.endedAt || closedAt;
+
+  // 複数の経路から同時に締めた場合に、集計とお知らせが重複しないようにする
+  const claimed = await collection.updateOne(
+    { _id: session._id, status: session.status },
+    { $set: { status: 'closed', endedAt, carryOverUntil: null, closedAt, updatedAt: closedAt } }
+  );
+  if (claimed.modifiedCount === 0) return;
+
+  const otherStreamCount = await collection.countDocuments({ _id: { $ne: session._id }, status: { $in: ['live', 'ending'] } });
+  const originQuery = otherStreamCount > 0 ? { videoId: session._id } : {};
+
+  const vacated = await vacateSeats(db, originQuery, 'stream-ended');
+  const clearedQueueCount = otherStreamCount > 0 ? await clearQueueFromStream(db, session._id) : await clearQueue(db);
+
+  // 配信開始後に退室した滞在（前の配信から引き継いだ座席と、今退室させた座席を含む）を集計する
+  // 配信開始前に入室した滞在は、配信開始後の作業時間だけを数える
+  const sessions = await db.collection<SessionRecord>('sessions').find({
+    ...originQuery,
+    exitTime: { $gte: session.startedAt }
+  }).toArray();
+  const participants = new Set(sessions.map(record => record.authorId || record.username));
+  const summary: StreamSummary = {
+    participantCount: participants.size,
+    totalWorkMs: sessions.reduce((total, record) => total + getStreamWorkMs(record, session.startedAt), 0),
+    exitedCount: vacated.length
+  };
+
+  await collection.updateOne({ _id: session._id }, { $set: { summary } });
+  console.log(`[StreamLifecycle] 配信(${session._id})を締めました (参加${summary.participantCount}人, 退室${summary.exitedCount}件, 待機列${clearedQueueCount}件)`);
+
+  await db.collection('notifications').insertOne({
+    message: messageTemplates.streamClosed(
+      session.title || session._id,
+      summary.participantCount,
+      summary.totalWorkMs > 0 ? formatRemainingTime(summary.totalWorkMs) : '0分',
+      summary.exitedCount
+    ),
+    type: 'info',
+    timestamp: closedAt,
+    id: `stream_closed_${session._id}`,
+    isRead: false
+  });
+}
+
+/**
+ * 滞在のうち配信開始後の作業時間を計算する（休憩時間を除く）
+ * @param record 滞在の記録
+ * @param startedAt 配信の開始日時
+ * @returns 作業時間（ミリ秒）
+ */
+function getStreamWorkMs(record: SessionRecord, startedAt: Date): number {
+  if (new Date(record.enterTime) >= startedAt) {
+    return getSessionWorkMs(record, record.exitTime);
+  }
+
+  const start = startedAt.getTime();
+  const end = new Date(record.exitTime).getTime();
+  const streamMs = Math.max(0, end - start);
+  // 休憩の一覧がない移行前の記録は、いつ休憩したかわからないため滞在全体の作業時間を配信中の時間で切り詰める
+  if (!record.breaks?.length && record.totalBreakMs > 0) {
+    return Math.min(getSessionWorkMs(record, record.exitTime), streamMs);
+  }
+
+  const breakMs = getBreakRecords(record, record.exitTime).reduce((total, breakRecord) => {
+    const overlap = Math.min(new Date(breakRecord.end).getTime(), end) - Math.max(new Date(breakRecord.start).getTime(), start);
+    return total + Math.max(0, overlap);
+  }, 0);
+  return Math.max(0, streamMs - breakMs);
+}
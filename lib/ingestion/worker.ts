@@ -0,0 +1,620 @@
+import { Db } from 'mongodb';
+import os from 'os';
+import clientPromise from '@/lib/mongodb';
+import { checkAndProcessAutoExit } from '@/lib/autoExit';
+import { acquireLease, releaseLease } from '@/lib/leases';
+import { flushChatOutbox } from '@/lib/chatOutbox';
+import { refreshLeaderboard } from '@/lib/leaderboard';
+import { getChatSource } from '@/lib/chatSource';
+import { YouTubeAPIError } from '@/lib/youtubeApiClient';
+import { processChatItems, IngestionResult } from './messages';
+import { getIngestionChannelId, getIngestionTarget, saveDetectedBroadcast, DetectedBroadcast, IngestionTarget } from './settings';
+import { getChatCursor, resetChatPageToken, saveChatCursor } from './cursor';
+import { closeExpiredCarryOvers, endStreamSession, getLiveStreamSessions, markStreamLive } from './streamLifecycle';
+import { getQuotaDay, getQuotaStatus, markQuotaExhausted, QuotaStatus, QUOTA_COSTS } from '@/lib/youtubeQuota';
+
+// 複数インスタンスのうち1つだけがコメント取得を行うためのリース名
+export const INGESTION_LEASE_NAME = 'chat-ingestion';
+// リースの有効期間。この間ハートビートがなければ他のインスタンスが引き継ぐ
+const LEASE_TTL_MS = Number(process.env.CHAT_INGESTION_LEASE_TTL_MS) || 60 * 1000;
+// リースの延長と各処理の実行判定を行う間隔
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+// コメント取得の最短間隔（APIクォータ節約のため、YouTubeの推奨間隔より短くはしない）
+const MIN_POLLING_INTERVAL_MS = Number(process.env.CHAT_POLLING_MIN_INTERVAL_MS) || 30 * 1000;
+// 動画IDが未設定の場合などに再確認するまでの間隔
+const IDLE_INTERVAL_MS = 30 * 1000;
+// 自動退室チェックの間隔
+const AUTO_EXIT_INTERVAL_MS = 60 * 1000;
+// YOUTUBE_CHANNEL_ID のチャンネルで配信が始まっていないか確認する間隔
+const BROADCAST_DISCOVERY_INTERVAL_MS = Number(process.env.BROADCAST_DISCOVERY_INTERVAL_MS) || 2 * 60 * 1000;
+// 配信中に別の放送へ切り替わっていないか確認する間隔（チャットが終了した場合はすぐに確認する）
+const BROADCAST_RECHECK_INTERVAL_MS = 5 * BROADCAST_DISCOVERY_INTERVAL_MS;
+// 配信中の配信が終了していないか確認する間隔（チャットが見つからなくなった場合はすぐに確認する）
+const STREAM_END_CHECK_INTERVAL_MS = Number(process.env.STREAM_END_CHECK_INTERVAL_MS) || 5 * 60 * 1000;
+
+/**
+ * 配信ごとのコメント取得の状態
+ */
+export interface StreamIngestionStatus {
+  videoId: string;
+  liveChatId: string | null;
+  isPrimary: boolean; // メインの配信（画面から設定した動画ID・検出した放送・YOUTUBE_VIDEO_ID）か
+  lastPolledAt: Date | null;
+  nextPollAt: Date | null;
+  backoffUntil: Date | null;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastResult: IngestionResult | null;
+  pollingIntervalMs: number | null; // 直近に決めたコメント取得間隔
+}
+
+/**
+ * コメント取得ワーカーの状態（/api/ingestion で参照する）
+ * liveChatId から pollingIntervalMs まではメインの配信の状態
+ */
+export interface IngestionStatus {
+  instanceId: string;
+  running: boolean;
+  isLeader: boolean;
+  videoId: string | null; // メインの配信の動画ID
+  liveChatId: string | null;
+  channelId: string | null; // 配信を自動で検出するチャンネル
+  broadcast: DetectedBroadcast | null; // チャンネルから検出した放送
+  nextDiscoveryAt: Date | null;
+  lastPolledAt: Date | null;
+  nextPollAt: Date | null; // いずれかの配信の次回取得時刻
+  backoffUntil: Date | null;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastResult: IngestionResult | null;
+  pollingIntervalMs: number | null;
+  quota: QuotaStatus | null; // 直近のコメント取得時点のクォータ消費状況
+  streams: StreamIngestionStatus[]; // 同時にコメントを取得しているすべての配信（メインの配信を含む）
+}
+
+/**
+ * サーバー側でライブチャットを取得し、コマンドを実行するワーカー
+ * リースを保持しているインスタンスだけがコメント取得と自動退室チェックを行う
+ */
+export class ChatIngestionWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private nextAutoExitAt = 0;
+  private nextDiscoveryAt = 0;
+  private nextStreamEndCheckAt = 0;
+  private liveStreamVideoIds = new Set<string>(); // 配信中として記録済みの動画ID
+  private streams: StreamIngestionStatus[] = [];
+  private status: IngestionStatus;
+
+  constructor(instanceId: string) {
+    this.status = {
+      instanceId,
+      running: false,
+      isLeader: false,
+      videoId: null,
+      liveChatId: null,
+      channelId: null,
+      broadcast: null,
+      nextDiscoveryAt: null,
+      lastPolledAt: null,
+      nextPollAt: null,
+      backoffUntil: null,
+      consecutiveErrors: 0,
+      lastError: null,
+      lastResult: null,
+      pollingIntervalMs: null,
+      quota: null,
+      streams: []
+    };
+  }
+
+  /**
+   * ワーカーを開始する（既に開始している場合は何もしない）
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log(`[Ingestion] ワーカーを開始します (instance: ${this.status.instanceId})`);
+    this.status.running = true;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('[Ingestion] ハートビート処理中にエラーが発生しました:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.tick().catch(error => console.error('[Ingestion] ハートビート処理中にエラーが発生しました:', error));
+  }
+
+  /**
+   * ワーカーを停止し、保持しているリースを解放する
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.status.running = false;
+    if (this.status.isLeader) {
+      try {
+        const db = await getDb();
+        await releaseLease(db, INGESTION_LEASE_NAME, this.status.instanceId);
+        console.log('[Ingestion] リースを解放しました');
+      } catch (error) {
+        console.error('[Ingestion] リースの解放に失敗しました:', error);
+      }
+      this.status.isLeader = false;
+    }
+  }
+
+  /**
+   * 現在の状態を取得する
+   */
+  getStatus(): IngestionStatus {
+    return {
+      ...this.status,
+      nextDiscoveryAt: this.nextDiscoveryAt ? new Date(this.nextDiscoveryAt) : null,
+      streams: this.streams.map(stream => ({ ...stream }))
+    };
+  }
+
+  /**
+   * 間隔を待たずにコメントを1回取得する（手動実行・外部スケジューラ用）
+   * 他のインスタンスがリースを保持している場合は実行しない
+   * @returns 実行した場合は処理結果、実行しなかった場合はその理由
+   */
+  async runOnce(): Promise<{ executed: boolean; reason?: string; status: IngestionStatus }> {
+    if (this.isTicking) {
+      return { executed: false, reason: 'このインスタンスで処理中です', status: this.getStatus() };
+    }
+    this.isTicking = true;
+    try {
+      const db = await getDb();
+      if (!(await this.renewLease(db))) {
+        return { executed: false, reason: '他のインスタンスがコメント取得を担当しています', status: this.getStatus() };
+      }
+      await this.poll(db, true);
+      await this.flushOutbox(db);
+      return { executed: true, status: this.getStatus() };
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * ハートビートごとの処理
+   * リースを延長し、期限が来ていれば自動退室チェック・ランキングの更新とコメント取得を行う
+   */
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+    try {
+      const db = await getDb();
+      if (!(await this.renewLease(db))) return;
+
+      const now = Date.now();
+      if (now >= this.nextAutoExitAt) {
+        this.nextAutoExitAt = now + AUTO_EXIT_INTERVAL_MS;
+        try {
+          // 座席ごとの入室元の配信に通知する（入室元が記録されていない座席はメインの配信に通知する）
+          await checkAndProcessAutoExit(db, true, this.status.liveChatId);
+        } catch (error) {
+          console.error('[Ingestion] 自動退室チェック中にエラーが発生しました:', error);
+        }
+        try {
+          await closeExpiredCarryOvers(db);
+        } catch (error) {
+          console.error('[Ingestion] 配信の引き継ぎ待ちの確認中にエラーが発生しました:', error);
+        }
+        try {
+          // 順位か表示する作業時間が変わった場合だけ保存され、SSEで画面に送られる
+          await refreshLeaderboard(db);
+        } catch (error) {
+          console.error('[Ingestion] ランキングの更新中にエラーが発生しました:', error);
+        }
+      }
+
+      if (now >= this.nextStreamEndCheckAt) {
+        await this.checkStreamEnded(db);
+      }
+
+      if (now >= this.nextDiscoveryAt) {
+        await this.discoverBroadcast(db);
+      }
+
+      if (!this.status.nextPollAt || now >= this.status.nextPollAt.getTime()) {
+        await this.poll(db);
+      }
+
+      // コマンドの返信・自動退室の通知などの送信待ちをまとめて送信する
+      await this.flushOutbox(db);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * リースを取得・延長する
+   * @returns このインスタンスがリースを保持していればtrue
+   */
+  private async renewLease(db: Db): Promise<boolean> {
+    const wasLeader = this.status.isLeader;
+    try {
+      this.status.isLeader = await acquireLease(db, INGESTION_LEASE_NAME, this.status.instanceId, LEASE_TTL_MS);
+    } catch (error) {
+      console.error('[Ingestion] リースの取得に失敗しました:', error);
+      this.status.isLeader = false;
+    }
+    if (this.status.isLeader !== wasLeader) {
+      console.log(`[Ingestion] コメント取得の担当を${this.status.isLeader ? '引き継ぎました' : '外れました'}`);
+    }
+    return this.status.isLeader;
+  }
+
+  /**
+   * 送信待ちのメッセージ（chatOutbox）を送信する
+   */
+  private async flushOutbox(db: Db): Promise<void> {
+    try {
+      const result = await flushChatOutbox(db);
+      if (result.sent > 0 || result.deadLettered > 0) {
+        console.log(`[Ingestion] チャットに${result.sent}件投稿しました (メッセージ${result.delivered}件, 再送待ち${result.retried}件, デッドレター${result.deadLettered}件)`);
+      }
+    } catch (error) {
+      console.error('[Ingestion] 送信待ちメッセージの送信中にエラーが発生しました:', error);
+    }
+  }
+
+  /**
+   * YOUTUBE_CHANNEL_ID のチャンネルで配信中の放送を探し、コメント取得の対象として保存する
+   * 配信の開始・再起動（別の動画IDでの配信）・終了を検出すると、画面にお知らせを表示する
+   */
+  private async discoverBroadcast(db: Db): Promise<void> {
+    const channelId = getIngestionChannelId();
+    this.status.channelId = channelId;
+    if (!channelId) {
+      this.status.broadcast = null;
+      this.nextDiscoveryAt = Date.now() + IDLE_INTERVAL_MS;
+      return;
+    }
+
+    const chatSource = getChatSource();
+    if (chatSource.name === 'youtube') {
+      const quota = await getQuotaStatus(db);
+      if (quota.remaining < QUOTA_COSTS['videos.list']) {
+        this.nextDiscoveryAt = quota.resetAt.getTime();
+        return;
+      }
+    }
+
+    try {
+      const previous = (await getIngestionTarget(db)).broadcast;
+      const found = await chatSource.findLiveBroadcast(channelId);
+      const now = new Date();
+      const broadcast: DetectedBroadcast | null = found
+        ? { ...found, channelId, detectedAt: previous?.videoId === found.videoId ? previous.detectedAt : now, checkedAt: now }
+        : null;
+      await saveDetectedBroadcast(db, broadcast);
+      this.status.broadcast = broadcast;
+      this.nextDiscoveryAt = Date.now() + (broadcast?.status === 'live' ? BROADCAST_RECHECK_INTERVAL_MS : BROADCAST_DISCOVERY_INTERVAL_MS);
+
+      if (broadcast?.videoId === previous?.videoId && broadcast?.status === previous?.status) return;
+
+      if (previous?.status === 'live') {
+        // 配信中だった放送が見つからなくなった・切り替わった場合は、終了していないかすぐに確認する
+        this.nextStreamEndCheckAt = 0;
+      }
+
+      let message: string;
+      if (!broadcast) {
+        message = `配信「${previous?.title}」が見つからなくなりました`;
+      } else if (broadcast.status === 'upcoming') {
+        message = `配信予定の「${broadcast.title}」を検出しました。配信が始まるとコメントの取得を開始します`;
+      } else {
+        message = `配信中の「${broadcast.title}」を検出しました。コメントの取得を開始します`;
+      }
+      if (broadcast) {
+        // 以前に配信前として Negative Cache された動画IDでも、すぐにコメントを取得できるようにする
+        chatSource.clearNegativeCache(broadcast.videoId);
+      }
+      console.log(`[Ingestion] ${message} (videoId: ${broadcast?.videoId || previous?.videoId})`);
+      await db.collection('notifications').insertOne({
+        message,
+        type: 'info',
+        timestamp: now,
+        id: `broadcast_${broadcast?.videoId || previous?.videoId}_${broadcast?.status || 'none'}`,
+        isRead: false
+      });
+    } catch (error) {
+      console.error('[Ingestion] 配信中の放送の確認中にエラーが発生しました:', error);
+      this.nextDiscoveryAt = Date.now() + BROADCAST_DISCOVERY_INTERVAL_MS;
+    }
+  }
+
+  /**
+   * 配信中として記録した配信が終了していないか確認し、終了していれば座席を締める
+   * actualEndTime が設定された場合か、配信中だった動画の activeLiveChatId がなくなった場合に終了とみなす
+   */
+  private async checkStreamEnded(db: Db): Promise<void> {
+    this.nextStreamEndCheckAt = Date.now() + STREAM_END_CHECK_INTERVAL_MS;
+
+    try {
+      const sessions = await getLiveStreamSessions(db);
+      if (sessions.length === 0) return;
+
+      const chatSource = getChatSource();
+      for (const session of sessions) {
+        if (chatSource.name === 'youtube') {
+          const quota = await getQuotaStatus(db);
+          if (quota.remaining < QUOTA_COSTS['videos.list']) {
+            this.nextStreamEndCheckAt = quota.resetAt.getTime();
+            return;
+          }
+        }
+
+        const state = await chatSource.getBroadcastState(session._id);
+        if (!state.actualEndTime && state.liveChatId) continue;
+
+        console.log(`[Ingestion] 配信(${session._id})の終了を検出しました (${state.actualEndTime ? `終了日時: ${state.actualEndTime.toISOString()}` : 'ライブチャットなし'})`);
+        await endStreamSession(db, session._id, state.actualEndTime || new Date());
+        this.liveStreamVideoIds.delete(session._id);
+      }
+    } catch (error) {
+      console.error('[Ingestion] 配信の終了の確認中にエラーが発生しました:', error);
+    }
+  }
+
+  /**
+   * コメント取得の対象の配信ごとに、取得時刻が来ていればコメントを1ページ取得して処理する
+   * @param db MongoDB データベース接続
+   * @param force trueの場合は各配信の取得間隔を待たずに取得する（バックオフ中・YouTubeの推奨間隔内は取得しない）
+   */
+  private async poll(db: Db, force: boolean = false): Promise<void> {
+    const target = await getIngestionTarget(db);
+    this.syncStreams(target);
+
+    for (const stream of this.streams) {
+      if (force || !stream.nextPollAt || Date.now() >= stream.nextPollAt.getTime()) {
+        await this.pollStream(db, stream, target);
+      }
+    }
+
+    // メインの配信の状態を全体の状態として公開し、次回はいずれかの配信の取得時刻に確認する
+    const primary = this.streams.find(stream => stream.isPrimary);
+    this.status.liveChatId = primary?.liveChatId || null;
+    this.status.lastPolledAt = primary?.lastPolledAt || null;
+    this.status.backoffUntil = primary?.backoffUntil || null;
+    this.status.consecutiveErrors = primary?.consecutiveErrors || 0;
+    this.status.lastError = primary?.lastError || null;
+    this.status.lastResult = primary?.lastResult || null;
+    this.status.pollingIntervalMs = primary?.pollingIntervalMs || null;
+    const nextPollTimes = this.streams.map(stream => stream.nextPollAt?.getTime() || Date.now());
+    this.status.nextPollAt = new Date(nextPollTimes.length > 0 ? Math.min(...nextPollTimes) : Date.now() + IDLE_INTERVAL_MS);
+  }
+
+  /**
+   * コメント取得の対象に合わせて配信ごとの状態を作り直す
+   * 対象から外れた配信の状態は捨て、新しく加わった配信（配信の再起動を含む）は前の配信のバックオフを引き継がない
+   * @param target コメント取得の対象
+   */
+  private syncStreams(target: IngestionTarget): void {
+    if (target.videoId !== this.status.videoId) {
+      console.log(`[Ingestion] コメント取得対象の動画IDが${target.videoId || '未設定'}になりました`);
+      this.status.videoId = target.videoId;
+    }
+
+    const videoIds = target.videoId ? [target.videoId, ...target.additionalVideoIds] : target.additionalVideoIds;
+    this.streams = videoIds.map(videoId => {
+      const isPrimary = videoId === target.videoId;
+      const existing = this.streams.find(stream => stream.videoId === videoId);
+      if (existing) {
+        existing.isPrimary = isPrimary;
+        return existing;
+      }
+      if (!isPrimary) {
+        console.log(`[Ingestion] 配信(${videoId})のコメントも同時に取得します`);
+      }
+      return {
+        videoId,
+        liveChatId: null,
+        isPrimary,
+        lastPolledAt: null,
+        nextPollAt: null,
+        backoffUntil: null,
+        consecutiveErrors: 0,
+        lastError: null,
+        lastResult: null,
+        pollingIntervalMs: null
+      };
+    });
+  }
+
+  /**
+   * 配信のコメントを1ページ取得して処理する
+   * エラーの種類に応じて次回の取得時刻をずらす
+   * @param db MongoDB データベース接続
+   * @param stream 取得する配信の状態
+   * @param target コメント取得の対象
+   */
+  private async pollStream(db: Db, stream: StreamIngestionStatus, target: IngestionTarget): Promise<void> {
+    const now = Date.now();
+    const videoId = stream.videoId;
+    if (stream.backoffUntil && now < stream.backoffUntil.getTime()) {
+      stream.nextPollAt = stream.backoffUntil;
+      return;
+    }
+
+    // 検出した放送が配信予定でチャットがまだ開いていない場合は、次の確認まで待つ
+    const broadcastChatId = stream.isPrimary && target.videoIdSource === 'broadcast' ? target.broadcast?.liveChatId : undefined;
+    if (broadcastChatId === null) {
+      stream.nextPollAt = new Date(Math.max(this.nextDiscoveryAt, now + IDLE_INTERVAL_MS));
+      return;
+    }
+
+    try {
+      const chatSource = getChatSource();
+      const liveChatId = broadcastChatId || await chatSource.getLiveChatId(videoId);
+      stream.liveChatId = liveChatId;
+
+      // 前回の読み取り位置から続けて取得する（再起動後も同じ位置から再開する）
+      const cursor = await getChatCursor(db, liveChatId);
+      if (cursor?.nextPollAt && now < cursor.nextPollAt.getTime()) {
+        stream.nextPollAt = cursor.nextPollAt;
+        return;
+      }
+
+      // クォータの残りがコメント取得1回分もなければリセットまで待つ
+      // 同時に取得する配信の数だけ1日の予算を分け合うため、見込み消費量は配信の数で割った間隔で計算する
+      // ダミーのチャット（CHAT_SOURCE=mock）はクォータを消費しないため、間隔の下限も設けない
+      const usesQuota = chatSource.name === 'youtube';
+      const streamCount = this.streams.length;
+      const quota = usesQuota
+        ? await getQuotaStatus(db, stream.pollingIntervalMs ? stream.pollingIntervalMs / streamCount : undefined)
+        : null;
+      this.status.quota = quota;
+      if (quota && quota.remaining < QUOTA_COSTS['liveChatMessages.list']) {
+        console.log(`[Ingestion] 本日のクォータを使い切ったため、${quota.resetAt.toISOString()} までコメント取得を停止します`);
+        stream.lastError = 'YouTube APIのクォータを使い切りました。リセットまでコメント取得を停止します';
+        stream.backoffUntil = quota.resetAt;
+        stream.nextPollAt = quota.resetAt;
+        return;
+      }
+
+      let chatData;
+      try {
+        chatData = await chatSource.getLiveChatMessages(liveChatId, cursor?.nextPageToken || undefined);
+      } catch (error) {
+        if (cursor?.nextPageToken && error instanceof YouTubeAPIError && error.status === 400) {
+          // ページトークンが無効になった場合は最新ページから読み直す（古いコメントは lastPublishedAt で除外される）
+          console.warn('[Ingestion] ページトークンが無効なため、最新のページから取得し直します');
+          await resetChatPageToken(db, liveChatId);
+        }
+        throw error;
+      }
+      const result = await processChatItems(db, chatData.items || [], { videoId, liveChatId }, cursor?.lastPublishedAt || null);
+
+      if (result.processedCount > 0) {
+        console.log(`[Ingestion] 配信(${videoId})の${result.processedCount}件のコメントを処理しました (コマンド${result.commands.length}件, お知らせ${result.announcementCount}件)`);
+      }
+
+      if (!this.liveStreamVideoIds.has(videoId)) {
+        // コメントを取得できた配信を配信中として記録する（終了した前の配信の座席はここで引き継ぐ）
+        await markStreamLive(db, {
+          videoId,
+          liveChatId,
+          title: target.broadcast?.videoId === videoId ? target.broadcast.title : null
+        });
+        this.liveStreamVideoIds.add(videoId);
+        this.nextStreamEndCheckAt = Math.min(this.nextStreamEndCheckAt || Infinity, Date.now() + STREAM_END_CHECK_INTERVAL_MS);
+      }
+
+      stream.lastResult = result;
+      stream.lastPolledAt = new Date();
+      stream.lastError = null;
+      stream.consecutiveErrors = 0;
+      // YouTubeの推奨間隔と、1日の予算内に収まる間隔のうち長い方を使う
+      const quotaIntervalMs = quota ? quota.minPollingIntervalMs * streamCount : 0;
+      const interval = quota
+        ? Math.max(MIN_POLLING_INTERVAL_MS, chatData.pollingIntervalMillis || 0, quotaIntervalMs)
+        : chatData.pollingIntervalMillis || MIN_POLLING_INTERVAL_MS;
+      if (quota && interval === quotaIntervalMs && interval !== stream.pollingIntervalMs) {
+        console.log(`[Ingestion] クォータ節約のため配信(${videoId})のコメント取得間隔を${Math.round(interval / 1000)}秒にします (残り${quota.remaining})`);
+      }
+      stream.pollingIntervalMs = interval;
+      stream.nextPollAt = new Date(Date.now() + interval);
+      await saveChatCursor(db, liveChatId, {
+        nextPageToken: chatData.nextPageToken || null,
+        lastPublishedAt: result.latestPublishedAt,
+        nextPollAt: new Date(Date.now() + (chatData.pollingIntervalMillis || 0))
+      });
+    } catch (error) {
+      await this.handlePollError(db, stream, error);
+    }
+  }
+
+  /**
+   * コメント取得エラーに応じて配信のバックオフを設定する
+   * @param db MongoDB データベース接続
+   * @param stream エラーが発生した配信の状態
+   * @param error 発生したエラー
+   */
+  private async handlePollError(db: Db, stream: StreamIngestionStatus, error: unknown): Promise<void> {
+    const now = Date.now();
+    const errorMessage = error instanceof Error ? error.message : undefined;
+    stream.lastError = errorMessage || 'コメントの取得中に不明なエラーが発生しました';
+    console.error(`[Ingestion] 配信(${stream.videoId})のコメントまたはliveChatId取得エラー:`, stream.lastError);
+
+    let backoffMs: number | null = null;
+
+    if (error instanceof YouTubeAPIError && (error.status === 404 || error.code === 'NOT_FOUND' || error.code === 'NOT_FOUND_NEGATIVE_CACHE')) {
+      // ライブチャットが見つからない（配信前・終了後など）。youtubeApiClient 側でも Negative Cache される
+      backoffMs = 5 * 60 * 1000;
+      // チャンネルから配信を検出している場合は、配信の再起動で動画が変わっていないかすぐに確認する
+      this.nextDiscoveryAt = 0;
+      this.nextStreamEndCheckAt = 0;
+    } else if (errorMessage?.includes('quota')) {
+      // クォータ超過はリセットまで回復しないため、台帳に記録して再起動後もリセットまで待つ
+      try {
+        await markQuotaExhausted(db);
+      } catch (dbError) {
+        console.error('[Ingestion] クォータ超過の記録に失敗しました:', dbError);
+      }
+      const { resetAt } = getQuotaDay();
+      backoffMs = resetAt.getTime() - now;
+      console.log(`[Ingestion] APIクォータ超過を検出しました。${resetAt.toISOString()} までAPIリクエストを抑制します`);
+    } else if (error instanceof YouTubeAPIError && error.status === 403) {
+      // 権限エラー（チャットが無効・終了など）は10分後に再確認する
+      backoffMs = 10 * 60 * 1000;
+      this.nextDiscoveryAt = 0;
+      this.nextStreamEndCheckAt = 0;
+    } else if (stream.consecutiveErrors + 1 > 3) {
+      // 連続エラーが続く場合は指数バックオフ（最大5分）
+      backoffMs = Math.min(Math.pow(2, stream.consecutiveErrors + 1) * 1000, 5 * 60 * 1000);
+    }
+
+    stream.consecutiveErrors++;
+    if (backoffMs) {
+      stream.backoffUntil = new Date(now + backoffMs);
+      stream.nextPollAt = stream.backoffUntil;
+    } else {
+      stream.nextPollAt = new Date(now + MIN_POLLING_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * コメント取得で使うデータベース接続を取得する
+ */
+async function getDb(): Promise<Db> {
+  const client = await clientPromise;
+  return client.db('coworking');
+}
+
+// 開発時のHMRでワーカーが重複して起動しないよう、グローバルに保持する
+const globalWithWorker = global as typeof globalThis & {
+  _chatIngestionWorker?: ChatIngestionWorker;
+};
+
+/**
+ * このインスタンスのコメント取得ワーカーを取得する
+ */
+export function getChatIngestionWorker(): ChatIngestionWorker {
+  if (!globalWithWorker._chatIngestionWorker) {
+    const instanceId = `${os.hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+    globalWithWorker._chatIngestionWorker = new ChatIngestionWorker(instanceId);
+  }
+  return globalWithWorker._chatIngestionWorker;
+}
+
+/**
+ * コメント取得ワーカーを開始する（サーバー起動時に instrumentation.ts から呼ばれる）
+ * CHAT_INGESTION_ENABLED=false の場合は開始しない
+ */
+export function startChatIngestionWorker(): void {
+  if (process.env.CHAT_INGESTION_ENABLED === 'false') {
+    console.log('[Ingestion] CHAT_INGESTION_ENABLED=false のためワーカーを開始しません');
+    return;
+  }
+  const worker = getChatIngestionWorker();
+  worker.start();
+
+  // 終了時にリースを解放し、他のインスタンスがすぐに引き継げるようにする
+  process.once('SIGTERM', () => {
+    worker.stop().finally(() => process.exit(0));
+  });
+}
@@ -0,0 +1,21 @@
+import { assignRanks } from '@/lib/leaderboard';
+
+function entry(username: string, workMs: number) {
+  return { authorId: null, username, profileImageUrl: null, workMs };
+}
+
+describe('assignRanks', () => {
+  it('作業時間の多い順に順位を付ける', () => {
+    const ranked = assignRanks([entry('A', 100), entry('B', 300), entry('C', 200)]);
+    expect(ranked.map(item => [item.username, item.rank])).toEqual([['B', 1], ['C', 2], ['A', 3]]);
+  });
+
+  it('作業時間が同じ場合は同じ順位にし、次の順位は人数分空ける', () => {
+    const ranked = assignRanks([entry('A', 300), entry('B', 200), entry('C', 200), entry('D', 100)]);
+    expect(ranked.map(item => item.rank)).toEqual([1, 2, 2, 4]);
+  });
+
+  it('作業時間のないユーザーは順位を付けない', () => {
+    expect(assignRanks([entry('A', 0), entry('B', 100)]).map(item => item.username)).toEqual(['B']);
+  });
+});
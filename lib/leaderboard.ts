@@ -0,0 +1,197 @@
+import { Db } from 'mongodb';
+import { aggregateStudyStats, getPeriodKey } from '@/lib/studyStats';
+import { getDateKey, STATS_TIMEZONE } from '@/lib/userStats';
+
+// 画面のランキングに表示する人数
+const LEADERBOARD_SIZE = Number(process.env.LEADERBOARD_SIZE) || 5;
+// leaderboards コレクションのドキュメントID
+const LEADERBOARD_ID = 'current';
+
+/**
+ * ランキングの期間
+ * - today: 今日
+ * - week: 今週（月曜始まり）
+ * - month: 今月
+ */
+export type LeaderboardPeriod = 'today' | 'week' | 'month';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['today', 'week', 'month'];
+
+/**
+ * ランキングの1行
+ */
+export interface LeaderboardEntry {
+  rank: number; // 作業時間が同じ場合は同じ順位
+  authorId: string | null;
+  username: string;
+  profileImageUrl: string | null;
+  workMs: number;
+}
+
+/**
+ * 期間ごとのランキング
+ */
+export interface LeaderboardRanking {
+  from: string; // 期間の初日（YYYY-MM-DD）
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * leaderboards コレクションに保存される、画面に表示中のランキング
+ * ドキュメントが置き換わるとSSEで画面に送られる
+ */
+export interface Leaderboard {
+  _id: string;
+  timeZone: string;
+  periods: Record<LeaderboardPeriod, LeaderboardRanking>;
+  updatedAt: Date;
+}
+
+/**
+ * 期間ごとの全員の順位
+ */
+type FullRankings = Record<LeaderboardPeriod, LeaderboardRanking>;
+
+/**
+ * 期間ごとの初日を取得する
+ * @param todayKey 今日の日付（YYYY-MM-DD）
+ * @returns 期間ごとの初日
+ */
+function getPeriodStarts(todayKey: string): Record<LeaderboardPeriod, string> {
+  return {
+    today: todayKey,
+    week: getPeriodKey(todayKey, 'week'),
+    month: `${getPeriodKey(todayKey, 'month')}-01`
+  };
+}
+
+/**
+ * 作業時間の多い順に並べて順位を付ける（作業時間が同じ場合は同じ順位）
+ * @param entries 順位のないランキング
+ * @returns 順位を付けたランキング
+ */
+export function assignRanks(entries: Omit<LeaderboardEntry, 'rank'>[]): LeaderboardEntry[] {
+  const sorted = entries
+    .filter(entry => entry.workMs > 0)
+    .sort((a, b) => b.workMs - a.workMs);
+  const ranked: LeaderboardEntry[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const rank = previous && previous.workMs === entry.workMs ? previous.rank : index + 1;
+    ranked.push({ ...entry, rank });
+  });
+  return ranked;
+}
+
+/**
+ * 今日・今週・今月の全員の順位を計算する
+ * 今週と今月のうち早いほうの初日から1回だけ集計し、日ごとの作業時間を期間ごとに合計する
+ * @param db MongoDB データベース接続
+ * @param now 基準時刻
+ * @returns 期間ごとの全員の順位
+ */
+async function computeRankings(db: Db, now: Date): Promise<FullRankings> {
+  const todayKey = getDateKey(now, STATS_TIMEZONE);
+  const starts = getPeriodStarts(todayKey);
+  const from = starts.week < starts.month ? starts.week : starts.month;
+
+  const stats = await aggregateStudyStats(db, { from, to: todayKey, timeZone: STATS_TIMEZONE, period: 'day' }, now);
+
+  const rankings = {} as FullRankings;
+  for (const period of LEADERBOARD_PERIODS) {
+    rankings[period] = {
+      from: starts[period],
+      entries: assignRanks(stats.users.map(user => ({
+        authorId: user.authorId,
+        username: user.username,
+        profileImageUrl: user.profileImageUrl,
+        workMs: user.periods
+          .filter(day => day.key >= starts[period])
+          .reduce((total, day) => total + day.workMs, 0)
+      })))
+    };
+  }
+  return rankings;
+}
+
+/**
+ * ランキングを計算し直し、順位か表示する作業時間（分単位）が変わった場合だけ保存する
+ * 保存すると leaderboards の変更がSSEで画面に送られる
+ * @param db MongoDB データベース接続
+ * @param now 基準時刻
+ * @returns 保存した場合はtrue
+ */
+export async function refreshLeaderboard(db: Db, now: Date = new Date()): Promise<boolean> {
+  const rankings = await computeRankings(db, now);
+  const periods = {} as Record<LeaderboardPeriod, LeaderboardRanking>;
+  for (const period of LEADERBOARD_PERIODS) {
+    periods[period] = { ...rankings[period], entries: rankings[period].entries.slice(0, LEADERBOARD_SIZE) };
+  }
+
+  const collection = db.collection<Leaderboard>('leaderboards');
+  const current = await collection.findOne({ _id: LEADERBOARD_ID });
+  if (current && getLeaderboardSignature(current.periods) === getLeaderboardSignature(periods)) {
+    return false;
+  }
+
+  await collection.replaceOne(
+    { _id: LEADERBOARD_ID },
+    { timeZone: STATS_TIMEZONE, periods, updatedAt: now },
+    { upsert: true }
+  );
+  return true;
+}
+
+/**
+ * 画面に表示する内容が変わったかを比べるための文字列を作る
+ * @param periods 期間ごとのランキング
+ * @returns 期間・順位・ユーザー・作業時間（分単位）をつなげた文字列
+ */
+function getLeaderboardSignature(periods: Record<LeaderboardPeriod, LeaderboardRanking>): string {
+  return LEADERBOARD_PERIODS.map(period => {
+    const ranking = periods[period];
+    const entries = ranking.entries.map(entry =>
+      `${entry.rank}:${entry.authorId || entry.username}:${entry.username}:${entry.profileImageUrl || ''}:${Math.floor(entry.workMs / 60000)}`
+    );
+    return `${period}@${ranking.from}=${entries.join(',')}`;
+  }).join('|');
+}
+
+/**
+ * 画面に表示中のランキングを取得する（まだ計算していない場合は計算する）
+ * @param db MongoDB データベース接続
+ * @returns ランキング
+ */
+export async function getLeaderboard(db: Db): Promise<Leaderboard | null> {
+  const collection = db.collection<Leaderboard>('leaderboards');
+  const current = await collection.findOne({ _id: LEADERBOARD_ID });
+  if (current) return current;
+
+  await refreshLeaderboard(db);
+  return collection.findOne({ _id: LEADERBOARD_ID });
+}
+
+/**
+ * ユーザーの今日・今週・今月の順位を取得する
+ * @param db MongoDB データベース接続
+ * @param user チャンネルIDまたは表示名
+ * @param now 基準時刻
+ * @returns 期間ごとの順位と参加人数（作業していない期間の順位はnull）
+ */
+export async function getUserRanks(
+  db: Db,
+  user: { authorId?: string; username: string },
+  now: Date = new Date()
+): Promise<Record<LeaderboardPeriod, { entry: LeaderboardEntry | null; participantCount: number }>> {
+  const rankings = await computeRankings(db, now);
+  const result = {} as Record<LeaderboardPeriod, { entry: LeaderboardEntry | null; participantCount: number }>;
+  for (const period of LEADERBOARD_PERIODS) {
+    const entries = rankings[period].entries;
+    const entry = entries.find(candidate =>
+      user.authorId ? candidate.authorId === user.authorId : !candidate.authorId && candidate.username === user.username
+    ) || null;
+    result[period] = { entry, participantCount: entries.length };
+  }
+  return result;
+}
+
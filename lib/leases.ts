@@ -0,0 +1,65 @@
+import { Db, MongoServerError } from 'mongodb';
+
+// MongoDB の重複キーエラーコード
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * leases コレクションに保存されるリース
+ * 複数のサーバーインスタンスのうち1つだけが処理を実行するために使う
+ */
+export interface Lease {
+  _id: string; // リース名
+  owner: string; // 保持しているインスタンスのID
+  acquiredAt: Date; // リースを最初に作成した時刻
+  expiresAt: Date;
+}
+
+/**
+ * リースを取得または延長する
+ * 他のインスタンスが期限内のリースを保持している場合は取得できない
+ * @param db MongoDB データベース接続
+ * @param name リース名
+ * @param owner 取得するインスタンスのID
+ * @param ttlMs リースの有効期間（ミリ秒）。この間に延長しなければ他のインスタンスが取得できる
+ * @returns 取得（延長）できた場合はtrue
+ */
+export async function acquireLease(db: Db, name: string, owner: string, ttlMs: number): Promise<boolean> {
+  const now = new Date();
+  try {
+    const result = await db.collection<Lease>('leases').findOneAndUpdate(
+      { _id: name, $or: [{ owner }, { expiresAt: { $lt: now } }] },
+      {
+        $set: { owner, expiresAt: new Date(now.getTime() + ttlMs) },
+        $setOnInsert: { acquiredAt: now }
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return result.value?.owner === owner;
+  } catch (error) {
+    // 他のインスタンスが保持中の場合は条件に一致せず upsert が重複キーで失敗する
+    if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 保持しているリースを解放する
+ * @param db MongoDB データベース接続
+ * @param name リース名
+ * @param owner 保持しているインスタンスのID
+ */
+export async function releaseLease(db: Db, name: string, owner: string): Promise<void> {
+  await db.collection<Lease>('leases').deleteOne({ _id: name, owner });
+}
+
+/**
+ * リースの現在の状態を取得する
+ * @param db MongoDB データベース接続
+ * @param name リース名
+ * @returns リース（存在しない場合はnull）
+ */
+export async function getLease(db: Db, name: string): Promise<Lease | null> {
+  return db.collection<Lease>('leases').findOne({ _id: name });
+}
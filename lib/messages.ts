@@ -1,22 +1,71 @@
 export interface MessageTemplate {
-  seatTaken: (username: string, roomId: string, position: number, taskName?: string) => string;
-  seatVacated: (username: string, roomId: string, position: number) => string;
+  seatTaken: (username: string, roomName: string, position: number, taskName?: string) => string;
+  seatVacated: (username: string, roomName: string, position: number) => string;
   taskUpdated: (username: string, taskName: string) => string;
+  taskCompleted: (username: string, taskName: string, completedCount: number, nextTask?: string) => string;
   welcome: (username: string) => string;
   error: (message: string) => string;
-  noSeatAvailable: (username: string) => string;
-  autoExited: (username: string, roomId: string, position: number) => string;
+  noSeatAvailable: (username: string, roomName: string, queuePosition: number) => string;
+  autoExited: (username: string, roomName: string, position: number) => string;
+  breakStarted: (username: string) => string;
+  breakEnded: (username: string, breakDuration: string) => string;
+  autoExitExtended: (username: string, minutes: number, remaining: string) => string;
+  extendLimitReached: (username: string, maxHours: number) => string;
+  status: (username: string, status: UserStatusSummary) => string;
+  statusNotSeated: (username: string, todayTotal: string, streakDays: number) => string;
+  roomNotFound: (username: string, roomName: string) => string;
+  roomList: (roomNames: string[]) => string;
+  roomFull: (username: string, roomName: string) => string;
+  queuePromoted: (username: string, roomName: string, position: number) => string;
+  queueLeft: (username: string, roomName: string) => string;
+  seatKicked: (username: string, roomName: string) => string;
+  usernameAmbiguous: (username: string, targetName: string) => string;
+  commandInvalid: (username: string, error: string) => string;
+  roomClosed: (roomName: string, exitedCount: number) => string;
+  roomOpened: (roomName: string) => string;
+  roomUnavailable: (username: string, roomName: string) => string;
+  allSeatsCleared: (exitedCount: number) => string;
+  supportThanks: (username: string, eventLabel: string, perks: string[]) => string;
+  streamEnding: (title: string, carryOverMinutes: number) => string;
+  streamCarriedOver: (title: string, seatCount: number) => string;
+  streamClosed: (title: string, participantCount: number, totalWork: string, exitedCount: number) => string;
+  rank: (username: string, ranks: UserRankSummary) => string;
+  rankNotFound: (username: string) => string;
+  achievementUnlocked: (username: string, achievements: string[]) => string;
+}
+
+/**
+ * /me コマンドで返信するユーザーの状況
+ */
+export interface UserStatusSummary {
+  task: string;
+  elapsed: string;
+  remaining: string;
+  todayTotal: string;
+  streakDays: number;
+}
+
+/**
+ * /rank コマンドで返信する期間ごとの順位（作業していない期間は「記録なし」）
+ */
+export interface UserRankSummary {
+  today: string;
+  week: string;
+  month: string;
 }
 
 export const messageTemplates: MessageTemplate = {
-  seatTaken: (username: string, roomId: string, position: number, taskName?: string) =>
-    `🪑 ${username}さんが「${taskName || '作業中'}」のため、部屋${roomId}の座席${position}に着席しました！`,
+  seatTaken: (username: string, roomName: string, position: number, taskName?: string) =>
+    `🪑 ${username}さんが「${taskName || '作業中'}」のため、${roomName}の座席${position}に着席しました！`,
   
-  seatVacated: (username: string, roomId: string, position: number) =>
-    `👋 ${username}さんが部屋${roomId}の座席${position}から退席しました。`,
+  seatVacated: (username: string, roomName: string, position: number) =>
+    `👋 ${username}さんが${roomName}の座席${position}から退席しました。`,
   
   taskUpdated: (username: string, taskName: string) =>
     `📝 ${username}さんが作業内容を「${taskName}」に更新しました。`,
+
+  taskCompleted: (username: string, taskName: string, completedCount: number, nextTask?: string) =>
+    `✅ ${username}さんが「${taskName}」を完了しました！（今回${completedCount}個目）${nextTask ? `次は「${nextTask}」に取り組みます。` : ''}`,
   
   welcome: (username: string) =>
     `👋 ようこそ、${username}さん！`,
@@ -24,9 +73,111 @@ export const messageTemplates: MessageTemplate = {
   error: (message: string) =>
     `❌ エラーが発生しました: ${message}`,
     
-  noSeatAvailable: (username: string) =>
-    `😓 申し訳ありませんが、${username}さん向けの空席がありません。後ほど再度お試しください。`,
+  noSeatAvailable: (username: string, roomName: string, queuePosition: number) =>
+    `😓 申し訳ありませんが、${roomName}は満席です。${username}さんを待機列の${queuePosition}番目に追加しました。空席ができたら自動で着席します（/leave-queue でキャンセル）。`,
     
-  autoExited: (username: string, roomId: string, position: number) =>
-    `⏱ ${username}さんが2時間経過したため、部屋${roomId}の座席${position}から自動退席しました。`,
-};
\ No newline at end of file
+  autoExited: (username: string, roomName: string, position: number) =>
+    `⏱ ${username}さんが滞在時間を過ぎたため、${roomName}の座席${position}から自動退席しました。`,
+
+  breakStarted: (username: string) =>
+    `☕ ${username}さんが休憩に入りました。座席はそのまま確保されています。`,
+
+  breakEnded: (username: string, breakDuration: string) =>
+    `💪 ${username}さんが休憩から戻りました！（休憩時間: ${breakDuration}）`,
+
+  autoExitExtended: (username: string, minutes: number, remaining: string) =>
+    `⏳ ${username}さんの滞在を${minutes}分延長しました。自動退室まで残り${remaining}です。`,
+
+  extendLimitReached: (username: string, maxHours: number) =>
+    `🚫 ${username}さんは滞在時間の上限（${maxHours}時間）に達しているため、これ以上延長できません。`,
+
+  status: (username: string, status: UserStatusSummary) =>
+    `📊 ${username}さん: 「${status.task}」作業中 ${status.elapsed} / 自動退室まで${status.remaining} / 今日の合計${status.todayTotal} / 連続${status.streakDays}日`,
+
+  statusNotSeated: (username: string, todayTotal: string, streakDays: number) =>
+    `📊 ${username}さんは現在入室していません。今日の合計${todayTotal} / 連続${streakDays}日`,
+
+  roomNotFound: (username: string, roomName: string) =>
+    `🤔 ${username}さん、「${roomName}」という部屋は見つかりませんでした。/room で部屋の一覧を確認できます。`,
+
+  roomList: (roomNames: string[]) =>
+    `🏠 部屋一覧: ${roomNames.join(' / ')}（/work @部屋名 タスク名 で入室）`,
+
+  roomFull: (username: string, roomName: string) =>
+    `😓 ${username}さん、${roomName}は満席のため移動できませんでした。`,
+
+  queuePromoted: (username: string, roomName: string, position: number) =>
+    `🎉 お待たせしました！${username}さんが待機列から${roomName}の座席${position}に着席しました！`,
+
+  queueLeft: (username: string, roomName: string) =>
+    `🚶 ${username}さんが${roomName}の待機列から抜けました。`,
+
+  seatKicked: (username: string, roomName: string) =>
+    `🚪 ${username}さんはモデレーターにより${roomName}から退室となりました。`,
+
+  usernameAmbiguous: (username: string, targetName: string) =>
+    `🤔 ${username}さん、「${targetName}」という名前のユーザーが複数入室しているため、対象を特定できませんでした。`,
+
+  commandInvalid: (username: string, error: string) =>
+    `⚠️ ${username}さん、コマンドを実行できませんでした: ${error}`,
+
+  roomClosed: (roomName: string, exitedCount: number) =>
+    `🔒 ${roomName}の受付を終了しました。（${exitedCount}人が退室しました）`,
+
+  roomOpened: (roomName: string) =>
+    `🔓 ${roomName}の受付を再開しました！`,
+
+  roomUnavailable: (username: string, roomName: string) =>
+    `🔒 ${username}さん、${roomName}は現在受付を停止しています。`,
+
+  allSeatsCleared: (exitedCount: number) =>
+    `🧹 すべての座席をリセットしました。（${exitedCount}人が退室しました）おつかれさまでした！`,
+
+  supportThanks: (username: string, eventLabel: string, perks: string[]) =>
+    `🎊 ${username}さん、${eventLabel}ありがとうございます！${perks.length > 0 ? `（特典: ${perks.join('・')}）` : ''}`,
+
+  streamEnding: (title: string, carryOverMinutes: number) =>
+    `📺 配信「${title}」が終了しました。${carryOverMinutes}分以内に次の配信が始まれば、座席はそのまま引き継がれます。`,
+
+  streamCarriedOver: (title: string, seatCount: number) =>
+    `🔁 ${seatCount}人の座席を配信「${title}」に引き継ぎました。引き続きがんばりましょう！`,
+
+  streamClosed: (title: string, participantCount: number, totalWork: string, exitedCount: number) =>
+    `🎬 配信「${title}」が終了しました。参加${participantCount}人・合計${totalWork}の作業おつかれさまでした！（${exitedCount}人が退室しました）`,
+
+  rank: (username: string, ranks: UserRankSummary) =>
+    `🏆 ${username}さんの順位: 今日 ${ranks.today} / 今週 ${ranks.week} / 今月 ${ranks.month}`,
+
+  rankNotFound: (username: string) =>
+    `🏆 ${username}さんは今週・今月の作業の記録がまだありません。/work で入室してランキングに参加しましょう！`,
+
+  achievementUnlocked: (username: string, achievements: string[]) =>
+    `🏆 ${username}さんが実績${achievements.map(achievement => `「${achievement}」`).join('')}を達成しました！おめでとうございます！`,
+};
+
+/**
+ * 送信待ちの間に同じ種類が複数たまった場合に、1件にまとめて送信できるメッセージの種類
+ */
+export type MergeableMessageKind = 'seatTaken' | 'seatVacated' | 'autoExited' | 'queuePromoted' | 'breakStarted';
+
+const joinUsernames = (usernames: string[]) => usernames.map(username => `${username}さん`).join('、');
+
+/**
+ * 同じ種類のメッセージを1件にまとめたときのテンプレート（例: 「Aさん、Bさん、Cさんが着席しました！」）
+ */
+export const mergedMessageTemplates: Record<MergeableMessageKind, (usernames: string[]) => string> = {
+  seatTaken: (usernames: string[]) =>
+    `🪑 ${joinUsernames(usernames)}が着席しました！`,
+
+  seatVacated: (usernames: string[]) =>
+    `👋 ${joinUsernames(usernames)}が退席しました。`,
+
+  autoExited: (usernames: string[]) =>
+    `⏱ ${joinUsernames(usernames)}が滞在時間を過ぎたため自動退席しました。`,
+
+  queuePromoted: (usernames: string[]) =>
+    `🎉 お待たせしました！${joinUsernames(usernames)}が待機列から着席しました！`,
+
+  breakStarted: (usernames: string[]) =>
+    `☕ ${joinUsernames(usernames)}が休憩に入りました。`,
+};
@@ -41,10 +41,12 @@ export type Seat = {
   username: string | null;
   authorId: string | null;
   task: string | null;
+  tasks: { name: string; startedAt: Date; endedAt: Date | null; completed: boolean }[];
   enterTime: Date | null;
-  exitTime: Date | null;
-  is_active: boolean;
   autoExitScheduled: Date | null;
+  breakStartedAt: Date | null;
+  breaks: { start: Date; end: Date }[];
+  totalBreakMs: number;
   profileImageUrl: string | null;
   timestamp: Date;
   created_at: Date;
@@ -0,0 +1,97 @@
+import { Db, Document, Filter } from 'mongodb';
+import type { RoomType } from '@/lib/types';
+
+// 部屋が指定されなかった場合に使う部屋ID（部屋機能導入前の座席もこの部屋に属する）
+export const DEFAULT_ROOM_ID = 'focus-room';
+
+/**
+ * rooms コレクションに保存される部屋設定
+ */
+export interface RoomConfig {
+  roomId: string;
+  name: string;
+  type: RoomType;
+  capacity: number | null; // null の場合は上限なし
+  autoExitHours: number; // 入室から自動退室までの時間
+  order: number; // 表示順
+  closed?: boolean; // true の場合は入室・待機・移動を受け付けない（/closeroom で設定）
+}
+
+// rooms コレクションが空の場合に作成する部屋
+const DEFAULT_ROOMS: RoomConfig[] = [
+  {
+    roomId: DEFAULT_ROOM_ID,
+    name: 'フォーカスルーム',
+    type: 'silent',
+    capacity: null,
+    autoExitHours: 2,
+    order: 0
+  }
+];
+
+/**
+ * 部屋設定の一覧を取得する（未設定の場合はデフォルトの部屋を作成する）
+ * @param db MongoDB データベース接続
+ * @returns 表示順に並んだ部屋設定
+ */
+export async function getRooms(db: Db): Promise<RoomConfig[]> {
+  const roomsCollection = db.collection<RoomConfig>('rooms');
+  const rooms = await roomsCollection
+    .find({}, { projection: { _id: 0 } })
+    .sort({ order: 1 })
+    .toArray();
+  if (rooms.length > 0) {
+    return rooms;
+  }
+
+  console.log('[Rooms] 部屋が設定されていないため、デフォルトの部屋を作成します');
+  await Promise.all(DEFAULT_ROOMS.map(room =>
+    roomsCollection.updateOne({ roomId: room.roomId }, { $setOnInsert: room }, { upsert: true })
+  ));
+  return DEFAULT_ROOMS;
+}
+
+/**
+ * 部屋IDまたは部屋名から部屋設定を取得する（大文字小文字は区別しない）
+ * @param db MongoDB データベース接続
+ * @param nameOrId 部屋IDまたは部屋名（先頭の @ は無視する）
+ * @returns 部屋設定、見つからない場合はnull
+ */
+export async function findRoom(db: Db, nameOrId: string): Promise<RoomConfig | null> {
+  const key = nameOrId.replace(/^@/, '').toLowerCase();
+  const rooms = await getRooms(db);
+  return rooms.find(room => room.roomId.toLowerCase() === key || room.name.toLowerCase() === key) || null;
+}
+
+/**
+ * デフォルトの部屋設定を取得する
+ * @param db MongoDB データベース接続
+ * @returns デフォルトの部屋設定（存在しない場合は先頭の部屋）
+ */
+export async function getDefaultRoom(db: Db): Promise<RoomConfig> {
+  const rooms = await getRooms(db);
+  return rooms.find(room => room.roomId === DEFAULT_ROOM_ID) || rooms[0] || DEFAULT_ROOMS[0];
+}
+
+/**
+ * 指定した部屋の座席を検索する条件を作る
+ * デフォルトの部屋の場合は room_id を持たない過去の座席も含める
+ * @param roomId 部屋ID
+ * @returns MongoDB の検索条件
+ */
+export function roomSeatQuery(roomId: string): Filter<Document> {
+  return roomId === DEFAULT_ROOM_ID
+    ? { room_id: { $in: [roomId, null] } }
+    : { room_id: roomId };
+}
+
+/**
+ * 部屋の受付を停止・再開する
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID
+ * @param closed true で受付停止、false で再開
+ */
+export async function setRoomClosed(db: Db, roomId: string, closed: boolean): Promise<void> {
+  await db.collection<RoomConfig>('rooms').updateOne({ roomId }, { $set: { closed } });
+  console.log(`[Rooms] 部屋${roomId}の受付を${closed ? '停止' : '再開'}しました`);
+}
@@ -0,0 +1,63 @@
+import { Db, ObjectId } from 'mongodb';
+import { endBreak } from '@/lib/seatBreaks';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2025-03-10T03:00:00Z');
+
+function fakeDb(modifiedCount: number) {
+  const updateOne = jest.fn(async () => ({ modifiedCount }));
+  const db = { collection: () => ({ updateOne }) } as unknown as Db;
+  return { db, updateOne };
+}
+
+describe('endBreak', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // 20分前から休憩中で、40分後に自動退室する座席
+  const seat = {
+    _id: new ObjectId(),
+    username: 'A',
+    breakStartedAt: new Date(NOW.getTime() - 20 * MINUTE),
+    autoExitScheduled: new Date(NOW.getTime() + 40 * MINUTE),
+    totalBreakMs: 10 * MINUTE,
+  };
+
+  it('休憩時間を累積し、自動退室時刻を休憩時間の分だけ延ばす', async () => {
+    const { db, updateOne } = fakeDb(1);
+
+    expect(await endBreak(db, seat)).toBe(20 * MINUTE);
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: seat._id, breakStartedAt: seat.breakStartedAt },
+      {
+        $set: {
+          breakStartedAt: null,
+          totalBreakMs: 30 * MINUTE,
+          timestamp: NOW,
+          autoExitScheduled: new Date(NOW.getTime() + 60 * MINUTE),
+        },
+        $push: { breaks: { start: seat.breakStartedAt, end: NOW } },
+      }
+    );
+  });
+
+  it('他の処理で既に休憩が終了していた場合はnullを返す', async () => {
+    const { db } = fakeDb(0);
+
+    expect(await endBreak(db, seat)).toBeNull();
+  });
+
+  it('休憩中でない座席は更新しない', async () => {
+    const { db, updateOne } = fakeDb(1);
+
+    expect(await endBreak(db, { ...seat, breakStartedAt: null })).toBeNull();
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
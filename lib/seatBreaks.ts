@@ -0,0 +1,94 @@
+import { Db, Document, WithId } from 'mongodb';
+
+/**
+ * 座席ドキュメントの breaks に保存される休憩の記録（終了した休憩を開始順に保持する）
+ */
+export interface SeatBreakRecord {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * 座席の休憩の一覧を取得する（休憩中の場合は基準時刻で終了したものとして含める）
+ * 休憩の一覧を持たない過去の座席は、休憩中の休憩のみを返す
+ * @param seat 座席ドキュメント（breaks, breakStartedAt を参照）
+ * @param now 基準時刻
+ * @returns 開始順の休憩の一覧
+ */
+export function getBreakRecords(seat: Document, now: Date = new Date()): SeatBreakRecord[] {
+  const breaks: SeatBreakRecord[] = Array.isArray(seat.breaks) ? [...seat.breaks] : [];
+  if (seat.breakStartedAt) {
+    breaks.push({ start: new Date(seat.breakStartedAt), end: now });
+  }
+  return breaks;
+}
+
+/**
+ * 休憩中の経過時間を含めた合計休憩時間を計算する
+ * @param seat 座席ドキュメント（breakStartedAt, totalBreakMs を参照）
+ * @param now 基準時刻
+ * @returns 合計休憩時間（ミリ秒）
+ */
+export function getTotalBreakMs(seat: Document, now: Date = new Date()): number {
+  const accumulated = seat.totalBreakMs || 0;
+  if (!seat.breakStartedAt) {
+    return accumulated;
+  }
+  const ongoing = now.getTime() - new Date(seat.breakStartedAt).getTime();
+  return accumulated + Math.max(0, ongoing);
+}
+
+/**
+ * 座席を休憩状態にする
+ * 休憩中は自動退室のカウントダウンが一時停止する（MAX_BREAK_MINUTES を超えた休憩は自動退室の対象になる）
+ * @param db MongoDB データベース接続
+ * @param seat 対象の座席ドキュメント
+ * @returns 休憩を開始した場合はtrue（既に休憩中の場合はfalse）
+ */
+export async function startBreak(db: Db, seat: WithId<Document>): Promise<boolean> {
+  if (seat.breakStartedAt) {
+    return false;
+  }
+  const now = new Date();
+  const result = await db.collection('seats').updateOne(
+    { _id: seat._id, breakStartedAt: null },
+    { $set: { breakStartedAt: now, timestamp: now } }
+  );
+  console.log(`[Break] ${seat.username}の休憩を開始しました`);
+  return result.modifiedCount > 0;
+}
+
+/**
+ * 座席の休憩を終了する
+ * 休憩していた時間の分だけ自動退室予定時刻を後ろにずらし、休憩の一覧に追加する
+ * @param db MongoDB データベース接続
+ * @param seat 対象の座席ドキュメント
+ * @returns 今回の休憩時間（ミリ秒）。休憩中でなかった場合（他の処理で既に終了していた場合を含む）はnull
+ */
+export async function endBreak(db: Db, seat: WithId<Document>): Promise<number | null> {
+  if (!seat.breakStartedAt) {
+    return null;
+  }
+  const now = new Date();
+  const breakMs = Math.max(0, now.getTime() - new Date(seat.breakStartedAt).getTime());
+  const update: Document = {
+    breakStartedAt: null,
+    totalBreakMs: (seat.totalBreakMs || 0) + breakMs,
+    timestamp: now
+  };
+  if (seat.autoExitScheduled) {
+    update.autoExitScheduled = new Date(new Date(seat.autoExitScheduled).getTime() + breakMs);
+  }
+
+  const breakRecord: SeatBreakRecord = { start: new Date(seat.breakStartedAt), end: now };
+  // 同じ休憩を二重に終了しないよう、読み取った時点の休憩開始時刻と一致する場合だけ更新する
+  const result = await db.collection('seats').updateOne(
+    { _id: seat._id, breakStartedAt: seat.breakStartedAt },
+    { $set: update, $push: { breaks: breakRecord } }
+  );
+  if (result.modifiedCount === 0) {
+    return null;
+  }
+  console.log(`[Break] ${seat.username}の休憩を終了しました (${Math.round(breakMs / 60000)}分)`);
+  return breakMs;
+}
@@ -0,0 +1,160 @@
+import { Db, Filter } from 'mongodb';
+import { findRoom, RoomConfig } from '@/lib/rooms';
+import { createSeat, isRoomFull, RoomFullError, SeatOccupant } from '@/lib/seats';
+
+/**
+ * seatQueue コレクションに保存される待機列のエントリ
+ */
+export interface QueueEntry extends SeatOccupant {
+  room_id: string;
+  queuedAt: Date;
+}
+
+/**
+ * 待機列から着席したユーザー
+ */
+export interface PromotedEntry {
+  username: string;
+  authorId?: string;
+  liveChatId?: string; // 入室元の配信のライブチャットID
+  roomId: string;
+  roomName: string;
+  position: number;
+  seatId: string;
+}
+
+/**
+ * 部屋の待機列に追加する（既に待機中の場合はタスク名と部屋を更新する）
+ * @param db MongoDB データベース接続
+ * @param room 待機する部屋
+ * @param occupant 待機するユーザー
+ * @returns 待機列での順番（1始まり）
+ */
+export async function enqueue(db: Db, room: RoomConfig, occupant: SeatOccupant): Promise<number> {
+  const queueCollection = db.collection<QueueEntry>('seatQueue');
+  const userQuery = occupant.authorId ? { authorId: occupant.authorId } : { username: occupant.username };
+
+  const existing = await queueCollection.findOne(userQuery);
+  if (existing && existing.room_id === room.roomId) {
+    await queueCollection.updateOne(
+      { _id: existing._id },
+      { $set: { task: occupant.task, videoId: occupant.videoId, liveChatId: occupant.liveChatId } }
+    );
+  } else {
+    // 別の部屋で待機していた場合は並び直しになる
+    await queueCollection.deleteMany(userQuery);
+    await queueCollection.insertOne({ ...occupant, room_id: room.roomId, queuedAt: new Date() });
+  }
+
+  const entry = await queueCollection.findOne(userQuery);
+  const ahead = await queueCollection.countDocuments({
+    room_id: room.roomId,
+    queuedAt: { $lt: entry?.queuedAt || new Date() }
+  });
+  console.log(`[Queue] ${occupant.username}を${room.roomId}の待機列${ahead + 1}番目に追加しました`);
+  return ahead + 1;
+}
+
+/**
+ * 待機列から抜ける
+ * @param db MongoDB データベース接続
+ * @param userQuery ユーザーを特定する条件（authorId または username）
+ * @returns 待機していた部屋ID（待機していなかった場合はnull）
+ */
+export async function leaveQueue(db: Db, userQuery: Filter<QueueEntry>): Promise<string | null> {
+  const result = await db.collection<QueueEntry>('seatQueue').findOneAndDelete(userQuery);
+  return result.value ? result.value.room_id : null;
+}
+
+/**
+ * 待機列を空にする
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID（省略時はすべての部屋）
+ * @returns 削除したエントリ数
+ */
+export async function clearQueue(db: Db, roomId?: string): Promise<number> {
+  const result = await db.collection<QueueEntry>('seatQueue').deleteMany(roomId ? { room_id: roomId } : {});
+  return result.deletedCount;
+}
+
+/**
+ * 配信から並んだユーザーを待機列から外す
+ * @param db MongoDB データベース接続
+ * @param videoId 入室元の配信の動画ID
+ * @returns 削除したエントリ数
+ */
+export async function clearQueueFromStream(db: Db, videoId: string): Promise<number> {
+  const result = await db.collection<QueueEntry>('seatQueue').deleteMany({ videoId });
+  return result.deletedCount;
+}
+
+/**
+ * 部屋の待機列を取得する
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID（省略時はすべての部屋）
+ * @returns 待機順に並んだエントリ
+ */
+export async function getQueue(db: Db, roomId?: string) {
+  return db.collection<QueueEntry>('seatQueue')
+    .find(roomId ? { room_id: roomId } : {})
+    .sort({ queuedAt: 1, _id: 1 })
+    .toArray();
+}
+
+/**
+ * 空席がある限り、待機列の先頭から順に着席させる
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID
+ * @returns 着席したユーザーの一覧
+ */
+export async function promoteFromQueue(db: Db, roomId: string): Promise<PromotedEntry[]> {
+  const promoted: PromotedEntry[] = [];
+  const room = await findRoom(db, roomId);
+  if (!room || room.closed) return promoted;
+
+  const queueCollection = db.collection<QueueEntry>('seatQueue');
+  while (!(await isRoomFull(db, room))) {
+    // 先頭のエントリを取り出す（同時に処理された場合も1人が二重に着席しないように削除で確保する）
+    const result = await queueCollection.findOneAndDelete(
+      { room_id: room.roomId },
+      { sort: { queuedAt: 1, _id: 1 } }
+    );
+    const entry = result.value;
+    if (!entry) break;
+
+    // 待機中に別の方法で入室していた場合はスキップ
+    const userQuery = entry.authorId ? { authorId: entry.authorId } : { username: entry.username };
+    const alreadySeated = await db.collection('seats').findOne(userQuery);
+    if (alreadySeated) continue;
+
+    let seat: { id: string; position: number };
+    try {
+      seat = await createSeat(db, room, {
+        username: entry.username,
+        authorId: entry.authorId,
+        task: entry.task,
+        profileImageUrl: entry.profileImageUrl,
+        videoId: entry.videoId,
+        liveChatId: entry.liveChatId
+      });
+    } catch (error) {
+      // 着席できなかった場合は、同じ順番（_id・queuedAt はそのまま）で待機列に戻す
+      await queueCollection.insertOne(entry);
+      // 満席の確認の後に他のユーザーが着席した場合は、次に空席ができるまで待つ
+      if (error instanceof RoomFullError) break;
+      throw error;
+    }
+    console.log(`[Queue] ${entry.username}が待機列から${room.roomId}の座席${seat.position}に着席しました`);
+    promoted.push({
+      username: entry.username,
+      authorId: entry.authorId,
+      liveChatId: entry.liveChatId,
+      roomId: room.roomId,
+      roomName: room.name,
+      position: seat.position,
+      seatId: seat.id
+    });
+  }
+
+  return promoted;
+}
@@ -0,0 +1,111 @@
+import { Db, Document, MatchKeysAndValues, WithId } from 'mongodb';
+
+/**
+ * 座席ドキュメントの tasks に保存されるタスクの記録
+ * 1回の滞在（座席）で取り組んだタスクを開始順に保持する
+ */
+export interface SeatTaskRecord {
+  name: string;
+  startedAt: Date;
+  endedAt: Date | null; // 取り組み中はnull
+  completed: boolean; // /done で完了した場合のみtrue
+}
+
+/**
+ * 新しく開始するタスクの記録を作る
+ * @param name タスク名
+ * @param now 開始時刻
+ * @returns タスクの記録
+ */
+export function createTaskRecord(name: string, now: Date = new Date()): SeatTaskRecord {
+  return { name, startedAt: now, endedAt: null, completed: false };
+}
+
+/**
+ * 座席のタスク一覧を取得する
+ * タスク一覧を持たない過去の座席は、現在のタスク名を滞在全体のタスクとして扱う
+ * @param seat 座席ドキュメント
+ * @returns 開始順のタスク一覧
+ */
+export function getSeatTasks(seat: Document): SeatTaskRecord[] {
+  if (Array.isArray(seat.tasks)) {
+    return seat.tasks;
+  }
+  if (!seat.task || !seat.enterTime) {
+    return [];
+  }
+  return [{
+    name: seat.task,
+    startedAt: new Date(seat.enterTime),
+    endedAt: seat.exitTime ? new Date(seat.exitTime) : null,
+    completed: false
+  }];
+}
+
+/**
+ * 完了したタスクの数を数える
+ * @param seat 座席ドキュメント
+ * @returns /done で完了したタスクの数
+ */
+export function countCompletedTasks(seat: Document): number {
+  return getSeatTasks(seat).filter(task => task.completed).length;
+}
+
+/**
+ * 取り組み中のタスクを終了させたタスク一覧を返す
+ * @param seat 座席ドキュメント
+ * @param now 終了時刻
+ * @param completed 完了として記録するか（退室やタスク変更の場合はfalse）
+ * @returns 更新後のタスク一覧
+ */
+export function endCurrentTask(seat: Document, now: Date = new Date(), completed: boolean = false): SeatTaskRecord[] {
+  return getSeatTasks(seat).map(task =>
+    task.endedAt ? task : { ...task, endedAt: now, completed }
+  );
+}
+
+/**
+ * 取り組み中のタスクを終了し、新しいタスクを開始する（/work でタスクを変更した場合）
+ * @param db MongoDB データベース接続
+ * @param seat 対象の座席ドキュメント
+ * @param name 新しいタスク名
+ */
+export async function startTask(db: Db, seat: WithId<Document>, name: string): Promise<void> {
+  const now = new Date();
+  const tasks = [...endCurrentTask(seat, now), createTaskRecord(name, now)];
+  await db.collection('seats').updateOne(
+    { _id: seat._id },
+    { $set: { task: name, tasks, timestamp: now } }
+  );
+}
+
+/**
+ * 取り組み中のタスクを完了にする（/done）
+ * 次のタスク名が指定された場合はそのまま開始する
+ * @param db MongoDB データベース接続
+ * @param seat 対象の座席ドキュメント
+ * @param nextTask 続けて開始するタスク名
+ * @returns 完了したタスクの記録（取り組み中のタスクがなかった場合はnull）
+ */
+export async function completeCurrentTask(
+  db: Db,
+  seat: WithId<Document>,
+  nextTask?: string
+): Promise<SeatTaskRecord | null> {
+  const now = new Date();
+  const current = getSeatTasks(seat).find(task => !task.endedAt);
+  if (!current) {
+    return null;
+  }
+
+  const tasks = endCurrentTask(seat, now, true);
+  // 次のタスクがなければ、次に /work するまで取り組み中のタスクはなしになる
+  const update: MatchKeysAndValues<Document> = { tasks, task: nextTask || null, timestamp: now };
+  if (nextTask) {
+    tasks.push(createTaskRecord(nextTask, now));
+  }
+
+  await db.collection('seats').updateOne({ _id: seat._id }, { $set: update });
+  console.log(`[Tasks] ${seat.username}がタスク「${current.name}」を完了しました`);
+  return { ...current, endedAt: now, completed: true };
+}
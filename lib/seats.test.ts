@@ -0,0 +1,26 @@
+import type { Db } from 'mongodb';
+import { findLowestFreePosition } from '@/lib/seats';
+
+function fakeDb(positions: number[]): Db {
+  const seats = [...positions].sort((a, b) => a - b).map(position => ({ position }));
+  return {
+    collection: () => ({
+      find: () => ({ sort: () => ({ toArray: async () => seats }) }),
+    }),
+  } as unknown as Db;
+}
+
+describe('findLowestFreePosition', () => {
+  it('空いている部屋は1番を返す', async () => {
+    expect(await findLowestFreePosition(fakeDb([]), 'focus')).toBe(1);
+  });
+
+  it('途中の空いている番号を返す', async () => {
+    expect(await findLowestFreePosition(fakeDb([1, 2, 4, 5]), 'focus')).toBe(3);
+    expect(await findLowestFreePosition(fakeDb([2, 3]), 'focus')).toBe(1);
+  });
+
+  it('すべて埋まっている場合は最後の次の番号を返す', async () => {
+    expect(await findLowestFreePosition(fakeDb([1, 2, 3]), 'focus')).toBe(4);
+  });
+});
@@ -0,0 +1,269 @@
+import { Db, Document, Filter, MongoServerError, ObjectId, OptionalId, WithId } from 'mongodb';
+import { scheduleAutoExit } from '@/lib/autoExit';
+import { createTaskRecord } from '@/lib/seatTasks';
+import { endSeatSession } from '@/lib/sessions';
+import { roomSeatQuery, RoomConfig } from '@/lib/rooms';
+
+// 部屋内の座席番号の重複を防ぐユニークインデックス（seats には着席中の座席だけが入る）
+export const SEAT_POSITION_INDEX = 'room_position_unique';
+// 同じユーザーが複数の配信から同時に入室しても座席が1つになるようにするユニーク部分インデックス
+export const SEAT_AUTHOR_INDEX = 'author_unique';
+// 座席番号が競合した場合に割り当てをやり直す回数
+const MAX_ALLOCATION_ATTEMPTS = 5;
+// ユーザー名を大文字小文字を区別せずに比較する照合順序
+const USERNAME_COLLATION = { locale: 'en', strength: 2 };
+// MongoDB の重複キーエラーコード
+const DUPLICATE_KEY_ERROR = 11000;
+
+let seatIndexesEnsured = false;
+
+/**
+ * 定員に達した部屋に座席を割り当てようとした場合のエラー
+ * 満席の判定と座席の書き込みの間に他のユーザーが着席した場合も、割り当て時にこのエラーになる
+ */
+export class RoomFullError extends Error {
+  roomId: string;
+  constructor(roomId: string) {
+    super(`部屋${roomId}は満席です`);
+    this.name = 'RoomFullError';
+    this.roomId = roomId;
+  }
+}
+
+/**
+ * モデレーターの操作や配信の終了で退室させた理由（sessions.exitReason に保存する）
+ */
+export type SeatExitReason = 'kicked' | 'room-closed' | 'cleared' | 'stream-ended';
+
+/**
+ * 新しく着席するユーザーの情報
+ */
+export interface SeatOccupant {
+  username: string;
+  authorId?: string;
+  task: string;
+  profileImageUrl?: string;
+  videoId?: string; // 入室元の配信の動画ID
+  liveChatId?: string; // 入室元の配信のライブチャットID（BOTからの通知はこのチャットに送る）
+}
+
+/**
+ * 部屋ごとの座席番号と、ユーザーごとの座席をユニークにするインデックスを作成する（プロセスごとに1回）
+ * 以前の is_active で絞り込んだインデックスが残っている・既存データに重複がある場合は作成に失敗するため、
+ * scripts/migrate-seats.js を実行すること
+ * @param db MongoDB データベース接続
+ */
+export async function ensureSeatIndexes(db: Db): Promise<void> {
+  if (seatIndexesEnsured) return;
+  try {
+    const seatsCollection = db.collection('seats');
+    await seatsCollection.createIndex(
+      { room_id: 1, position: 1 },
+      { name: SEAT_POSITION_INDEX, unique: true }
+    );
+    await seatsCollection.createIndex(
+      { authorId: 1 },
+      {
+        name: SEAT_AUTHOR_INDEX,
+        unique: true,
+        partialFilterExpression: { authorId: { $type: 'string' } }
+      }
+    );
+    seatIndexesEnsured = true;
+  } catch (indexError) {
+    // インデックスがなくても割り当て自体は続行する（同時入室時の重複のみ防げなくなる）
+    console.error('[Seats] 座席のユニークインデックスを作成できませんでした:', (indexError instanceof MongoServerError && indexError.codeName) || indexError);
+  }
+}
+
+/**
+ * 部屋の空いている最小の座席番号を取得する
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID
+ * @returns 着席中の座席が使っていない最小の座席番号（1始まり）
+ */
+export async function findLowestFreePosition(db: Db, roomId: string): Promise<number> {
+  const activeSeats = await db.collection('seats')
+    .find(roomSeatQuery(roomId), { projection: { position: 1 } })
+    .sort({ position: 1 })
+    .toArray();
+
+  let position = 1;
+  for (const seat of activeSeats) {
+    if (seat.position > position) break;
+    if (seat.position === position) position++;
+  }
+  return position;
+}
+
+/**
+ * 空いている最小の座席番号を割り当てて書き込む
+ * 同時に同じ番号を割り当てた場合はユニークインデックスで後から書き込んだ方が失敗するので、番号を取り直して再試行する
+ * 空いている最小の番号が定員を超える場合は満席として書き込まない（同時に入室しても定員を超えない）
+ * @param db MongoDB データベース接続
+ * @param room 部屋設定
+ * @param write 割り当てた座席番号で座席を書き込む処理
+ * @returns 書き込み処理の結果
+ * @throws RoomFullError 部屋が満席の場合
+ */
+async function withAllocatedPosition<T>(
+  db: Db,
+  room: RoomConfig,
+  write: (position: number) => Promise<T>
+): Promise<T> {
+  const roomId = room.roomId;
+  await ensureSeatIndexes(db);
+
+  for (let attempt = 1; ; attempt++) {
+    const position = await findLowestFreePosition(db, roomId);
+    if (room.capacity && position > room.capacity) {
+      throw new RoomFullError(roomId);
+    }
+    try {
+      return await write(position);
+    } catch (error) {
+      // 同じユーザーが別の配信から同時に入室した場合などは、座席番号を取り直しても解決しない
+      const isPositionConflict = error instanceof MongoServerError
+        && error.code === DUPLICATE_KEY_ERROR
+        && !error.keyPattern?.authorId;
+      if (!isPositionConflict || attempt >= MAX_ALLOCATION_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`[Seats] 部屋${roomId}の座席${position}が競合したため再割り当てします (${attempt}/${MAX_ALLOCATION_ATTEMPTS})`);
+    }
+  }
+}
+
+/**
+ * 部屋の着席中の座席数を数える
+ * @param db MongoDB データベース接続
+ * @param roomId 部屋ID
+ * @returns 着席中の座席数
+ */
+export async function countOccupiedSeats(db: Db, roomId: string): Promise<number> {
+  return db.collection('seats').countDocuments(roomSeatQuery(roomId));
+}
+
+/**
+ * 部屋が満席かどうか判定する
+ * @param db MongoDB データベース接続
+ * @param room 部屋設定
+ * @returns 定員に達していればtrue（定員なしの部屋は常にfalse）
+ */
+export async function isRoomFull(db: Db, room: RoomConfig): Promise<boolean> {
+  if (!room.capacity) return false;
+  return (await countOccupiedSeats(db, room.roomId)) >= room.capacity;
+}
+
+/**
+ * 部屋に新しい座席を作成し、部屋の設定に従って自動退室時間を設定する
+ * @param db MongoDB データベース接続
+ * @param room 部屋設定
+ * @param occupant 着席するユーザー
+ * @returns 作成した座席のIDと座席番号
+ * @throws RoomFullError 部屋が満席の場合
+ */
+export async function createSeat(
+  db: Db,
+  room: RoomConfig,
+  occupant: SeatOccupant
+): Promise<{ id: string; position: number }> {
+  const now = new Date();
+
+  const { insertedId, position } = await withAllocatedPosition(db, room, async position => {
+    const newSeat: OptionalId<Document> = {
+      room_id: room.roomId,
+      position,
+      username: occupant.username,
+      authorId: occupant.authorId,
+      task: occupant.task,
+      tasks: [createTaskRecord(occupant.task, now)],
+      enterTime: now,
+      timestamp: now,
+      created_at: now
+    };
+
+    // 有効なプロフィール画像URLが提供された場合のみ設定
+    if (occupant.profileImageUrl) {
+      newSeat.profileImageUrl = occupant.profileImageUrl;
+    }
+    // Web UI から入室した場合は入室元の配信がない
+    if (occupant.liveChatId) {
+      newSeat.videoId = occupant.videoId;
+      newSeat.liveChatId = occupant.liveChatId;
+    }
+
+    const insertResult = await db.collection('seats').insertOne(newSeat);
+    return { insertedId: insertResult.insertedId, position };
+  });
+  console.log(`[Seats] New seat created: Room ${room.roomId}, Position ${position} for ${occupant.username} (${insertedId.toString()})`);
+
+  await scheduleAutoExit(db, position, room.autoExitHours, room.roomId);
+
+  return { id: insertedId.toString(), position };
+}
+
+/**
+ * 着席中の座席を別の部屋に移動する
+ * 入室時刻・休憩時間・自動退室時刻は引き継ぐ
+ * @param db MongoDB データベース接続
+ * @param seatId 移動する座席のID
+ * @param room 移動先の部屋設定
+ * @returns 移動先の座席番号
+ * @throws RoomFullError 移動先の部屋が満席の場合
+ */
+export async function moveSeatToRoom(db: Db, seatId: ObjectId, room: RoomConfig): Promise<number> {
+  const position = await withAllocatedPosition(db, room, async position => {
+    await db.collection('seats').updateOne(
+      { _id: seatId },
+      { $set: { room_id: room.roomId, position, timestamp: new Date() } }
+    );
+    return position;
+  });
+  console.log(`[Seats] 座席(${seatId.toString()})を部屋${room.roomId}の座席${position}に移動しました`);
+  return position;
+}
+
+/**
+ * ユーザー名で着席中の座席を探す（先頭の @ と大文字小文字は区別しない）
+ * 同じ表示名のユーザーが複数入室しているかを判定できるよう、最大2件を返す
+ * @param db MongoDB データベース接続
+ * @param name ユーザー名（@付きでも可）
+ * @returns 見つかった座席（着席していない場合は空、同じ名前のユーザーが複数いる場合は2件）
+ */
+export async function findActiveSeatsByUsername(db: Db, name: string): Promise<WithId<Document>[]> {
+  const key = name.trim().replace(/^@/, '');
+  if (!key) return [];
+  return db.collection('seats')
+    .find({ username: { $in: [key, `@${key}`] } })
+    .collation(USERNAME_COLLATION)
+    .limit(2)
+    .toArray();
+}
+
+/**
+ * 条件に一致する着席中の座席をまとめて退室させ、それぞれの滞在を sessions に記録する
+ * @param db MongoDB データベース接続
+ * @param query 退室させる座席の条件
+ * @param exitReason 退室理由
+ * @returns 退室させた座席（退室直前の状態）
+ */
+export async function vacateSeats(
+  db: Db,
+  query: Filter<Document>,
+  exitReason: SeatExitReason
+): Promise<WithId<Document>[]> {
+  const seats = await db.collection('seats').find(query, { projection: { _id: 1 } }).toArray();
+  const vacated: WithId<Document>[] = [];
+
+  for (const { _id } of seats) {
+    // 同時に本人が退室した場合などは既に座席がなくなっている
+    const ended = await endSeatSession(db, _id, exitReason);
+    if (ended) {
+      vacated.push(ended.seat);
+    }
+  }
+
+  console.log(`[Seats] ${vacated.length}件の座席を退室させました (理由: ${exitReason})`);
+  return vacated;
+}
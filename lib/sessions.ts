@@ -0,0 +1,136 @@
+import { Db, Document, Filter, MongoServerError, ObjectId, WithId } from 'mongodb';
+import { evaluateAchievements } from '@/lib/achievements';
+import { getBreakRecords, getTotalBreakMs, SeatBreakRecord } from '@/lib/seatBreaks';
+import { endCurrentTask, SeatTaskRecord } from '@/lib/seatTasks';
+import type { SeatExitReason } from '@/lib/seats';
+import { addSessionToUserTotals } from '@/lib/users';
+
+/**
+ * 滞在を終えた理由
+ * - finished: 本人の /finish
+ * - auto-exit: 滞在時間を過ぎたための自動退室
+ * - それ以外: モデレーターの操作や配信の終了（SeatExitReason）
+ */
+export type SessionExitReason = 'finished' | 'auto-exit' | SeatExitReason;
+
+/**
+ * sessions コレクションに保存される滞在の記録（退室時に作成し、以降は変更しない）
+ */
+export interface SessionRecord {
+  _id?: ObjectId;
+  seatId: ObjectId; // 着席中に使っていた座席ドキュメントのID
+  room_id: string;
+  position: number;
+  username: string;
+  authorId?: string;
+  profileImageUrl?: string;
+  videoId?: string; // 入室元の配信の動画ID
+  liveChatId?: string;
+  task: string;
+  tasks: SeatTaskRecord[];
+  enterTime: Date;
+  exitTime: Date;
+  exitReason: SessionExitReason | null; // 移行前の記録で退室理由がわからない場合はnull
+  breaks: SeatBreakRecord[]; // 滞在中の休憩（移行前の記録・休憩の一覧がない座席の記録では合計時間のみ）
+  totalBreakMs: number;
+}
+
+// MongoDB の重複キーエラーコード
+const DUPLICATE_KEY_ERROR = 11000;
+
+let sessionIndexesEnsured = false;
+
+/**
+ * 滞在の記録を検索するためのインデックスを作成する（プロセスごとに1回）
+ * @param db MongoDB データベース接続
+ */
+export async function ensureSessionIndexes(db: Db): Promise<void> {
+  if (sessionIndexesEnsured) return;
+  try {
+    const sessionsCollection = db.collection<SessionRecord>('sessions');
+    await sessionsCollection.createIndex({ seatId: 1 }, { unique: true });
+    await sessionsCollection.createIndex({ authorId: 1, enterTime: -1 });
+    await sessionsCollection.createIndex({ username: 1, enterTime: -1 });
+    await sessionsCollection.createIndex({ exitTime: -1 });
+    sessionIndexesEnsured = true;
+  } catch (indexError) {
+    console.error('[Sessions] 滞在の記録のインデックスを作成できませんでした:', (indexError instanceof MongoServerError && indexError.codeName) || indexError);
+  }
+}
+
+/**
+ * 着席中の座席の滞在を sessions に記録してから、座席を空ける
+ * 休憩中の場合はその休憩も休憩の一覧と合計休憩時間に含めて確定させ、取り組み中のタスクは退室時刻で終了させる
+ * 記録した滞在はユーザー（users）の累計にも加え、新しく達成した実績をお知らせする
+ * @param db MongoDB データベース接続
+ * @param seatId 空ける座席のID
+ * @param exitReason 退室理由
+ * @param exitTime 退室時刻
+ * @returns 記録した滞在と空けた座席（同時に別の経路で退室済みの場合はnull）
+ */
+export async function endSeatSession(
+  db: Db,
+  seatId: ObjectId,
+  exitReason: SessionExitReason,
+  exitTime: Date = new Date()
+): Promise<{ session: SessionRecord; seat: WithId<Document> } | null> {
+  await ensureSessionIndexes(db);
+
+  const seatsCollection = db.collection('seats');
+  const seat = await seatsCollection.findOne({ _id: seatId });
+  if (!seat) return null;
+
+  const session: SessionRecord = {
+    seatId: seat._id,
+    room_id: seat.room_id,
+    position: seat.position,
+    username: seat.username,
+    authorId: seat.authorId,
+    profileImageUrl: seat.profileImageUrl,
+    videoId: seat.videoId,
+    liveChatId: seat.liveChatId,
+    task: seat.task,
+    tasks: endCurrentTask(seat, exitTime),
+    enterTime: seat.enterTime,
+    exitTime,
+    exitReason,
+    breaks: getBreakRecords(seat, exitTime),
+    totalBreakMs: getTotalBreakMs(seat, exitTime)
+  };
+
+  // 記録を先に作成してから座席を削除する（座席の削除後に記録の作成に失敗して滞在が失われないようにする）
+  // seatId のユニークインデックスにより、同時に退室処理が走っても記録は1件になる
+  try {
+    await db.collection<SessionRecord>('sessions').insertOne(session);
+  } catch (error) {
+    if (!(error instanceof MongoServerError) || error.code !== DUPLICATE_KEY_ERROR) throw error;
+    // 別の経路で退室が記録済み（または座席の削除前に中断された）の場合は、座席の削除だけを行う
+    await seatsCollection.deleteOne({ _id: seatId });
+    return null;
+  }
+  await seatsCollection.deleteOne({ _id: seatId });
+
+  try {
+    await addSessionToUserTotals(db, session);
+    await evaluateAchievements(db, session);
+  } catch (error) {
+    console.error('[Sessions] ユーザーの累計・実績を更新できませんでした:', error);
+  }
+
+  return { session, seat };
+}
+
+/**
+ * ユーザーの滞在を取得する（着席中の座席も、退室していない滞在として含める）
+ * @param db MongoDB データベース接続
+ * @param userQuery ユーザーを特定する条件（authorId または username）
+ * @param since この日時以降に入室した滞在のみ取得する
+ * @returns 滞在の記録と着席中の座席
+ */
+export async function findUserSessions(db: Db, userQuery: Filter<Document>, since: Date): Promise<Document[]> {
+  const [sessions, seats] = await Promise.all([
+    db.collection('sessions').find({ ...userQuery, enterTime: { $gte: since } }).toArray(),
+    db.collection('seats').find({ ...userQuery, enterTime: { $gte: since } }).toArray()
+  ]);
+  return [...sessions, ...seats];
+}
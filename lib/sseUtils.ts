@@ -1,9 +1,16 @@
-import { Db } from 'mongodb';
+import { Db, Document } from 'mongodb';
+import { getAchievementBadges, getAchievementDefinitions } from '@/lib/achievements';
+import { DEFAULT_ROOM_ID, getRooms } from '@/lib/rooms';
+import { getQueue } from '@/lib/seatQueue';
+import { countCompletedTasks } from '@/lib/seatTasks';
+import { getSupporterBadges } from '@/lib/supportEvents';
+import { getUserProfiles } from '@/lib/users';
 
 /**
  * MongoDB から座席データを取得し、クライアント用にフォーマットする
+ * rooms コレクションに設定されたすべての部屋を、着席者がいなくても返す（待機列も含む）
  * @param db MongoDB データベース接続
- * @returns フォーマットされた座席のデータ
+ * @returns フォーマットされた部屋ごとの座席データ
  */
 export async function fetchRoomData(db: Db) {
   console.log('[SSE:Utils] Fetching seat data from MongoDB');
@@ -16,8 +23,8 @@ export async function fetchRoomData(db: Db) {
       throw new Error('MongoDB connection not available');
     }
 
-    // アクティブな座席のみを取得
-    const allSeats = await db.collection('seats').find({ is_active: true }).toArray();
+    // 着席中の座席を取得（退室した滞在は sessions に移る）
+    const allSeats = await db.collection('seats').find({}).toArray();
     console.log(`[SSE:Utils] Retrieved ${allSeats.length} active seats from database`);
     
     // プロフィール画像URLがある座席を探す（デバッグ用）
@@ -39,47 +46,62 @@ export async function fetchRoomData(db: Db) {
           _id: seat._id.toString(),
           username: seat.username,
           profileImageUrl: seat.profileImageUrl,
-          position: seat.position,
-          is_active: seat.is_active
+          position: seat.position
         }, null, 2));
       });
     }
 
-    // シートをフォーカスルームに集約する
-    const focusRoom = {
-      id: 'focus-room',
-      type: 'focus',
-      seats: allSeats.filter(seat => seat.username).map(seat => ({
-        id: seat._id.toString(),
-        username: seat.username,
-        task: seat.task,
-        enterTime: seat.enterTime,
-        autoExitScheduled: seat.autoExitScheduled,
-        profileImageUrl: seat.profileImageUrl,
-        timestamp: seat.timestamp
-      }))
-    };
-    
-    // 変換後のシートデータサンプルをログに出力
-    console.log(`[SSE:Utils] Created focus room with ${focusRoom.seats.length} occupied seats`);
-    console.log('[SSE:Utils] DEBUG - Transformed seats sample:');
-    if (focusRoom.seats.length > 0) {
-      focusRoom.seats.slice(0, 3).forEach((seat, index) => {
-        console.log(`Transformed Seat ${index}:`, JSON.stringify(seat, null, 2));
-      });
-    }
-    
-    // プロフィール画像URLがある座席をログ出力
-    const transformedSeatsWithImage = focusRoom.seats.filter(seat => seat.profileImageUrl);
-    if (transformedSeatsWithImage.length > 0) {
-      console.log(`[SSE:Utils] Found ${transformedSeatsWithImage.length} transformed seats with profile images:`);
-      transformedSeatsWithImage.forEach(seat => {
-        console.log(`[SSE:Utils] Transformed seat with profile image: ${seat.username}, URL: ${seat.profileImageUrl}`);
-      });
-    }
+    // 設定された部屋ごとに座席を振り分ける（room_id がない過去の座席はデフォルトの部屋）
+    const roomConfigs = await getRooms(db);
+    const queue = await getQueue(db);
+    const authorIds = allSeats.map(seat => seat.authorId).filter(Boolean);
+    const badges = await getSupporterBadges(db, authorIds);
+    // 入室後に表示名やプロフィール画像を変更した場合も、users に記録された最新のものを表示する
+    const profiles = await getUserProfiles(db, authorIds);
+    const achievementDefinitions = await getAchievementDefinitions(db);
+    const rooms = roomConfigs.map(room => ({
+      id: room.roomId,
+      name: room.name,
+      type: room.type,
+      capacity: room.capacity,
+      closed: Boolean(room.closed),
+      seats: allSeats
+        .filter(seat => seat.username && (seat.room_id || DEFAULT_ROOM_ID) === room.roomId)
+        .sort((a, b) => a.position - b.position)
+        .map(seat => {
+          const profile = seat.authorId ? profiles.get(seat.authorId) : undefined;
+          return {
+            id: seat._id.toString(),
+            position: seat.position,
+            username: profile?.displayName || seat.username,
+            task: seat.task,
+            enterTime: seat.enterTime,
+            autoExitScheduled: seat.autoExitScheduled,
+            profileImageUrl: profile?.profileImageUrl || seat.profileImageUrl,
+            breakStartedAt: seat.breakStartedAt || null,
+            totalBreakMs: seat.totalBreakMs || 0,
+            completedTaskCount: countCompletedTasks(seat),
+            badges: (seat.authorId && badges.get(seat.authorId)) || [],
+            achievements: getAchievementBadges(achievementDefinitions, profile?.achievements),
+            timestamp: seat.timestamp
+          };
+        }),
+      // 満席時の待機列（待機順）
+      queue: queue
+        .filter(entry => entry.room_id === room.roomId)
+        .map(entry => ({
+          id: entry._id.toString(),
+          username: entry.username,
+          queuedAt: entry.queuedAt
+        }))
+    }));
+
+    rooms.forEach(room => {
+      console.log(`[SSE:Utils] Room ${room.id}: ${room.seats.length} occupied seats`);
+    });
 
     console.log('[SSE:Utils] Seat data formatted successfully');
-    return { rooms: [focusRoom] };
+    return { rooms };
   } catch (error) {
     console.error('[SSE:Utils] Error fetching seat data:', error);
     return { rooms: [], error: 'Failed to fetch data' };
@@ -121,6 +143,42 @@ export function createSystemMessage(message: string, type: 'info' | 'warning' |
   return `event: system-message\ndata: ${JSON.stringify(payload)}\n\n`;
 }
 
+/**
+ * Super Chat・メンバー加入などの応援イベントを画面で演出するためのSSEメッセージを生成する
+ * @param event supportEvents コレクションに保存された応援イベント
+ * @returns フォーマットされたSSEメッセージ
+ */
+export function createCelebrationMessage(event: Document): string {
+  const payload = {
+    id: event._id?.toString(),
+    type: event.type,
+    label: event.label,
+    authorName: event.authorName,
+    profileImageUrl: event.profileImageUrl,
+    amountDisplayString: event.amountDisplayString,
+    userComment: event.userComment,
+    stickerAltText: event.stickerAltText,
+    memberLevelName: event.memberLevelName,
+    memberMonth: event.memberMonth,
+    timestamp: new Date().toISOString(),
+  };
+  return `event: celebration\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+/**
+ * 作業時間のランキングを画面に表示するためのSSEメッセージを生成する
+ * @param leaderboard leaderboards コレクションに保存されたランキング
+ * @returns フォーマットされたSSEメッセージ
+ */
+export function createLeaderboardMessage(leaderboard: Document): string {
+  const payload = {
+    timeZone: leaderboard.timeZone,
+    periods: leaderboard.periods,
+    updatedAt: new Date(leaderboard.updatedAt).toISOString(),
+  };
+  return `event: leaderboard\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
 /**
  * MongoDB Change Streamの接続状態を追跡するためのクラス
  * グローバルな状態を管理し、複数のSSE接続間で自動退室チェックの重複を防ぐ
@@ -192,14 +250,4 @@ export class ChangeStreamManager {
   public getTrackedConnectionsCount(): number {
     return this.connectionIds.size;
   }
-
-  /**
-   * このインスタンスで自動退室チェックを開始すべきか判断する
-   * (通常、最初の接続時にtrueを返す)
-   * @returns 開始すべきならtrue
-   */
-  public shouldStartAutoExitCheckOnRegister(): boolean {
-    // activeConnectionsがインクリメントされた直後に呼ばれる想定
-    return this.activeConnections === 1;
-  }
 } 
\ No newline at end of file
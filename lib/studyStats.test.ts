@@ -0,0 +1,101 @@
+import type { Db, Document } from 'mongodb';
+import { aggregateStudyStats, getPeriodKey, getZonedDayStart } from '@/lib/studyStats';
+
+jest.mock('@/lib/users', () => ({ getUserProfiles: jest.fn(async () => new Map()) }));
+
+describe('getZonedDayStart', () => {
+  it('タイムゾーンでのその日の0時を返す', () => {
+    expect(getZonedDayStart('2025-03-10', 'Asia/Tokyo')).toEqual(new Date('2025-03-09T15:00:00Z'));
+    expect(getZonedDayStart('2025-03-10', 'UTC')).toEqual(new Date('2025-03-10T00:00:00Z'));
+  });
+
+  it('夏時間の切り替え日も切り替え前の時差で0時を求める', () => {
+    // 2025-03-09 02:00 に夏時間が始まる
+    expect(getZonedDayStart('2025-03-09', 'America/New_York')).toEqual(new Date('2025-03-09T05:00:00Z'));
+    expect(getZonedDayStart('2025-03-10', 'America/New_York')).toEqual(new Date('2025-03-10T04:00:00Z'));
+    // 2025-11-02 02:00 に夏時間が終わる
+    expect(getZonedDayStart('2025-11-02', 'America/New_York')).toEqual(new Date('2025-11-02T04:00:00Z'));
+    expect(getZonedDayStart('2025-11-03', 'America/New_York')).toEqual(new Date('2025-11-03T05:00:00Z'));
+  });
+});
+
+describe('getPeriodKey', () => {
+  it('日はそのままの日付を返す', () => {
+    expect(getPeriodKey('2025-03-12', 'day')).toBe('2025-03-12');
+  });
+
+  it('週は月曜日の日付を返す', () => {
+    expect(getPeriodKey('2025-03-10', 'week')).toBe('2025-03-10');
+    expect(getPeriodKey('2025-03-12', 'week')).toBe('2025-03-10');
+    expect(getPeriodKey('2025-03-16', 'week')).toBe('2025-03-10');
+    expect(getPeriodKey('2025-03-17', 'week')).toBe('2025-03-17');
+  });
+
+  it('年をまたぐ週は前年の月曜日を返す', () => {
+    expect(getPeriodKey('2025-01-01', 'week')).toBe('2024-12-30');
+  });
+
+  it('月は YYYY-MM を返す', () => {
+    expect(getPeriodKey('2025-03-31', 'month')).toBe('2025-03');
+  });
+});
+
+describe('aggregateStudyStats', () => {
+  const MINUTE = 60 * 1000;
+
+  function fakeDb(rows: Record<string, Document[]>): { db: Db; pipelines: Document[][] } {
+    const pipelines: Document[][] = [];
+    const db = {
+      collection: (name: string) => ({
+        aggregate: (pipeline: Document[]) => {
+          pipelines.push(pipeline);
+          return { toArray: async () => rows[name] || [] };
+        },
+      }),
+    } as unknown as Db;
+    return { db, pipelines };
+  }
+
+  function row(day: string, authorId: string | null, username: string, workMinutes: number, enterTime: string) {
+    return {
+      _id: { day, authorId, username: authorId ? null : username },
+      workMs: workMinutes * MINUTE,
+      sessionCount: 1,
+      last: { enterTime: new Date(enterTime), username },
+    };
+  }
+
+  it('入室日時とタイムゾーンで絞り込んで日ごとに集計する', async () => {
+    const { db, pipelines } = fakeDb({});
+    await aggregateStudyStats(db, { from: '2025-03-10', to: '2025-03-16', timeZone: 'Asia/Tokyo' });
+
+    expect(pipelines).toHaveLength(2);
+    expect(pipelines[0][0].$match.enterTime).toEqual({
+      $gte: new Date('2025-03-09T15:00:00Z'),
+      $lt: new Date('2025-03-16T15:00:00Z'),
+    });
+    expect(pipelines[0][1].$group._id.day.$dateToString.timezone).toBe('Asia/Tokyo');
+  });
+
+  it('sessions と seats の集計を集計単位とユーザーごとにまとめる', async () => {
+    const { db } = fakeDb({
+      sessions: [
+        row('2025-03-10', 'UC1', '旧名', 30, '2025-03-10T01:00:00Z'),
+        row('2025-03-12', 'UC1', '新名', 60, '2025-03-12T01:00:00Z'),
+        row('2025-03-17', null, 'guest', 20, '2025-03-17T01:00:00Z'),
+      ],
+      seats: [row('2025-03-17', 'UC1', '新名', 10, '2025-03-17T02:00:00Z')],
+    });
+    const stats = await aggregateStudyStats(db, { from: '2025-03-10', to: '2025-03-17', timeZone: 'Asia/Tokyo', period: 'week' });
+
+    expect(stats.totals).toMatchObject({ workMs: 120 * MINUTE, sessionCount: 4, visitorCount: 2 });
+    expect(stats.totals.periods.map(period => [period.key, period.workMs / MINUTE, period.visitorCount])).toEqual([
+      ['2025-03-10', 90, 1],
+      ['2025-03-17', 30, 2],
+    ]);
+    expect(stats.users.map(user => [user.authorId, user.username, user.workMs / MINUTE])).toEqual([
+      ['UC1', '新名', 100],
+      [null, 'guest', 20],
+    ]);
+  });
+});
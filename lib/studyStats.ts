@@ -0,0 +1,335 @@
+import { Db, Document, Filter } from 'mongodb';
+import { getUserProfiles } from '@/lib/users';
+import { STATS_TIMEZONE } from '@/lib/userStats';
+
+/**
+ * 集計の単位
+ * - day: 日ごと（キーは YYYY-MM-DD）
+ * - week: 月曜始まりの週ごと（キーは週の初日の YYYY-MM-DD）
+ * - month: 月ごと（キーは YYYY-MM）
+ */
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+export const STATS_PERIODS: StatsPeriod[] = ['day', 'week', 'month'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 作業時間の集計値（時間はすべてミリ秒）
+ * 滞在は入室した日時の期間に数える
+ */
+export interface StudyTotals {
+  workMs: number; // 休憩時間を除いた作業時間の合計
+  sessionCount: number; // 滞在数（着席中の滞在を含む）
+  averageSessionMs: number; // 1回の滞在の平均作業時間
+  visitorCount: number; // 入室したユーザーの数
+}
+
+/**
+ * 期間ごとの集計値
+ */
+export interface StudyPeriodTotals extends StudyTotals {
+  key: string;
+}
+
+/**
+ * ユーザーごとの集計値
+ */
+export interface UserStudyTotals extends StudyTotals {
+  authorId: string | null; // チャンネルIDのない過去の記録は表示名で集計する
+  username: string;
+  profileImageUrl: string | null;
+  periods: StudyPeriodTotals[];
+}
+
+/**
+ * 集計の条件
+ */
+export interface StudyStatsOptions {
+  from: string; // 集計を始める日（YYYY-MM-DD、timeZone での日付）
+  to: string; // 集計を終える日（この日を含む）
+  timeZone?: string;
+  period?: StatsPeriod;
+  roomId?: string; // 指定した部屋の滞在だけを集計する
+  userQuery?: Filter<Document>; // 指定したユーザーの滞在だけを集計する（authorId または username）
+  userLimit?: number; // 返すユーザーの最大数（作業時間の多い順）
+}
+
+/**
+ * 集計結果
+ */
+export interface StudyStats {
+  from: string;
+  to: string;
+  timeZone: string;
+  period: StatsPeriod;
+  totals: StudyTotals & { periods: StudyPeriodTotals[] };
+  users: UserStudyTotals[];
+}
+
+/**
+ * タイムゾーン名が使えるか確認する
+ * @param timeZone IANA タイムゾーン名（Asia/Tokyo など）
+ * @returns 使える場合はtrue
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 指定したタイムゾーンでの UTC からのずれを取得する
+ * @param date 対象の日時
+ * @param timeZone タイムゾーン
+ * @returns ずれ（ミリ秒、東側が正）
+ */
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * 指定したタイムゾーンでのその日の始まりの日時を取得する
+ * @param dateKey YYYY-MM-DD 形式の日付
+ * @param timeZone タイムゾーン
+ * @returns その日の0時の日時
+ */
+export function getZonedDayStart(dateKey: string, timeZone: string = STATS_TIMEZONE): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const midnightUtc = Date.UTC(year, month - 1, day);
+  // 夏時間の切り替え日も正しくなるよう、求めた日時でのずれでもう一度計算する
+  const guess = midnightUtc - getTimeZoneOffsetMs(new Date(midnightUtc), timeZone);
+  return new Date(midnightUtc - getTimeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * YYYY-MM-DD 形式の日付に日数を加える
+ * @param dateKey YYYY-MM-DD 形式の日付
+ * @param days 加える日数（負の数も可）
+ * @returns YYYY-MM-DD 形式の日付
+ */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 日付を集計の単位のキーに変換する
+ * @param dateKey YYYY-MM-DD 形式の日付
+ * @param period 集計の単位
+ * @returns 日はそのまま、週は月曜日の日付、月は YYYY-MM
+ */
+export function getPeriodKey(dateKey: string, period: StatsPeriod): string {
+  if (period === 'month') return dateKey.slice(0, 7);
+  if (period === 'week') {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return addDays(dateKey, -((weekday + 6) % 7));
+  }
+  return dateKey;
+}
+
+/**
+ * 日ごと・ユーザーごとに集計した滞在（集計パイプラインの結果）
+ */
+interface DailyStudyRow {
+  _id: {
+    day: string; // 入室した日（timeZone での YYYY-MM-DD）
+    authorId: string | null;
+    username: string | null; // チャンネルIDのない過去の記録のみ
+  };
+  workMs: number;
+  sessionCount: number;
+  last: { enterTime: Date; username: string }; // 最後に入室した滞在の表示名
+}
+
+/**
+ * 期間内に入室した滞在を、入室した日とユーザーごとに集計するパイプラインを作る
+ * 着席中の座席（退室時刻がない）は基準時刻までを作業時間に数える（lib/userStats.ts の getSessionWorkMs と同じ計算）
+ * @param filter 絞り込みの条件（入室日時の範囲を含む）
+ * @param timeZone 日付の区切りに使うタイムゾーン
+ * @param now 着席中の滞在の作業時間を計算する基準時刻
+ * @returns 集計パイプライン
+ */
+function buildDailyStudyPipeline(filter: Filter<Document>, timeZone: string, now: Date): Document[] {
+  const end = { $ifNull: ['$exitTime', now] };
+  const ongoingBreakMs = {
+    $cond: [{ $ifNull: ['$breakStartedAt', false] }, { $max: [0, { $subtract: [end, '$breakStartedAt'] }] }, 0]
+  };
+  const breakMs = { $add: [{ $ifNull: ['$totalBreakMs', 0] }, ongoingBreakMs] };
+  const workMs = { $max: [0, { $subtract: [{ $subtract: [end, '$enterTime'] }, breakMs] }] };
+  // 表示名を変更したユーザーも1人として数えるため、チャンネルIDがあればそれで区別する
+  const hasAuthorId = { $gt: ['$authorId', ''] };
+
+  return [
+    { $match: filter },
+    {
+      $group: {
+        _id: {
+          day: { $dateToString: { format: '%Y-%m-%d', date: '$enterTime', timezone: timeZone } },
+          authorId: { $cond: [hasAuthorId, '$authorId', null] },
+          username: { $cond: [hasAuthorId, null, '$username'] }
+        },
+        workMs: { $sum: workMs },
+        sessionCount: { $sum: 1 },
+        // 入室日時が最も新しい滞在の表示名（フィールド順に比較される）
+        last: { $max: { enterTime: '$enterTime', username: '$username' } }
+      }
+    }
+  ];
+}
+
+/**
+ * 期間内に入室した滞在を、入室した日とユーザーごとに集計する（着席中の座席も、退室していない滞在として含める）
+ * @param db MongoDB データベース接続
+ * @param query 絞り込みの条件
+ * @param since この日時以降に入室した滞在
+ * @param until この日時より前に入室した滞在
+ * @param timeZone 日付の区切りに使うタイムゾーン
+ * @param now 着席中の滞在の作業時間を計算する基準時刻
+ * @returns 日ごと・ユーザーごとの集計（同じ日・ユーザーの行が sessions と seats の両方から返ることがある）
+ */
+async function findDailyStudyRows(
+  db: Db,
+  query: Filter<Document>,
+  since: Date,
+  until: Date,
+  timeZone: string,
+  now: Date
+): Promise<DailyStudyRow[]> {
+  const pipeline = buildDailyStudyPipeline({ ...query, enterTime: { $gte: since, $lt: until } }, timeZone, now);
+  const [sessionRows, seatRows] = await Promise.all([
+    db.collection('sessions').aggregate<DailyStudyRow>(pipeline).toArray(),
+    db.collection('seats').aggregate<DailyStudyRow>(pipeline).toArray()
+  ]);
+  return [...sessionRows, ...seatRows];
+}
+
+/**
+ * 集計の途中経過
+ */
+interface TotalsAccumulator {
+  workMs: number;
+  sessionCount: number;
+  visitors: Set<string>;
+}
+
+function createAccumulator(): TotalsAccumulator {
+  return { workMs: 0, sessionCount: 0, visitors: new Set() };
+}
+
+function addToAccumulator(accumulator: TotalsAccumulator, visitorKey: string, row: DailyStudyRow): void {
+  accumulator.workMs += row.workMs;
+  accumulator.sessionCount += row.sessionCount;
+  accumulator.visitors.add(visitorKey);
+}
+
+function toTotals(accumulator: TotalsAccumulator): StudyTotals {
+  return {
+    workMs: accumulator.workMs,
+    sessionCount: accumulator.sessionCount,
+    averageSessionMs: accumulator.sessionCount > 0 ? Math.round(accumulator.workMs / accumulator.sessionCount) : 0,
+    visitorCount: accumulator.visitors.size
+  };
+}
+
+function toPeriodTotals(periods: Map<string, TotalsAccumulator>): StudyPeriodTotals[] {
+  return Array.from(periods.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, accumulator]) => ({ key, ...toTotals(accumulator) }));
+}
+
+/**
+ * 期間内の作業時間を、全体とユーザーごとに集計単位ごとにまとめる
+ * 滞在は MongoDB で日・ユーザーごとに集計し、その結果を集計単位にまとめる
+ * @param db MongoDB データベース接続
+ * @param options 集計の条件
+ * @param now 着席中の滞在の作業時間を計算する基準時刻
+ * @returns 集計結果
+ */
+export async function aggregateStudyStats(db: Db, options: StudyStatsOptions, now: Date = new Date()): Promise<StudyStats> {
+  const timeZone = options.timeZone || STATS_TIMEZONE;
+  const period = options.period || 'day';
+  const since = getZonedDayStart(options.from, timeZone);
+  const until = getZonedDayStart(addDays(options.to, 1), timeZone);
+
+  const query: Filter<Document> = { ...(options.userQuery || {}) };
+  if (options.roomId) query.room_id = options.roomId;
+  const rows = await findDailyStudyRows(db, query, since, until, timeZone, now);
+
+  const total = createAccumulator();
+  const totalPeriods = new Map<string, TotalsAccumulator>();
+  const users = new Map<string, {
+    authorId: string | null;
+    username: string;
+    lastEnterTime: number;
+    total: TotalsAccumulator;
+    periods: Map<string, TotalsAccumulator>;
+  }>();
+
+  for (const row of rows) {
+    const { day, authorId } = row._id;
+    const periodKey = getPeriodKey(day, period);
+    const visitorKey = authorId ? `id:${authorId}` : `name:${row._id.username}`;
+
+    addToAccumulator(total, visitorKey, row);
+    if (!totalPeriods.has(periodKey)) totalPeriods.set(periodKey, createAccumulator());
+    addToAccumulator(totalPeriods.get(periodKey)!, visitorKey, row);
+
+    let user = users.get(visitorKey);
+    if (!user) {
+      user = { authorId, username: row.last.username, lastEnterTime: 0, total: createAccumulator(), periods: new Map() };
+      users.set(visitorKey, user);
+    }
+    // チャンネルIDのないユーザーは最後に入室したときの表示名を使う
+    const lastEnterTime = new Date(row.last.enterTime).getTime();
+    if (lastEnterTime > user.lastEnterTime) {
+      user.lastEnterTime = lastEnterTime;
+      user.username = row.last.username;
+    }
+    addToAccumulator(user.total, visitorKey, row);
+    if (!user.periods.has(periodKey)) user.periods.set(periodKey, createAccumulator());
+    addToAccumulator(user.periods.get(periodKey)!, visitorKey, row);
+  }
+
+  const rankedUsers = Array.from(users.values())
+    .sort((a, b) => b.total.workMs - a.total.workMs)
+    .slice(0, options.userLimit ?? users.size);
+  const profiles = await getUserProfiles(
+    db,
+    rankedUsers.map(user => user.authorId).filter((authorId): authorId is string => Boolean(authorId))
+  );
+
+  return {
+    from: options.from,
+    to: options.to,
+    timeZone,
+    period,
+    totals: { ...toTotals(total), periods: toPeriodTotals(totalPeriods) },
+    users: rankedUsers.map(user => {
+      const profile = user.authorId ? profiles.get(user.authorId) : undefined;
+      return {
+        authorId: user.authorId,
+        username: profile?.displayName || user.username,
+        profileImageUrl: profile?.profileImageUrl || null,
+        ...toTotals(user.total),
+        periods: toPeriodTotals(user.periods)
+      };
+    })
+  };
+}
@@ -0,0 +1,276 @@
+import { Db } from 'mongodb';
+import { extendAutoExit } from '@/lib/autoExit';
+import { getChatSource } from '@/lib/chatSource';
+import { enqueueChatMessage } from '@/lib/chatOutbox';
+import { messageTemplates } from '@/lib/messages';
+import type { ChatItem } from '@/lib/youtubeApiClient';
+
+/**
+ * 配信を応援するイベントの種類
+ * - superChat: Super Chat
+ * - superSticker: Super Sticker
+ * - newMember: メンバーシップへの新規加入（アップグレードを含む）
+ * - memberMilestone: メンバーシップの継続月数のお祝い
+ */
+export type SupportEventType = 'superChat' | 'superSticker' | 'newMember' | 'memberMilestone';
+
+// liveChatMessages の snippet.type と応援イベントの対応
+const SNIPPET_TYPES: Record<string, SupportEventType> = {
+  superChatEvent: 'superChat',
+  superStickerEvent: 'superSticker',
+  newSponsorEvent: 'newMember',
+  memberMilestoneChatEvent: 'memberMilestone',
+};
+
+/**
+ * コメントから読み取った応援イベント
+ */
+export interface SupportEvent {
+  type: SupportEventType;
+  commentId: string;
+  authorId: string;
+  authorName: string;
+  profileImageUrl?: string;
+  publishedAt: Date;
+  amountMicros?: number; // superChat / superSticker の金額（100万分の1単位）
+  currency?: string;
+  amountDisplayString?: string; // 表示用の金額（例: ¥500）
+  tier?: number; // superChat / superSticker のティア
+  userComment?: string; // superChat / memberMilestone に添えられたコメント
+  stickerAltText?: string;
+  memberLevelName?: string;
+  memberMonth?: number;
+  isUpgrade?: boolean;
+}
+
+/**
+ * 応援イベントの種類ごとの特典
+ */
+export interface SupporterPerk {
+  extendMinutes?: number; // 着席中の場合に自動退室を延長する時間（分）
+  badge?: string; // 座席に表示するバッジ
+  badgeHours?: number; // バッジを表示する時間
+  minTier?: number; // superChat / superSticker で特典を付ける最低ティア
+}
+
+/**
+ * 応援イベントの既定の特典
+ * 環境変数 SUPPORTER_PERKS に JSON（例: {"superChat": {"extendMinutes": 60, "minTier": 2}}）を設定すると種類ごとに上書きできる
+ */
+export const DEFAULT_SUPPORTER_PERKS: Record<SupportEventType, SupporterPerk> = {
+  superChat: { extendMinutes: 30, badge: 'サポーター', badgeHours: 24 },
+  superSticker: { extendMinutes: 15, badge: 'サポーター', badgeHours: 24 },
+  newMember: { badge: 'メンバー', badgeHours: 24 * 30 },
+  memberMilestone: { extendMinutes: 30, badge: 'メンバー', badgeHours: 24 * 30 },
+};
+
+/**
+ * supporterBadges コレクションに保存される、期限付きの座席バッジ
+ */
+interface SupporterBadge {
+  authorId: string;
+  badge: string;
+  eventType: SupportEventType;
+  grantedAt: Date;
+  expiresAt: Date;
+}
+
+let supporterBadgeIndexEnsured = false;
+
+/**
+ * コメントが応援イベントであれば読み取る
+ * @param item liveChatMessages.list で取得したコメント
+ * @returns 応援イベント（通常のコメントや投稿者情報がない場合はnull）
+ */
+export function parseSupportEvent(item: ChatItem): SupportEvent | null {
+  const type = item.snippet?.type ? SNIPPET_TYPES[item.snippet.type] : undefined;
+  const authorId = item.snippet?.authorChannelId?.value || item.authorDetails?.channelId;
+  const authorName = item.snippet?.authorDisplayName || item.authorDetails?.displayName;
+  if (!type || !authorId || !authorName) return null;
+
+  const publishedAt = item.snippet.publishedAt ? new Date(item.snippet.publishedAt) : new Date();
+  const event: SupportEvent = {
+    type,
+    commentId: item.id,
+    authorId,
+    authorName,
+    profileImageUrl: item.snippet?.authorPhotoUrl || item.authorDetails?.profileImageUrl,
+    publishedAt: isNaN(publishedAt.getTime()) ? new Date() : publishedAt,
+  };
+
+  const { superChatDetails, superStickerDetails, newSponsorDetails, memberMilestoneChatDetails } = item.snippet;
+  const paid = superChatDetails || superStickerDetails;
+  if (paid) {
+    event.amountMicros = paid.amountMicros ? Number(paid.amountMicros) : undefined;
+    event.currency = paid.currency;
+    event.amountDisplayString = paid.amountDisplayString;
+    event.tier = paid.tier;
+  }
+  if (superChatDetails?.userComment) event.userComment = superChatDetails.userComment;
+  if (superStickerDetails?.superStickerMetadata?.altText) event.stickerAltText = superStickerDetails.superStickerMetadata.altText;
+  if (newSponsorDetails) {
+    event.memberLevelName = newSponsorDetails.memberLevelName;
+    event.isUpgrade = newSponsorDetails.isUpgrade;
+  }
+  if (memberMilestoneChatDetails) {
+    event.memberLevelName = memberMilestoneChatDetails.memberLevelName;
+    event.memberMonth = memberMilestoneChatDetails.memberMonth;
+    event.userComment = memberMilestoneChatDetails.userComment;
+  }
+  return event;
+}
+
+/**
+ * 応援イベントの表示用の名前（例: 「¥500のスーパーチャット」）
+ * @param event 応援イベント
+ */
+export function describeSupportEvent(event: SupportEvent): string {
+  switch (event.type) {
+    case 'superChat':
+      return `${event.amountDisplayString ? `${event.amountDisplayString}の` : ''}スーパーチャット`;
+    case 'superSticker':
+      return `${event.amountDisplayString ? `${event.amountDisplayString}の` : ''}スーパーステッカー`;
+    case 'newMember':
+      return event.isUpgrade ? 'メンバーシップのアップグレード' : 'メンバーシップへの加入';
+    case 'memberMilestone':
+      return `メンバーシップ継続${event.memberMonth ? `${event.memberMonth}か月` : ''}`;
+  }
+}
+
+/**
+ * 設定された応援イベントの特典を読み込む
+ * @returns 種類ごとの特典
+ */
+export function loadSupporterPerks(): Record<SupportEventType, SupporterPerk> {
+  const configured = process.env.SUPPORTER_PERKS;
+  if (!configured) {
+    return DEFAULT_SUPPORTER_PERKS;
+  }
+
+  try {
+    const parsed = JSON.parse(configured);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('オブジェクト形式で指定してください');
+    }
+    const perks = { ...DEFAULT_SUPPORTER_PERKS };
+    (Object.keys(DEFAULT_SUPPORTER_PERKS) as SupportEventType[]).forEach(type => {
+      if (parsed[type] && typeof parsed[type] === 'object') {
+        perks[type] = { ...DEFAULT_SUPPORTER_PERKS[type], ...parsed[type] };
+      }
+    });
+    return perks;
+  } catch (error) {
+    console.error('[Support] SUPPORTER_PERKS の読み込みに失敗しました。既定の特典を使用します:', error);
+    return DEFAULT_SUPPORTER_PERKS;
+  }
+}
+
+/**
+ * 応援イベントを処理する
+ * 画面の演出用に supportEvents へ記録し、お知らせを保存して、特典を付けてからチャットでお礼を返す
+ * @param db MongoDB データベース接続
+ * @param event 応援イベント
+ * @param liveChatId お礼を返信するライブチャットID
+ */
+export async function handleSupportEvent(db: Db, event: SupportEvent, liveChatId: string): Promise<void> {
+  const label = describeSupportEvent(event);
+  console.log(`[Support] ${event.authorName}さんの${label}を受け付けました`);
+
+  // SSE の change stream が検知して画面に演出を表示する
+  await db.collection('supportEvents').insertOne({ ...event, label, createdAt: new Date() });
+  await db.collection('announcements').insertOne({
+    message: `${event.authorName}さん、${label}ありがとうございます！${event.userComment ? `「${event.userComment}」` : ''}`,
+    authorChannelId: event.authorId,
+    authorName: event.authorName,
+    profileImageUrl: event.profileImageUrl,
+    supportEventType: event.type,
+    publishedAt: event.publishedAt,
+    createdAt: new Date(),
+  });
+
+  const perkLabels = await applySupporterPerks(db, event, loadSupporterPerks()[event.type]);
+
+  if (getChatSource().canSendMessages()) {
+    try {
+      await enqueueChatMessage(db, liveChatId, messageTemplates.supportThanks(event.authorName, label, perkLabels));
+    } catch (error) {
+      console.warn('[Support] お礼メッセージの送信待ちへの追加に失敗しました:', error);
+    }
+  }
+}
+
+/**
+ * 応援イベントの特典を付ける
+ * @param db MongoDB データベース接続
+ * @param event 応援イベント
+ * @param perk 付ける特典
+ * @returns 実際に付けた特典の説明（お礼メッセージ用）
+ */
+async function applySupporterPerks(db: Db, event: SupportEvent, perk: SupporterPerk): Promise<string[]> {
+  const applied: string[] = [];
+  if (perk.minTier && (event.type === 'superChat' || event.type === 'superSticker') && (event.tier || 0) < perk.minTier) {
+    return applied;
+  }
+
+  if (perk.extendMinutes && perk.extendMinutes > 0) {
+    const seat = await db.collection('seats').findOne({ authorId: event.authorId });
+    if (seat) {
+      const result = await extendAutoExit(db, seat, perk.extendMinutes);
+      if (result.success && result.extendedMinutes) {
+        applied.push(`滞在${result.extendedMinutes}分延長`);
+      }
+    }
+  }
+
+  if (perk.badge) {
+    await ensureSupporterBadgeIndex(db);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + (perk.badgeHours || 24) * 60 * 60 * 1000);
+    await db.collection<SupporterBadge>('supporterBadges').updateOne(
+      { authorId: event.authorId, badge: perk.badge },
+      {
+        $set: { eventType: event.type, grantedAt: now },
+        $max: { expiresAt }
+      },
+      { upsert: true }
+    );
+    applied.push(`「${perk.badge}」バッジ`);
+  }
+
+  return applied;
+}
+
+/**
+ * ユーザーごとの表示中のバッジを取得する
+ * @param db MongoDB データベース接続
+ * @param authorIds 対象のユーザーID
+ * @returns ユーザーIDからバッジ一覧への対応
+ */
+export async function getSupporterBadges(db: Db, authorIds: string[]): Promise<Map<string, string[]>> {
+  const badges = new Map<string, string[]>();
+  if (authorIds.length === 0) return badges;
+
+  const docs = await db.collection<SupporterBadge>('supporterBadges')
+    .find({ authorId: { $in: authorIds }, expiresAt: { $gt: new Date() } })
+    .sort({ grantedAt: 1 })
+    .toArray();
+  for (const doc of docs) {
+    badges.set(doc.authorId, [...(badges.get(doc.authorId) || []), doc.badge]);
+  }
+  return badges;
+}
+
+/**
+ * 期限切れのバッジを自動削除するTTLインデックスを作成する（プロセスごとに1回）
+ * @param db MongoDB データベース接続
+ */
+async function ensureSupporterBadgeIndex(db: Db): Promise<void> {
+  if (supporterBadgeIndexEnsured) return;
+  try {
+    await db.collection('supporterBadges').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'expiresAt_1' });
+    await db.collection('supporterBadges').createIndex({ authorId: 1, badge: 1 }, { unique: true, name: 'authorId_badge_unique' });
+    supporterBadgeIndexEnsured = true;
+  } catch (indexError) {
+    console.error('[Support] バッジのインデックス作成エラー:', indexError);
+  }
+}
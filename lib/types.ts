@@ -41,6 +41,12 @@ export interface AutoExitStatus {
   formattedTime: string | null; // 表示用フォーマット
 }
 
+/**
+ * 部屋の種類
+ * silent: 会話不可 / chatty: 会話可 / english-only: 英語のみ
+ */
+export type RoomType = 'silent' | 'chatty' | 'english-only';
+
 /**
  * 座席の型定義
  */
@@ -54,6 +60,11 @@ export interface Seat {
   enterTime?: Date | string | null;
   autoExitScheduled?: Date | string | null;
   profileImageUrl?: string | null;
+  breakStartedAt?: Date | string | null; // 休憩開始時刻（休憩中でなければnull）
+  totalBreakMs?: number; // 終了済みの休憩時間の合計（ミリ秒）
+  completedTaskCount?: number; // この滞在で /done したタスクの数
+  badges?: string[]; // Super Chat・メンバー加入で付与された表示中のバッジ
+  achievements?: { badge: string; name: string }[]; // 達成した実績のバッジ（表示順）
   timestamp: Date | string;
 }
 
@@ -67,6 +78,8 @@ export interface UserCardData {
   task?: string | null;
   autoExitScheduled?: Date | string | null;
   enterTime?: Date | string | null;
+  breakStartedAt?: Date | string | null;
+  completedTaskCount?: number;
 }
 
 /**
@@ -74,7 +87,7 @@ export interface UserCardData {
  */
 export interface CommandResult {
   success: boolean;
-  action?: 'enter' | 'exit' | 'update' | 'none' | 'create';
+  action?: 'enter' | 'exit' | 'update' | 'none' | 'create' | 'break' | 'back';
   seat?: {
     roomId: string;
     position: number;
@@ -108,6 +121,8 @@ export class YouTubeAPIError extends Error {
 export interface Command {
   command: string;
   taskName?: string;
+  args?: Record<string, string>; // コマンドレジストリで解析済みの引数
+  permission?: 'viewer' | 'moderator' | 'admin'; // 投稿者の権限（表示用。実行時はサーバー側で再判定する）
   authorName: string;
   authorId: string;
   commentId: string;
@@ -0,0 +1,69 @@
+import type { Db, Document } from 'mongodb';
+import { getUserStudyStats } from '@/lib/userStats';
+
+const MINUTE = 60 * 1000;
+// 2025-03-10 12:00 JST
+const NOW = new Date('2025-03-10T03:00:00Z');
+
+function fakeDb(collections: Record<string, Document[]>): Db {
+  return {
+    collection: (name: string) => ({ find: () => ({ toArray: async () => collections[name] || [] }) }),
+  } as unknown as Db;
+}
+
+/**
+ * 日本時間の日付の10:00に入室した滞在
+ */
+function session(dateKey: string, minutes: number, extra: Document = {}): Document {
+  const enterTime = new Date(`${dateKey}T01:00:00Z`);
+  return { enterTime, exitTime: new Date(enterTime.getTime() + minutes * MINUTE), ...extra };
+}
+
+describe('getUserStudyStats', () => {
+  it('今日の作業時間と、最低作業時間以上の日が続いた日数を返す', async () => {
+    const db = fakeDb({
+      sessions: [
+        session('2025-03-10', 20),
+        session('2025-03-09', 30),
+        session('2025-03-08', 10),
+        session('2025-03-08', 10),
+        session('2025-03-06', 60),
+      ],
+    });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 20 * MINUTE, streakDays: 3 });
+  });
+
+  it('今日まだ最低作業時間に達していなくても昨日まで続いていれば継続扱いにする', async () => {
+    const db = fakeDb({ sessions: [session('2025-03-10', 5), session('2025-03-09', 30), session('2025-03-08', 30)] });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 5 * MINUTE, streakDays: 2 });
+  });
+
+  it('最低作業時間に満たない日で連続日数が途切れる', async () => {
+    const db = fakeDb({ sessions: [session('2025-03-10', 30), session('2025-03-09', 10), session('2025-03-08', 30)] });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 30 * MINUTE, streakDays: 1 });
+  });
+
+  it('休憩時間は作業時間に含めない', async () => {
+    const db = fakeDb({ sessions: [session('2025-03-10', 30, { totalBreakMs: 20 * MINUTE })] });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 10 * MINUTE, streakDays: 0 });
+  });
+
+  it('着席中の滞在は現在時刻までを作業時間に数える', async () => {
+    const db = fakeDb({ seats: [{ enterTime: new Date(NOW.getTime() - 40 * MINUTE) }] });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 40 * MINUTE, streakDays: 1 });
+  });
+
+  it('日付は日本時間で区切る', async () => {
+    // 2025-03-09 23:50 JST から 2025-03-10 00:20 JST まで（入室日に数える）
+    const db = fakeDb({
+      sessions: [{ enterTime: new Date('2025-03-09T14:50:00Z'), exitTime: new Date('2025-03-09T15:20:00Z') }],
+    });
+
+    expect(await getUserStudyStats(db, { authorId: 'UC1' }, NOW)).toEqual({ todayMs: 0, streakDays: 1 });
+  });
+});
@@ -0,0 +1,79 @@
+import { Db, Document, Filter } from 'mongodb';
+import { getTotalBreakMs } from '@/lib/seatBreaks';
+import { findUserSessions } from '@/lib/sessions';
+
+// 日付の区切りに使うタイムゾーン
+export const STATS_TIMEZONE = process.env.STATS_TIMEZONE || 'Asia/Tokyo';
+
+// 連続日数の計算で遡る最大日数
+const STREAK_LOOKBACK_DAYS = 366;
+// 連続日数に数える1日の最低作業時間（分）
+export const STREAK_MIN_MINUTES = Number(process.env.STREAK_MIN_MINUTES) || 15;
+
+/**
+ * 指定したタイムゾーンでの日付キーを取得する
+ * @param date 対象の日時
+ * @param timeZone タイムゾーン
+ * @returns YYYY-MM-DD 形式の文字列
+ */
+export function getDateKey(date: Date, timeZone: string = STATS_TIMEZONE): string {
+  // en-CA ロケールは YYYY-MM-DD 形式で出力される
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * 座席ドキュメントから休憩時間を除いた作業時間を計算する
+ * @param seat 座席ドキュメント
+ * @param now 退室していない場合に使う基準時刻
+ * @returns 作業時間（ミリ秒）
+ */
+export function getSessionWorkMs(seat: Document, now: Date = new Date()): number {
+  if (!seat.enterTime) return 0;
+  const end = seat.exitTime ? new Date(seat.exitTime) : now;
+  const workMs = end.getTime() - new Date(seat.enterTime).getTime() - getTotalBreakMs(seat, end);
+  return Math.max(0, workMs);
+}
+
+/**
+ * ユーザーの今日の合計作業時間と連続作業日数を計算する
+ * 連続作業日数は、1日 STREAK_MIN_MINUTES 分以上作業した日が続いた日数
+ * @param db MongoDB データベース接続
+ * @param userQuery ユーザーを特定する条件（authorId または username）
+ * @param now 基準時刻
+ * @returns 今日の合計作業時間（ミリ秒）と連続日数
+ */
+export async function getUserStudyStats(
+  db: Db,
+  userQuery: Filter<Document>,
+  now: Date = new Date()
+): Promise<{ todayMs: number; streakDays: number }> {
+  const since = new Date(now.getTime() - STREAK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const sessions = await findUserSessions(db, userQuery, since);
+
+  // 入室日ごとに作業時間を集計
+  const dailyMs = new Map<string, number>();
+  for (const session of sessions) {
+    const key = getDateKey(new Date(session.enterTime));
+    dailyMs.set(key, (dailyMs.get(key) || 0) + getSessionWorkMs(session, now));
+  }
+
+  const todayKey = getDateKey(now);
+  const todayMs = dailyMs.get(todayKey) || 0;
+
+  // 今日から遡って、最低作業時間以上作業した日が続いた日数を数える
+  // 今日まだ最低作業時間に達していなくても、昨日まで続いていれば継続扱い
+  const minDailyMs = STREAK_MIN_MINUTES * 60 * 1000;
+  let streakDays = 0;
+  for (let offset = todayMs >= minDailyMs ? 0 : 1; offset <= STREAK_LOOKBACK_DAYS; offset++) {
+    const key = getDateKey(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000));
+    if ((dailyMs.get(key) || 0) < minDailyMs) break;
+    streakDays++;
+  }
+
+  return { todayMs, streakDays };
+}
@@ -0,0 +1,231 @@
+import { Db, MongoServerError, UpdateFilter } from 'mongodb';
+import type { EarnedAchievement } from '@/lib/achievements';
+import { countCompletedTasks } from '@/lib/seatTasks';
+import type { SessionRecord } from '@/lib/sessions';
+import { getSessionWorkMs } from '@/lib/userStats';
+
+/**
+ * 表示名の履歴（同じ名前は1件にまとめ、最初と最後に使われた日時を記録する）
+ */
+export interface UserNameRecord {
+  name: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+/**
+ * ユーザーごとの設定
+ */
+export interface UserPreferences {
+  defaultRoom?: string; // 部屋を指定せずに /work した場合に入室する部屋（部屋IDまたは部屋名）
+}
+
+/**
+ * 退室した滞在の累計
+ */
+export interface UserTotals {
+  sessionCount: number;
+  workMs: number; // 休憩時間を除いた作業時間の合計
+  completedTaskCount: number;
+}
+
+/**
+ * 連続作業日数（滞在を終えるたびに更新する）
+ */
+export interface UserStreak {
+  currentDays: number;
+  longestDays: number;
+  updatedAt: Date;
+}
+
+/**
+ * users コレクションに保存されるユーザー（_id は YouTube チャンネルID）
+ * 表示名は変更できるため、ユーザーの特定にはチャンネルIDを使う
+ */
+export interface UserProfile {
+  _id: string;
+  displayName: string; // 最後に見た表示名
+  nameHistory: UserNameRecord[];
+  profileImageUrl: string | null; // 最後に見たプロフィール画像
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  preferences: UserPreferences;
+  totals: UserTotals;
+  streak?: UserStreak;
+  achievements?: EarnedAchievement[]; // 達成した実績（達成順）
+}
+
+/**
+ * コメントなどから読み取ったユーザーの情報
+ */
+export interface UserIdentity {
+  authorId: string;
+  displayName: string;
+  profileImageUrl?: string | null;
+}
+
+let userIndexesEnsured = false;
+
+/**
+ * 表示名からユーザーを探すためのインデックスを作成する（プロセスごとに1回）
+ * @param db MongoDB データベース接続
+ */
+async function ensureUserIndexes(db: Db): Promise<void> {
+  if (userIndexesEnsured) return;
+  try {
+    const usersCollection = db.collection<UserProfile>('users');
+    await usersCollection.createIndex({ displayName: 1 });
+    await usersCollection.createIndex({ 'nameHistory.name': 1 });
+    userIndexesEnsured = true;
+  } catch (indexError) {
+    console.error('[Users] ユーザーのインデックスを作成できませんでした:', (indexError instanceof MongoServerError && indexError.codeName) || indexError);
+  }
+}
+
+/**
+ * ユーザーを見かけたことを記録する（初めて見たユーザーは作成する）
+ * 表示名が変わった場合は履歴に追加し、最新の表示名とプロフィール画像に更新する
+ * @param db MongoDB データベース接続
+ * @param identity チャンネルID・表示名・プロフィール画像
+ * @param seenAt 見かけた日時（コメントの投稿日時など）
+ */
+export async function recordUserSeen(db: Db, identity: UserIdentity, seenAt: Date = new Date()): Promise<void> {
+  await ensureUserIndexes(db);
+  const usersCollection = db.collection<UserProfile>('users');
+  const { authorId, displayName, profileImageUrl } = identity;
+
+  await usersCollection.updateOne(
+    { _id: authorId },
+    {
+      $setOnInsert: {
+        displayName,
+        nameHistory: [],
+        profileImageUrl: profileImageUrl || null,
+        firstSeenAt: seenAt,
+        lastSeenAt: seenAt,
+        preferences: {},
+        totals: { sessionCount: 0, workMs: 0, completedTaskCount: 0 }
+      }
+    },
+    { upsert: true }
+  );
+
+  // 使ったことのある表示名なら最後に使った日時だけを更新し、新しい表示名なら履歴に追加する
+  const knownName = await usersCollection.updateOne(
+    { _id: authorId, 'nameHistory.name': displayName },
+    { $max: { 'nameHistory.$.lastSeenAt': seenAt } }
+  );
+  if (knownName.matchedCount === 0) {
+    await usersCollection.updateOne(
+      { _id: authorId, 'nameHistory.name': { $ne: displayName } },
+      { $push: { nameHistory: { name: displayName, firstSeenAt: seenAt, lastSeenAt: seenAt } } }
+    );
+  }
+
+  // 古いコメントを後から処理した場合は、最新の表示名を上書きしない
+  await usersCollection.updateOne(
+    { _id: authorId, lastSeenAt: { $lte: seenAt } },
+    { $set: { displayName, lastSeenAt: seenAt, ...(profileImageUrl ? { profileImageUrl } : {}) } }
+  );
+  await usersCollection.updateOne({ _id: authorId }, { $min: { firstSeenAt: seenAt } });
+}
+
+/**
+ * 退室した滞在をユーザーの累計に加える
+ * @param db MongoDB データベース接続
+ * @param session 退室した滞在の記録
+ */
+export async function addSessionToUserTotals(db: Db, session: SessionRecord): Promise<void> {
+  if (!session.authorId) return;
+  await db.collection<UserProfile>('users').updateOne(
+    { _id: session.authorId },
+    {
+      $inc: {
+        'totals.sessionCount': 1,
+        'totals.workMs': getSessionWorkMs(session, session.exitTime),
+        'totals.completedTaskCount': countCompletedTasks(session)
+      }
+    }
+  );
+}
+
+/**
+ * ユーザーを取得する
+ * @param db MongoDB データベース接続
+ * @param authorId YouTube チャンネルID
+ * @returns ユーザー（見かけたことがない場合はnull）
+ */
+export async function getUserProfile(db: Db, authorId: string): Promise<UserProfile | null> {
+  return db.collection<UserProfile>('users').findOne({ _id: authorId });
+}
+
+/**
+ * 複数のユーザーをまとめて取得する
+ * @param db MongoDB データベース接続
+ * @param authorIds YouTube チャンネルIDの一覧
+ * @returns チャンネルIDごとのユーザー
+ */
+export async function getUserProfiles(db: Db, authorIds: string[]): Promise<Map<string, UserProfile>> {
+  const profiles = new Map<string, UserProfile>();
+  if (authorIds.length === 0) return profiles;
+
+  const users = await db.collection<UserProfile>('users').find({ _id: { $in: authorIds } }).toArray();
+  for (const user of users) {
+    profiles.set(user._id, user);
+  }
+  return profiles;
+}
+
+/**
+ * 表示名からチャンネルIDを探す（チャンネルIDがわからない Web UI からのコマンドや履歴の検索用）
+ * 現在その表示名のユーザーを優先し、いなければ過去にその表示名を使っていたユーザーを探す
+ * 同じ表示名のユーザーが複数いて特定できない場合はnullを返す
+ * @param db MongoDB データベース接続
+ * @param displayName 表示名
+ * @returns チャンネルID
+ */
+export async function resolveAuthorId(db: Db, displayName: string): Promise<string | null> {
+  await ensureUserIndexes(db);
+  const usersCollection = db.collection<UserProfile>('users');
+
+  const current = await usersCollection.find({ displayName }, { projection: { _id: 1 } }).limit(2).toArray();
+  if (current.length > 0) {
+    return current.length === 1 ? current[0]._id : null;
+  }
+
+  const previous = await usersCollection.find({ 'nameHistory.name': displayName }, { projection: { _id: 1 } }).limit(2).toArray();
+  return previous.length === 1 ? previous[0]._id : null;
+}
+
+/**
+ * ユーザーの設定を更新する（指定した項目だけを更新し、値が空の項目は削除する）
+ * @param db MongoDB データベース接続
+ * @param authorId YouTube チャンネルID
+ * @param preferences 更新する設定（1項目以上）
+ * @returns 更新後のユーザー（見かけたことがない場合はnull）
+ */
+export async function updateUserPreferences(
+  db: Db,
+  authorId: string,
+  preferences: Partial<Record<keyof UserPreferences, string | null>>
+): Promise<UserProfile | null> {
+  const $set: Record<string, string> = {};
+  const $unset: Record<string, ''> = {};
+  for (const [key, value] of Object.entries(preferences)) {
+    if (value) {
+      $set[`preferences.${key}`] = value;
+    } else {
+      $unset[`preferences.${key}`] = '';
+    }
+  }
+
+  const result = await db.collection<UserProfile>('users').findOneAndUpdate(
+    { _id: authorId },
+    {
+      ...(Object.keys($set).length > 0 ? { $set } : {}),
+      ...(Object.keys($unset).length > 0 ? { $unset } : {})
+    } as UpdateFilter<UserProfile>,
+    { returnDocument: 'after' }
+  );
+  return result.value;
+}
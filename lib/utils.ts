@@ -5,30 +5,6 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-/**
- * コメントからコマンドを検出する関数
- * @param commentText コメントテキスト
- * @returns コマンド情報（種類とタスク名）
- */
-export function detectCommand(commentText: string): {
-  command: 'work' | 'finish' | null;
-  taskName?: string;
-} {
-  if (commentText.startsWith('/work')) {
-    // /work コマンドの処理
-    // /work の後のスペースを削除してタスク名を抽出
-    const taskName = commentText.substring(5).trim();
-    return { command: 'work', taskName: taskName || '作業中' }; // タスク名がない場合はデフォルト値
-  }
-  
-  if (commentText.trim() === '/finish') {
-    // /finish コマンドの処理 (完全一致で判定)
-    return { command: 'finish' };
-  }
-  
-  return { command: null }; // コマンドなし
-}
-
 /**
  * 自動退室までの残り時間を計算する関数
  * @param autoExitTime 自動退室予定時刻
@@ -1,6 +1,8 @@
-import { google, youtube_v3 } from 'googleapis';
+import { Common, google, youtube_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import clientPromise from '@/lib/mongodb'; // MongoDBクライアントをインポート
+import { getQuotaStatus, recordQuotaUsage, QuotaMethod } from '@/lib/youtubeQuota';
+import type { BroadcastState, ChatSource, LiveBroadcast } from '@/lib/chatSource/types';
 
 export class YouTubeAPIError extends Error {
   status?: number;
@@ -17,9 +19,13 @@ export interface Author {
   displayName: string;
   profileImageUrl: string;
   channelId: string;
+  isChatOwner?: boolean;
+  isChatModerator?: boolean;
+  isChatSponsor?: boolean;
 }
 
 export interface MessageSnippet {
+  type?: string; // textMessageEvent, superChatEvent など
   displayMessage: string;
   publishedAt: string;
   authorDisplayName?: string;
@@ -27,6 +33,32 @@ export interface MessageSnippet {
   authorChannelId?: {
     value?: string;
   };
+  superChatDetails?: {
+    amountMicros?: string;
+    currency?: string;
+    amountDisplayString?: string;
+    userComment?: string;
+    tier?: number;
+  };
+  superStickerDetails?: {
+    superStickerMetadata?: {
+      stickerId?: string;
+      altText?: string;
+    };
+    amountMicros?: string;
+    currency?: string;
+    amountDisplayString?: string;
+    tier?: number;
+  };
+  newSponsorDetails?: {
+    memberLevelName?: string;
+    isUpgrade?: boolean;
+  };
+  memberMilestoneChatDetails?: {
+    userComment?: string;
+    memberMonth?: number;
+    memberLevelName?: string;
+  };
 }
 
 export interface ChatItem {
@@ -41,7 +73,11 @@ export interface ChatResponse {
   pollingIntervalMillis: number;
 }
 
-class YouTubeApiClient {
+/**
+ * YouTube Data API を使うチャット取得元（getChatSource から CHAT_SOURCE=youtube の場合に生成される）
+ */
+export class YouTubeApiClient implements ChatSource {
+  readonly name = 'youtube' as const;
   private youtubeWithApiKey: youtube_v3.Youtube;
   private youtubeWithOAuth: youtube_v3.Youtube | null = null;
   private oauth2Client: OAuth2Client | null = null;
@@ -77,6 +113,19 @@ class YouTubeApiClient {
     }
   }
 
+  /**
+   * API呼び出しのクォータ消費を記録するヘルパー関数
+   * 失敗した呼び出しもクォータを消費するため、結果に関わらず記録する
+   */
+  private async recordQuota(method: QuotaMethod): Promise<void> {
+    try {
+      const client = await clientPromise;
+      await recordQuotaUsage(client.db('coworking'), method);
+    } catch (error) {
+      console.error(`[YouTubeApiClient] クォータ消費の記録に失敗しました (${method}):`, error);
+    }
+  }
+
   /**
    * MongoDBから liveChatId を取得するヘルパー関数
    */
@@ -175,7 +224,7 @@ class YouTubeApiClient {
       const response = await this.youtubeWithApiKey.videos.list({
         part: ['liveStreamingDetails'],
         id: [videoId]
-      });
+      }).finally(() => this.recordQuota('videos.list'));
 
       const video = response.data.items?.[0];
       const liveChatId = video?.liveStreamingDetails?.activeLiveChatId;
@@ -240,6 +289,92 @@ class YouTubeApiClient {
     }
   }
 
+  /**
+   * チャンネルで配信中（なければ配信予定）の放送を探す
+   * search.list（100ユニット）を避け、クォータを消費しないチャンネルのRSSフィードから最近の動画を取得し、
+   * videos.list（1ユニット）で配信状態を確認する
+   * @param channelId チャンネルID
+   */
+  async findLiveBroadcast(channelId: string): Promise<LiveBroadcast | null> {
+    let videoIds: string[];
+    try {
+      const response = await fetch(`https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`, {
+        cache: 'no-store'
+      });
+      if (!response.ok) {
+        throw new YouTubeAPIError(`チャンネルのフィードを取得できませんでした (channelId: ${channelId})`, response.status, response.status === 404 ? 'CHANNEL_NOT_FOUND' : undefined);
+      }
+      const feed = await response.text();
+      videoIds = Array.from(feed.matchAll(/<yt:videoId>([^<]+)<\/yt:videoId>/g), match => match[1]);
+    } catch (error) {
+      if (error instanceof YouTubeAPIError) throw error;
+      throw new YouTubeAPIError(`チャンネルのフィードの取得中にエラーが発生しました: ${(error instanceof Error && error.message) || 'Unknown error'}`, 500);
+    }
+    if (videoIds.length === 0) return null;
+
+    try {
+      const response = await this.youtubeWithApiKey.videos.list({
+        part: ['snippet', 'liveStreamingDetails'],
+        id: videoIds
+      }).finally(() => this.recordQuota('videos.list'));
+
+      const broadcasts: LiveBroadcast[] = (response.data.items || [])
+        .filter(video => video.id && (video.snippet?.liveBroadcastContent === 'live' || video.snippet?.liveBroadcastContent === 'upcoming'))
+        .map(video => ({
+          videoId: video.id as string,
+          title: video.snippet?.title || '',
+          status: video.snippet?.liveBroadcastContent as LiveBroadcast['status'],
+          liveChatId: video.liveStreamingDetails?.activeLiveChatId || null,
+          scheduledStartTime: video.liveStreamingDetails?.scheduledStartTime ? new Date(video.liveStreamingDetails.scheduledStartTime) : null,
+          actualStartTime: video.liveStreamingDetails?.actualStartTime ? new Date(video.liveStreamingDetails.actualStartTime) : null
+        }));
+
+      // 配信中のものを優先し、その中では最後に始まったもの、配信予定では開始予定が最も近いものを選ぶ
+      const live = broadcasts
+        .filter(broadcast => broadcast.status === 'live')
+        .sort((a, b) => (b.actualStartTime?.getTime() || 0) - (a.actualStartTime?.getTime() || 0));
+      const upcoming = broadcasts
+        .filter(broadcast => broadcast.status === 'upcoming')
+        .sort((a, b) => (a.scheduledStartTime?.getTime() || Infinity) - (b.scheduledStartTime?.getTime() || Infinity));
+      const broadcast = live[0] || upcoming[0] || null;
+
+      // 見つかった liveChatId はキャッシュしておき、getLiveChatId で videos.list を呼ばずに済むようにする
+      if (broadcast?.liveChatId) {
+        await this.cacheLiveChatIdToDb(broadcast.videoId, broadcast.liveChatId);
+        this.liveChatIdCache[broadcast.videoId] = { id: broadcast.liveChatId, timestamp: Date.now() };
+        delete this.negativeCache[broadcast.videoId];
+      }
+      return broadcast;
+    } catch (error) {
+      const response = error instanceof Common.GaxiosError ? error.response : undefined;
+      console.error(`[YouTubeApiClient] Error finding live broadcast for channel ${channelId}:`, response?.data || error);
+      throw new YouTubeAPIError((error instanceof Error && error.message) || '配信中の放送の確認に失敗しました', response?.status);
+    }
+  }
+
+  /**
+   * 動画の配信状態を取得する
+   * 配信が終了すると actualEndTime が設定され、activeLiveChatId がなくなる
+   * @param videoId 動画ID
+   */
+  async getBroadcastState(videoId: string): Promise<BroadcastState> {
+    try {
+      const response = await this.youtubeWithApiKey.videos.list({
+        part: ['liveStreamingDetails'],
+        id: [videoId]
+      }).finally(() => this.recordQuota('videos.list'));
+
+      const details = response.data.items?.[0]?.liveStreamingDetails;
+      return {
+        liveChatId: details?.activeLiveChatId || null,
+        actualEndTime: details?.actualEndTime ? new Date(details.actualEndTime) : null
+      };
+    } catch (error) {
+      const status = error instanceof Common.GaxiosError ? error.response?.status : undefined;
+      throw new YouTubeAPIError((error instanceof Error && error.message) || '配信状態の取得に失敗しました', status);
+    }
+  }
+
   async getLiveChatMessages(liveChatId: string, pageToken?: string): Promise<ChatResponse> {
     try {
       const response = await this.youtubeWithApiKey.liveChatMessages.list({
@@ -247,7 +382,7 @@ class YouTubeApiClient {
         liveChatId,
         pageToken: pageToken || undefined,
         maxResults: 100
-      });
+      }).finally(() => this.recordQuota('liveChatMessages.list'));
       if (!response.data || !Array.isArray(response.data.items)) {
         throw new YouTubeAPIError('YouTube APIから無効なレスポンスが返されました', 500);
       }
@@ -262,6 +397,14 @@ class YouTubeApiClient {
       throw new YouTubeAPIError('メッセージ送信機能は設定されていません (OAuth設定不足)', 501, 'OAUTH_NOT_CONFIGURED');
     }
     await this.refreshAccessTokenIfNeeded();
+
+    // コメント取得に必要なクォータを残すため、残りが少なくなったら返信しない
+    const client = await clientPromise;
+    const quota = await getQuotaStatus(client.db('coworking'));
+    if (quota.repliesSuppressed) {
+      throw new YouTubeAPIError(`クォータの残りが少ないため返信を停止しています (残り${quota.remaining})`, 429, 'QUOTA_RESERVED');
+    }
+
     try {
       const response = await this.youtubeWithOAuth.liveChatMessages.insert({
         part: ['snippet'],
@@ -274,7 +417,7 @@ class YouTubeApiClient {
             }
           }
         }
-      });
+      }).finally(() => this.recordQuota('liveChatMessages.insert'));
       return response.data;
     } catch (error: any) {
       throw new YouTubeAPIError(error?.message || 'メッセージ送信に失敗しました', error?.response?.status);
@@ -299,6 +442,8 @@ class YouTubeApiClient {
   isOAuthConfigured(): boolean {
     return !!this.youtubeWithOAuth;
   }
-}
 
-export const youtubeApiClient = new YouTubeApiClient(); 
\ No newline at end of file
+  canSendMessages(): boolean {
+    return this.isOAuthConfigured();
+  }
+} 
\ No newline at end of file
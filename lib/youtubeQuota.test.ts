@@ -0,0 +1,77 @@
+import type { Db } from 'mongodb';
+import { getQuotaDay, getQuotaStatus, QuotaLedgerEntry } from '@/lib/youtubeQuota';
+
+function fakeDb(entry: Partial<QuotaLedgerEntry> | null): Db {
+  return {
+    collection: () => ({ findOne: async () => entry }),
+  } as unknown as Db;
+}
+
+describe('getQuotaDay', () => {
+  it('太平洋標準時の日付と翌日0時のリセット時刻を返す', () => {
+    // 2025-01-15 12:00 PST
+    expect(getQuotaDay(new Date('2025-01-15T20:00:00Z'))).toEqual({
+      date: '2025-01-15',
+      resetAt: new Date('2025-01-16T08:00:00Z'),
+    });
+  });
+
+  it('夏時間の期間は太平洋夏時間で日付を区切る', () => {
+    // 2025-06-30 23:59:59 PDT
+    expect(getQuotaDay(new Date('2025-07-01T06:59:59Z'))).toEqual({
+      date: '2025-06-30',
+      resetAt: new Date('2025-07-01T07:00:00Z'),
+    });
+  });
+
+  it('UTC では翌日でも太平洋時間の日付を使う', () => {
+    expect(getQuotaDay(new Date('2025-01-16T02:00:00Z')).date).toBe('2025-01-15');
+  });
+});
+
+describe('getQuotaStatus', () => {
+  beforeEach(() => {
+    // リセットまで12時間（2025-01-15 12:00 PST）
+    jest.useFakeTimers({ now: new Date('2025-01-15T20:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('残りのクォータをリセットまで均等に使うコメント取得間隔を求める', async () => {
+    const status = await getQuotaStatus(fakeDb({ used: 5000, calls: {} }), 10 * 1000);
+
+    expect(status.date).toBe('2025-01-15');
+    expect(status.remaining).toBe(5000);
+    // 5000 / 5 = 1000回を12時間で使う
+    expect(status.minPollingIntervalMs).toBe(43200);
+    // 10秒間隔のまま続けると 4320回 × 5 を追加で消費する
+    expect(status.projectedUsage).toBe(5000 + 4320 * 5);
+    expect(status.repliesSuppressed).toBe(false);
+  });
+
+  it('記録がない日はクォータをすべて使える', async () => {
+    const status = await getQuotaStatus(fakeDb(null));
+
+    expect(status.used).toBe(0);
+    expect(status.remaining).toBe(status.budget);
+    expect(status.projectedUsage).toBe(0);
+  });
+
+  it('残りが返信用の予備を下回ると返信を止める', async () => {
+    const status = await getQuotaStatus(fakeDb({ used: 8000, calls: {} }));
+
+    expect(status.remaining).toBe(2000);
+    expect(status.repliesSuppressed).toBe(true);
+  });
+
+  it('クォータ超過が記録された日はリセットまで取得しない', async () => {
+    const status = await getQuotaStatus(fakeDb({ used: 100, calls: {}, exhaustedAt: new Date() }));
+
+    expect(status.exhausted).toBe(true);
+    expect(status.remaining).toBe(0);
+    expect(status.minPollingIntervalMs).toBe(12 * 60 * 60 * 1000);
+    expect(status.repliesSuppressed).toBe(true);
+  });
+});
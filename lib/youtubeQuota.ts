@@ -0,0 +1,165 @@
+import { Db } from 'mongodb';
+
+/**
+ * クォータを消費する YouTube Data API の呼び出し
+ */
+export type QuotaMethod = 'videos.list' | 'liveChatMessages.list' | 'liveChatMessages.insert';
+
+/**
+ * 呼び出し1回あたりのクォータ消費量（YouTube Data API のクォータ計算表に基づく）
+ */
+export const QUOTA_COSTS: Record<QuotaMethod, number> = {
+  'videos.list': 1,
+  'liveChatMessages.list': 5,
+  'liveChatMessages.insert': 50
+};
+
+// 1日あたりのクォータ（Google Cloud Console で割り当てられている値に合わせる）
+const DAILY_QUOTA_BUDGET = Number(process.env.YOUTUBE_DAILY_QUOTA) || 10000;
+// コメント取得のために残しておくクォータ。残りがこれを下回るとBOTの返信を止める
+const REPLY_RESERVE = Number(process.env.YOUTUBE_QUOTA_REPLY_RESERVE) || Math.floor(DAILY_QUOTA_BUDGET * 0.2);
+// クォータがリセットされるタイムゾーン（太平洋時間の0時）
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+
+/**
+ * quotaUsage コレクションに保存される1日分の消費記録
+ */
+export interface QuotaLedgerEntry {
+  _id: string; // 太平洋時間の日付（YYYY-MM-DD）
+  used: number;
+  calls: Partial<Record<QuotaMethod, { count: number; units: number }>>;
+  exhaustedAt?: Date; // APIからクォータ超過エラーが返された日時
+  updatedAt: Date;
+}
+
+/**
+ * 現在のクォータ消費状況
+ */
+export interface QuotaStatus {
+  date: string;
+  budget: number;
+  used: number;
+  remaining: number;
+  calls: QuotaLedgerEntry['calls'];
+  exhausted: boolean;
+  resetAt: Date;
+  replyReserve: number;
+  repliesSuppressed: boolean;
+  // 現在のコメント取得間隔のまま続けた場合のリセット時点の消費量
+  projectedUsage: number;
+  // 予算内に収めるためのコメント取得の最短間隔
+  minPollingIntervalMs: number;
+}
+
+/**
+ * クォータの集計日（太平洋時間の日付）とリセット時刻を求める
+ * @param now 基準時刻
+ * @returns 集計日とリセット時刻
+ */
+export function getQuotaDay(now: Date = new Date()): { date: string; resetAt: Date } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: QUOTA_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+  const elapsedMs = ((Number(part('hour')) * 60 + Number(part('minute'))) * 60 + Number(part('second'))) * 1000 + now.getMilliseconds();
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    // 夏時間の切り替え日は1時間ずれるが、予算の見積もりには影響しない
+    resetAt: new Date(now.getTime() - elapsedMs + 24 * 60 * 60 * 1000)
+  };
+}
+
+/**
+ * API呼び出し1回分のクォータ消費を記録する
+ * @param db MongoDB データベース接続
+ * @param method 呼び出したAPI
+ */
+export async function recordQuotaUsage(db: Db, method: QuotaMethod): Promise<void> {
+  const units = QUOTA_COSTS[method];
+  await db.collection<QuotaLedgerEntry>('quotaUsage').updateOne(
+    { _id: getQuotaDay().date },
+    {
+      $inc: { used: units, [`calls.${method}.count`]: 1, [`calls.${method}.units`]: units },
+      $set: { updatedAt: new Date() }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * APIからクォータ超過エラーが返されたことを記録する
+ * 記録した日はリセットまでコメント取得と返信を行わない（再起動しても維持される）
+ * @param db MongoDB データベース接続
+ */
+export async function markQuotaExhausted(db: Db): Promise<void> {
+  await db.collection<QuotaLedgerEntry>('quotaUsage').updateOne(
+    { _id: getQuotaDay().date },
+    {
+      $set: { exhaustedAt: new Date(), updatedAt: new Date() },
+      $setOnInsert: { used: 0, calls: {} }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * 本日のクォータ消費状況と、予算内に収めるためのコメント取得間隔を求める
+ * @param db MongoDB データベース接続
+ * @param pollingIntervalMs 現在のコメント取得間隔（消費量の見積もりに使う）
+ * @returns クォータ消費状況
+ */
+export async function getQuotaStatus(db: Db, pollingIntervalMs?: number): Promise<QuotaStatus> {
+  const now = new Date();
+  const { date, resetAt } = getQuotaDay(now);
+  const entry = await db.collection<QuotaLedgerEntry>('quotaUsage').findOne({ _id: date });
+
+  const used = entry?.used || 0;
+  const exhausted = Boolean(entry?.exhaustedAt);
+  const remaining = exhausted ? 0 : Math.max(0, DAILY_QUOTA_BUDGET - used);
+  const msUntilReset = Math.max(0, resetAt.getTime() - now.getTime());
+  const pollCost = QUOTA_COSTS['liveChatMessages.list'];
+
+  // 残りのクォータをリセットまで均等に使う間隔（1回分も残っていなければリセットまで待つ）
+  const affordablePolls = Math.floor(remaining / pollCost);
+  const minPollingIntervalMs = affordablePolls > 0 ? Math.ceil(msUntilReset / affordablePolls) : msUntilReset;
+
+  const projectedUsage = pollingIntervalMs && pollingIntervalMs > 0
+    ? used + Math.floor(msUntilReset / pollingIntervalMs) * pollCost
+    : used;
+
+  return {
+    date,
+    budget: DAILY_QUOTA_BUDGET,
+    used,
+    remaining,
+    calls: entry?.calls || {},
+    exhausted,
+    resetAt,
+    replyReserve: REPLY_RESERVE,
+    repliesSuppressed: remaining < REPLY_RESERVE + QUOTA_COSTS['liveChatMessages.insert'],
+    projectedUsage,
+    minPollingIntervalMs
+  };
+}
+
+/**
+ * 直近の日ごとのクォータ消費記録を取得する
+ * @param db MongoDB データベース接続
+ * @param days 取得する日数
+ * @returns 新しい順の消費記録
+ */
+export async function getQuotaHistory(db: Db, days: number = 7): Promise<QuotaLedgerEntry[]> {
+  return db.collection<QuotaLedgerEntry>('quotaUsage')
+    .find({})
+    .sort({ _id: -1 })
+    .limit(days)
+    .toArray();
+}
@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // instrumentation.ts でライブチャット取得ワーカーを起動する
+    instrumentationHook: true,
+  },
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -1,6 +1,17 @@
 /**
- * 座席データに is_active フラグを追加するマイグレーションスクリプト
- * 
+ * 座席データを seats（着席中の座席）と sessions（退室した滞在の記録）に分けるマイグレーションスクリプト
+ *
+ * 1. is_active フラグがない古い座席は、退室時刻がなければ着席中・あれば退室済みとみなす
+ * 2. 部屋ID（room_id）がない古い座席を既定の部屋に属させる
+ * 3. 同じユーザー（authorId）の着席中の座席が複数ある場合は、最も新しく入室した座席だけを残し、
+ *    それ以外は新しい座席の入室時刻で退室したものとする（ユーザーごとのユニークインデックスを作成できるようにする）
+ * 4. 退室済みの座席（is_active: false）を sessions に移す
+ * 5. 空席（username: null）のドキュメントを削除する
+ * 6. 着席中の座席から is_active などの不要になったフィールドを削除する
+ * 7. is_active で絞り込んでいた以前のユニークインデックスを削除する（新しいインデックスはアプリが作成する）
+ *
+ * 何度実行しても同じ結果になる（sessions は元の座席IDでユニーク）
+ *
  * 使用方法:
  * 1. .env.local に MONGODB_URI を設定する
  * 2. node scripts/migrate-seats.js を実行する
@@ -11,58 +22,166 @@ require('dotenv').config({ path: '.env.local' });
 
 const uri = process.env.MONGODB_URI;
 
+// lib/rooms.ts の DEFAULT_ROOM_ID と同じ値（部屋機能導入前の座席はこの部屋に属する）
+const DEFAULT_ROOM_ID = 'focus-room';
+// is_active で絞り込んでいた以前のユニークインデックス
+const LEGACY_INDEXES = ['room_position_active_unique', 'author_active_unique'];
+
 if (!uri) {
   console.error('MONGODB_URI environment variable is not set');
   process.exit(1);
 }
 
+/**
+ * 休憩中の経過時間を含めた合計休憩時間を計算する（lib/seatBreaks.ts の getTotalBreakMs と同じ計算）
+ */
+function getTotalBreakMs(seat, now) {
+  const accumulated = seat.totalBreakMs || 0;
+  if (!seat.breakStartedAt) return accumulated;
+  return accumulated + Math.max(0, now.getTime() - new Date(seat.breakStartedAt).getTime());
+}
+
+/**
+ * 退室時刻で休憩の一覧を確定させる（lib/seatBreaks.ts の getBreakRecords と同じ扱い）
+ */
+function getClosedBreaks(seat, exitTime) {
+  const breaks = Array.isArray(seat.breaks) ? [...seat.breaks] : [];
+  if (seat.breakStartedAt) breaks.push({ start: new Date(seat.breakStartedAt), end: exitTime });
+  return breaks;
+}
+
+/**
+ * 退室時刻でタスク一覧を確定させる（lib/seatTasks.ts の getSeatTasks・endCurrentTask と同じ扱い）
+ */
+function getClosedTasks(seat, exitTime) {
+  if (Array.isArray(seat.tasks)) {
+    return seat.tasks.map(task => (task.endedAt ? task : { ...task, endedAt: exitTime }));
+  }
+  if (!seat.task || !seat.enterTime) return [];
+  return [{ name: seat.task, startedAt: new Date(seat.enterTime), endedAt: exitTime, completed: false }];
+}
+
 async function main() {
   console.log('座席データマイグレーションを開始します...');
-  
+
   const client = new MongoClient(uri);
-  
+
   try {
     await client.connect();
     console.log('MongoDBに接続しました');
-    
+
     const db = client.db('coworking');
     const seatsCollection = db.collection('seats');
-    
+    const sessionsCollection = db.collection('sessions');
+
     // 全座席データを取得
     const totalSeats = await seatsCollection.countDocuments();
     console.log(`合計座席数: ${totalSeats}`);
-    
-    // is_activeフラグが未設定の座席にフラグを追加
-    // 既存の座席はすべてアクティブとみなす
-    const updateResult = await seatsCollection.updateMany(
-      { is_active: { $exists: false } },
-      { 
-        $set: { 
-          is_active: true,
-          exitTime: null
-        } 
-      }
-    );
-    
-    console.log(`${updateResult.modifiedCount}件の座席を更新しました`);
-    
-    // 空席はis_active=trueとする
-    const emptySeatsResult = await seatsCollection.updateMany(
-      { username: null, is_active: { $exists: true } },
+
+    // is_activeフラグが未設定の古い座席は、退室時刻がなければ着席中とみなす
+    const activeResult = await seatsCollection.updateMany(
+      { is_active: { $exists: false }, exitTime: null },
       { $set: { is_active: true } }
     );
-    
-    console.log(`${emptySeatsResult.modifiedCount}件の空席のフラグを設定しました`);
-    
+    const exitedResult = await seatsCollection.updateMany(
+      { is_active: { $exists: false }, exitTime: { $ne: null } },
+      { $set: { is_active: false } }
+    );
+    console.log(`is_activeフラグがない座席: 着席中${activeResult.modifiedCount}件, 退室済み${exitedResult.modifiedCount}件`);
+
+    // 部屋機能導入前の座席は既定の部屋に属する
+    const roomResult = await seatsCollection.updateMany(
+      { room_id: null },
+      { $set: { room_id: DEFAULT_ROOM_ID } }
+    );
+    console.log(`${roomResult.modifiedCount}件の座席に部屋ID (${DEFAULT_ROOM_ID}) を設定しました`);
+
+    // 同じユーザーの着席中の座席は、最も新しく入室した座席だけを残す
+    const duplicateGroups = await seatsCollection.aggregate([
+      { $match: { is_active: true, authorId: { $type: 'string' } } },
+      { $sort: { enterTime: -1, _id: -1 } },
+      { $group: { _id: '$authorId', seats: { $push: { _id: '$_id', enterTime: '$enterTime' } }, count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } }
+    ]).toArray();
+    let duplicateCount = 0;
+    for (const group of duplicateGroups) {
+      const [newest, ...older] = group.seats;
+      const exitTime = newest.enterTime ? new Date(newest.enterTime) : new Date();
+      for (const seat of older) {
+        await seatsCollection.updateOne(
+          { _id: seat._id },
+          { $set: { is_active: false, exitTime } }
+        );
+        duplicateCount++;
+      }
+    }
+    console.log(`${duplicateGroups.length}人のユーザーの重複した着席中の座席${duplicateCount}件を退室済みにしました`);
+
+    // 退室済みの座席を sessions に移す
+    await sessionsCollection.createIndex({ seatId: 1 }, { unique: true });
+    const inactiveSeats = await seatsCollection.find({ is_active: false }).toArray();
+    let movedCount = 0;
+    for (const seat of inactiveSeats) {
+      if (seat.username && seat.enterTime) {
+        const exitTime = seat.exitTime ? new Date(seat.exitTime) : new Date(seat.timestamp || seat.enterTime);
+        const session = {
+          seatId: seat._id,
+          room_id: seat.room_id || DEFAULT_ROOM_ID,
+          position: seat.position,
+          username: seat.username,
+          authorId: seat.authorId || undefined,
+          profileImageUrl: seat.profileImageUrl || undefined,
+          videoId: seat.videoId || undefined,
+          liveChatId: seat.liveChatId || undefined,
+          task: seat.task,
+          tasks: getClosedTasks(seat, exitTime),
+          enterTime: new Date(seat.enterTime),
+          exitTime,
+          // 自動退室・本人の退室は以前は記録していなかった
+          exitReason: seat.exitReason || null,
+          breaks: getClosedBreaks(seat, exitTime),
+          totalBreakMs: getTotalBreakMs(seat, exitTime)
+        };
+        await sessionsCollection.updateOne(
+          { seatId: seat._id },
+          { $setOnInsert: session },
+          { upsert: true, ignoreUndefined: true }
+        );
+        movedCount++;
+      }
+      await seatsCollection.deleteOne({ _id: seat._id });
+    }
+    console.log(`${movedCount}件の退室済みの座席を sessions に移しました（${inactiveSeats.length}件を seats から削除）`);
+
+    // 空席のドキュメントは不要になった
+    const emptySeatsResult = await seatsCollection.deleteMany({ username: null });
+    console.log(`${emptySeatsResult.deletedCount}件の空席を削除しました`);
+
+    // 着席中の座席から不要になったフィールドを削除する
+    const cleanupResult = await seatsCollection.updateMany(
+      {},
+      { $unset: { is_active: '', exitTime: '', exitReason: '' } }
+    );
+    console.log(`${cleanupResult.modifiedCount}件の着席中の座席を更新しました`);
+
+    // 以前のユニークインデックスを削除する
+    const indexes = await seatsCollection.indexInformation();
+    for (const name of LEGACY_INDEXES) {
+      if (indexes[name]) {
+        await seatsCollection.dropIndex(name);
+        console.log(`インデックス ${name} を削除しました`);
+      }
+    }
+
     // 検証
-    const activeSeats = await seatsCollection.countDocuments({ is_active: true });
-    const inactiveSeats = await seatsCollection.countDocuments({ is_active: false });
-    
+    const seatCount = await seatsCollection.countDocuments();
+    const sessionCount = await sessionsCollection.countDocuments();
+
     console.log(`マイグレーション後のデータ状態:`);
-    console.log(`- アクティブな座席: ${activeSeats}件`);
-    console.log(`- 非アクティブな座席: ${inactiveSeats}件`);
-    console.log(`- 合計: ${activeSeats + inactiveSeats}件`);
-    
+    console.log(`- 着席中の座席 (seats): ${seatCount}件`);
+    console.log(`- 滞在の記録 (sessions): ${sessionCount}件`);
+    console.log('座席番号が重複している場合は node scripts/renumber-seat-positions.js を実行してください');
+
     console.log('マイグレーションが完了しました');
   } catch (error) {
     console.error('マイグレーション中にエラーが発生しました:', error);
@@ -72,4 +191,4 @@ async function main() {
   }
 }
 
-main().catch(console.error); 
\ No newline at end of file
+main().catch(console.error);
@@ -0,0 +1,161 @@
+/**
+ * 滞在の記録（sessions）と着席中の座席（seats）から users コレクションを作成するマイグレーションスクリプト
+ *
+ * 1. チャンネルID（authorId）ごとに、使われた表示名・最新のプロフィール画像・最初と最後に見た日時を集める
+ * 2. 退室した滞在から累計（滞在数・作業時間・完了したタスク数）を計算する
+ * 3. users に保存する（既にあるユーザーは累計を計算し直し、知らない表示名だけを履歴に追加する）
+ *
+ * チャンネルIDのない古い記録（Web UI からの入室など）は対象外
+ * 何度実行しても同じ結果になる
+ *
+ * 使用方法:
+ * 1. .env.local に MONGODB_URI を設定する
+ * 2. node scripts/migrate-seats.js を実行済みであることを確認する
+ * 3. node scripts/migrate-users.js を実行する
+ */
+
+const { MongoClient } = require('mongodb');
+require('dotenv').config({ path: '.env.local' });
+
+const uri = process.env.MONGODB_URI;
+
+if (!uri) {
+  console.error('MONGODB_URI environment variable is not set');
+  process.exit(1);
+}
+
+/**
+ * 休憩時間を除いた作業時間を計算する（lib/userStats.ts の getSessionWorkMs と同じ計算）
+ */
+function getSessionWorkMs(session) {
+  const workMs = new Date(session.exitTime).getTime() - new Date(session.enterTime).getTime() - (session.totalBreakMs || 0);
+  return Math.max(0, workMs);
+}
+
+/**
+ * 完了したタスクの数を数える（lib/seatTasks.ts の countCompletedTasks と同じ扱い）
+ */
+function countCompletedTasks(session) {
+  return Array.isArray(session.tasks) ? session.tasks.filter(task => task.completed).length : 0;
+}
+
+/**
+ * 記録からユーザーごとの情報を集める
+ */
+function collectUser(users, record, seenAt, isSession) {
+  let user = users.get(record.authorId);
+  if (!user) {
+    user = {
+      names: new Map(),
+      profileImageUrl: null,
+      profileImageSeenAt: null,
+      firstSeenAt: seenAt.first,
+      lastSeenAt: seenAt.last,
+      totals: { sessionCount: 0, workMs: 0, completedTaskCount: 0 }
+    };
+    users.set(record.authorId, user);
+  }
+
+  const name = user.names.get(record.username);
+  if (!name) {
+    user.names.set(record.username, { name: record.username, firstSeenAt: seenAt.first, lastSeenAt: seenAt.last });
+  } else {
+    if (seenAt.first < name.firstSeenAt) name.firstSeenAt = seenAt.first;
+    if (seenAt.last > name.lastSeenAt) name.lastSeenAt = seenAt.last;
+  }
+
+  if (record.profileImageUrl && (!user.profileImageSeenAt || seenAt.last > user.profileImageSeenAt)) {
+    user.profileImageUrl = record.profileImageUrl;
+    user.profileImageSeenAt = seenAt.last;
+  }
+  if (seenAt.first < user.firstSeenAt) user.firstSeenAt = seenAt.first;
+  if (seenAt.last > user.lastSeenAt) user.lastSeenAt = seenAt.last;
+
+  if (isSession) {
+    user.totals.sessionCount++;
+    user.totals.workMs += getSessionWorkMs(record);
+    user.totals.completedTaskCount += countCompletedTasks(record);
+  }
+}
+
+async function main() {
+  console.log('ユーザーデータマイグレーションを開始します...');
+
+  const client = new MongoClient(uri);
+
+  try {
+    await client.connect();
+    console.log('MongoDBに接続しました');
+
+    const db = client.db('coworking');
+    const usersCollection = db.collection('users');
+    const users = new Map();
+
+    const sessions = await db.collection('sessions')
+      .find({ authorId: { $type: 'string' }, username: { $type: 'string' }, enterTime: { $ne: null } })
+      .toArray();
+    for (const session of sessions) {
+      const first = new Date(session.enterTime);
+      collectUser(users, session, { first, last: new Date(session.exitTime || session.enterTime) }, true);
+    }
+
+    const seats = await db.collection('seats')
+      .find({ authorId: { $type: 'string' }, username: { $type: 'string' }, enterTime: { $ne: null } })
+      .toArray();
+    for (const seat of seats) {
+      const first = new Date(seat.enterTime);
+      collectUser(users, seat, { first, last: new Date(seat.timestamp || seat.enterTime) }, false);
+    }
+
+    console.log(`滞在の記録 ${sessions.length}件・着席中の座席 ${seats.length}件から ${users.size}人のユーザーを集計しました`);
+
+    let createdCount = 0;
+    let updatedCount = 0;
+    for (const [authorId, user] of users) {
+      const nameHistory = [...user.names.values()].sort((a, b) => a.firstSeenAt - b.firstSeenAt);
+      const latestName = nameHistory.reduce((latest, name) => (name.lastSeenAt >= latest.lastSeenAt ? name : latest));
+      const existing = await usersCollection.findOne({ _id: authorId });
+
+      if (!existing) {
+        await usersCollection.insertOne({
+          _id: authorId,
+          displayName: latestName.name,
+          nameHistory,
+          profileImageUrl: user.profileImageUrl,
+          firstSeenAt: user.firstSeenAt,
+          lastSeenAt: user.lastSeenAt,
+          preferences: {},
+          totals: user.totals
+        });
+        createdCount++;
+        continue;
+      }
+
+      // 既にあるユーザーは、コメントから記録した最新の表示名・プロフィール画像をそのまま使う
+      const knownNames = new Set((existing.nameHistory || []).map(record => record.name));
+      const newNames = nameHistory.filter(record => !knownNames.has(record.name));
+      await usersCollection.updateOne(
+        { _id: authorId },
+        {
+          $set: { totals: user.totals },
+          $min: { firstSeenAt: user.firstSeenAt },
+          ...(newNames.length > 0 ? { $push: { nameHistory: { $each: newNames } } } : {})
+        }
+      );
+      updatedCount++;
+    }
+
+    console.log(`マイグレーション後のデータ状態:`);
+    console.log(`- 作成したユーザー: ${createdCount}件`);
+    console.log(`- 累計を計算し直したユーザー: ${updatedCount}件`);
+
+    console.log('マイグレーションが完了しました');
+  } catch (error) {
+    console.error('マイグレーション中にエラーが発生しました:', error);
+  } finally {
+    await client.close();
+    console.log('データベース接続を閉じました');
+  }
+}
+
+main().catch(console.error);
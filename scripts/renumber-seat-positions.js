@@ -0,0 +1,82 @@
+/**
+ * 着席中の座席の座席番号を部屋ごとに 1 から振り直すマイグレーションスクリプト
+ * 振り直した後、部屋内で座席番号が重複しないようにユニークインデックスを作成する
+ * 先に scripts/migrate-seats.js で退室済みの座席を sessions に移しておくこと
+ *
+ * 使用方法:
+ * 1. .env.local に MONGODB_URI を設定する
+ * 2. node scripts/renumber-seat-positions.js を実行する
+ */
+
+const { MongoClient } = require('mongodb');
+require('dotenv').config({ path: '.env.local' });
+
+const uri = process.env.MONGODB_URI;
+
+// lib/rooms.ts の DEFAULT_ROOM_ID と同じ値（部屋機能導入前の座席はこの部屋に属する）
+const DEFAULT_ROOM_ID = 'focus-room';
+// lib/seats.ts の SEAT_POSITION_INDEX と同じ名前
+const SEAT_POSITION_INDEX = 'room_position_unique';
+
+if (!uri) {
+  console.error('MONGODB_URI environment variable is not set');
+  process.exit(1);
+}
+
+async function main() {
+  console.log('座席番号の振り直しを開始します...');
+
+  const client = new MongoClient(uri);
+
+  try {
+    await client.connect();
+    console.log('MongoDBに接続しました');
+
+    const db = client.db('coworking');
+    const seatsCollection = db.collection('seats');
+
+    // room_id がない座席はデフォルトの部屋に所属させる
+    const legacyResult = await seatsCollection.updateMany(
+      { room_id: null },
+      { $set: { room_id: DEFAULT_ROOM_ID } }
+    );
+    console.log(`${legacyResult.modifiedCount}件の座席にデフォルトの部屋を設定しました`);
+
+    const roomIds = await seatsCollection.distinct('room_id');
+
+    for (const roomId of roomIds) {
+      // 入室が早い順に 1 から番号を振る
+      const activeSeats = await seatsCollection
+        .find({ room_id: roomId })
+        .sort({ enterTime: 1, _id: 1 })
+        .toArray();
+
+      // ユニークインデックスが既にある場合に途中で重複しないよう、いったん負の番号に退避してから振り直す
+      for (const [index, seat] of activeSeats.entries()) {
+        await seatsCollection.updateOne({ _id: seat._id }, { $set: { position: -(index + 1) } });
+      }
+      let changedCount = 0;
+      for (const [index, seat] of activeSeats.entries()) {
+        await seatsCollection.updateOne({ _id: seat._id }, { $set: { position: index + 1 } });
+        if (seat.position !== index + 1) changedCount++;
+      }
+
+      console.log(`部屋 ${roomId}: ${activeSeats.length}件中${changedCount}件の座席番号を変更しました`);
+    }
+
+    await seatsCollection.createIndex(
+      { room_id: 1, position: 1 },
+      { name: SEAT_POSITION_INDEX, unique: true }
+    );
+    console.log(`インデックス ${SEAT_POSITION_INDEX} を作成しました`);
+
+    console.log('マイグレーションが完了しました');
+  } catch (error) {
+    console.error('マイグレーション中にエラーが発生しました:', error);
+  } finally {
+    await client.close();
+    console.log('データベース接続を閉じました');
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,112 @@
+/**
+ * 記録したライブチャット（CHAT_RECORDING_DIR の JSONL）を、コマンド処理・自動退室に流して再現するスクリプト
+ *
+ * 使用方法:
+ * 1. .env.local に MONGODB_URI を設定する
+ * 2. npm run chat:replay -- <記録ファイル> [--speed 10|max] [--db coworking_replay] [--seed-from coworking]
+ *
+ * --speed     再生速度（既定: 1 = 実時間。max は待たずに再生する）
+ * --db        再生先のデータベース（既定: coworking_replay。開始時に削除して作り直す）
+ * --seed-from 部屋の設定（rooms）をコピーする元のデータベース（既定: coworking）
+ */
+
+// lib/mongodb が読み込み時に MONGODB_URI を参照するため、最初に環境変数を読み込む（パスは DOTENV_CONFIG_PATH で指定する）
+import 'dotenv/config';
+import { MongoClient } from 'mongodb';
+import { readChatRecording } from '@/lib/chatSource';
+import { replayChatRecording } from '@/lib/ingestion/replay';
+
+const PRODUCTION_DB_NAME = 'coworking';
+
+function parseArgs(argv: string[]) {
+  const options = { file: '', speed: 1, dbName: 'coworking_replay', seedFrom: PRODUCTION_DB_NAME };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--speed') {
+      const value = argv[++i];
+      options.speed = value === 'max' ? Infinity : Number(value);
+    } else if (arg === '--db') {
+      options.dbName = argv[++i];
+    } else if (arg === '--seed-from') {
+      options.seedFrom = argv[++i];
+    } else {
+      options.file = arg;
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.file) {
+    console.error('記録ファイルを指定してください: npm run chat:replay -- <記録ファイル> [--speed 10|max]');
+    process.exit(1);
+  }
+  if (!(options.speed > 0)) {
+    console.error('--speed には正の数または max を指定してください');
+    process.exit(1);
+  }
+  if (options.dbName === PRODUCTION_DB_NAME) {
+    console.error(`再生先に本番のデータベース（${PRODUCTION_DB_NAME}）は指定できません`);
+    process.exit(1);
+  }
+
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    console.error('MONGODB_URI environment variable is not set');
+    process.exit(1);
+  }
+
+  const entries = await readChatRecording(options.file);
+  console.log(`${options.file} から${entries.length}件の記録を読み込みました`);
+
+  const client = new MongoClient(uri);
+  try {
+    await client.connect();
+
+    // 再生先のデータベースを作り直し、部屋の設定だけをコピーする
+    const db = client.db(options.dbName);
+    await db.dropDatabase();
+    const rooms = await client.db(options.seedFrom).collection('rooms').find({}).toArray();
+    if (rooms.length > 0) {
+      await db.collection('rooms').insertMany(rooms);
+    }
+    console.log(`${options.dbName} を初期化しました（部屋の設定: ${rooms.length}件）`);
+
+    const speedLabel = isFinite(options.speed) ? `${options.speed}倍速` : '待ち時間なし';
+    console.log(`再生を開始します（${speedLabel}）`);
+
+    const result = await replayChatRecording(db, entries, {
+      speed: options.speed,
+      onPage: (recordedAt, processedCount) => {
+        if (processedCount > 0) {
+          console.log(`[${recordedAt.toISOString()}] ${processedCount}件のコメントを処理しました`);
+        }
+      }
+    });
+
+    for (const command of result.commands) {
+      console.log(`コマンド: ${command.command} by ${command.authorName} -> ${command.success ? '成功' : `失敗 (${command.error})`}`);
+    }
+    for (const reply of result.replies) {
+      console.log(`返信 [${reply.at.toISOString()}]: ${reply.message}`);
+    }
+
+    console.log('再生が完了しました');
+    console.log(`  ページ数: ${result.pages}`);
+    console.log(`  処理したコメント: ${result.processedCount}`);
+    console.log(`  実行したコマンド: ${result.commands.length}`);
+    console.log(`  自動退室: ${result.autoExitCount}`);
+    console.log(`  BOTの返信: ${result.replies.length}（記録時: ${result.recordedReplies}）`);
+    console.log(`結果は ${options.dbName} データベースで確認できます`);
+  } finally {
+    await client.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('再生中にエラーが発生しました:', error);
+    process.exit(1);
+  });